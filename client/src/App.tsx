@@ -14,6 +14,11 @@ const Dashboard = lazy(() => import("@/pages/dashboard"));
 const GoalSelection = lazy(() => import("@/pages/goal-selection"));
 const Analytics = lazy(() => import("@/pages/analytics"));
 const Social = lazy(() => import("@/pages/social"));
+const Profile = lazy(() => import("@/pages/profile"));
+const WeeklyReview = lazy(() => import("@/pages/weekly-review"));
+const ForgotPassword = lazy(() => import("@/pages/forgot-password"));
+const ResetPassword = lazy(() => import("@/pages/reset-password"));
+const VerifyEmail = lazy(() => import("@/pages/verify-email"));
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -43,6 +48,10 @@ function Router() {
   return (
     <Suspense fallback={<LoadingFallback />}>
       <Switch>
+        {/* Opened from email links, whether or not the user is signed in */}
+        <Route path="/forgot-password" component={ForgotPassword} />
+        <Route path="/reset-password" component={ResetPassword} />
+        <Route path="/verify-email" component={VerifyEmail} />
         {!isAuthenticated ? (
           <Route path="/" component={Landing} />
         ) : (
@@ -51,6 +60,8 @@ function Router() {
             <Route path="/goals" component={GoalSelection} />
             <Route path="/analytics" component={Analytics} />
             <Route path="/social" component={Social} />
+            <Route path="/profile" component={Profile} />
+            <Route path="/review" component={WeeklyReview} />
           </>
         )}
         <Route component={NotFound} />
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, removeStoredToken } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+
+interface ActiveSession {
+  id: string;
+  deviceName: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  lastSeenAt: string | null;
+  createdAt: string | null;
+  current: boolean;
+}
+
+function isMobileDevice(session: ActiveSession) {
+  return /iOS|Android/.test(session.deviceName ?? "");
+}
+
+export default function ActiveSessions() {
+  const [confirmSignOutEverywhere, setConfirmSignOutEverywhere] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Session Expired",
+        description: "Please sign in again to continue.",
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "Error",
+      description: fallback,
+      variant: "destructive",
+    });
+  };
+
+  // This device was signed out too: drop its tokens and return to the sign-in screen
+  const signOutHere = (description: string) => {
+    removeStoredToken();
+    queryClient.setQueryData(["/api/auth/user"], null);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    toast({
+      title: "Signed Out",
+      description,
+    });
+  };
+
+  const revokeSessionMutation = useMutation({
+    mutationFn: async (session: ActiveSession) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${session.id}`);
+      return session;
+    },
+    onSuccess: (session) => {
+      if (session.current) {
+        signOutHere("You have been successfully signed out.");
+        return;
+      }
+      toast({
+        title: "Device Signed Out",
+        description: `${session.deviceName || "The device"} will need to sign in again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    },
+    onError: handleError("Failed to sign out the device"),
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async (exceptCurrent: boolean) => {
+      const response = await apiRequest("POST", "/api/auth/sessions/revoke-all", { exceptCurrent });
+      return { exceptCurrent, ...(await response.json()) } as { exceptCurrent: boolean; revoked: number };
+    },
+    onSuccess: ({ exceptCurrent, revoked }) => {
+      if (!exceptCurrent) {
+        signOutHere("You have been signed out on every device.");
+        return;
+      }
+      toast({
+        title: "Other Devices Signed Out",
+        description: `${revoked} other session${revoked === 1 ? "" : "s"} signed out.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+    },
+    onError: handleError("Failed to sign out sessions"),
+  });
+
+  const isPending = revokeSessionMutation.isPending || revokeAllMutation.isPending;
+  const hasOtherSessions = sessions?.some(session => !session.current) ?? false;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <i className="fas fa-laptop text-primary"></i>
+          Active Sessions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading sessions...</div>
+        ) : (
+          <div className="divide-y divide-border" data-testid="list-sessions">
+            {sessions?.map(session => (
+              <div key={session.id} className="flex items-center justify-between gap-4 py-3" data-testid={`session-${session.id}`}>
+                <div className="flex items-center gap-3 min-w-0">
+                  <i className={`fas ${isMobileDevice(session) ? "fa-mobile-alt" : "fa-desktop"} text-muted-foreground w-5 text-center`}></i>
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground truncate">{session.deviceName || "Unknown device"}</span>
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground truncate" title={session.userAgent ?? undefined}>
+                      {session.ipAddress || "Unknown IP"}
+                      {session.lastSeenAt && ` · Active ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`}
+                      {session.createdAt && ` · Signed in ${formatDistanceToNow(new Date(session.createdAt), { addSuffix: true })}`}
+                    </div>
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revokeSessionMutation.mutate(session)}
+                  disabled={isPending}
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  Sign Out
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            onClick={() => revokeAllMutation.mutate(true)}
+            disabled={isPending || !hasOtherSessions}
+            data-testid="button-revoke-other-sessions"
+          >
+            Sign Out Other Devices
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => setConfirmSignOutEverywhere(true)}
+            disabled={isPending}
+            data-testid="button-revoke-all-sessions"
+          >
+            Sign Out Everywhere
+          </Button>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={confirmSignOutEverywhere} onOpenChange={setConfirmSignOutEverywhere}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device, including this one, will need to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-revoke-all">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => revokeAllMutation.mutate(false)}
+              data-testid="button-confirm-revoke-all"
+            >
+              Sign Out Everywhere
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -14,11 +14,15 @@ import {
 } from "@/components/ui/sheet";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useLocation } from "wouter";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Progress } from "@/components/ui/progress";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, removeStoredToken } from "@/lib/queryClient";
 import goalFlowIcon from "@/assets/goalflow-icon.png";
+import WeekSettingsForm from "@/components/week-settings-form";
+import EmailVerificationBanner from "@/components/email-verification-banner";
 import { useState } from "react";
+import type { LevelProgress } from "@shared/xp";
 
 interface User {
   id: string;
@@ -26,6 +30,9 @@ interface User {
   firstName: string | null;
   lastName: string | null;
   profileImageUrl: string | null;
+  emailVerified?: boolean | null;
+  timezone?: string;
+  weekStartDay?: number;
 }
 
 interface AppHeaderProps {
@@ -37,6 +44,12 @@ export default function AppHeader({ user }: AppHeaderProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [weekSettingsOpen, setWeekSettingsOpen] = useState(false);
+
+  const { data: xp } = useQuery<LevelProgress>({
+    queryKey: ["/api/user/xp"],
+    enabled: !!user,
+  });
 
   // Logout mutation
   const logoutMutation = useMutation({
@@ -157,6 +170,22 @@ export default function AppHeader({ user }: AppHeaderProps) {
           </nav>
           
           <div className="flex items-center space-x-3">
+            {xp && (
+              <div
+                className="hidden sm:flex items-center space-x-2"
+                title={`${xp.currentLevelXp}/${xp.nextLevelXp} XP to level ${xp.level + 1} (${xp.totalXp} XP total)`}
+                data-testid="xp-bar"
+              >
+                <span className="text-xs font-bold text-primary whitespace-nowrap" data-testid="text-user-level">
+                  Lv {xp.level}
+                </span>
+                <Progress
+                  value={xp.percentage}
+                  className="h-2 w-24"
+                  aria-label={`${xp.percentage}% of the way to level ${xp.level + 1}`}
+                />
+              </div>
+            )}
             {/* Mobile Navigation Menu */}
             <Sheet open={mobileMenuOpen} onOpenChange={setMobileMenuOpen}>
               <SheetTrigger asChild>
@@ -217,8 +246,32 @@ export default function AppHeader({ user }: AppHeaderProps) {
                         <p className="text-xs text-muted-foreground">
                           {user?.email}
                         </p>
+                        {xp && (
+                          <p className="text-xs text-primary font-medium" data-testid="mobile-text-user-level">
+                            Level {xp.level} · {xp.totalXp} XP
+                          </p>
+                        )}
                       </div>
                     </div>
+                    <button
+                      onClick={() => handleMobileNavigation("/profile")}
+                      className={`w-full flex items-center space-x-3 p-3 rounded-lg text-left ${location === "/profile" ? "bg-primary/10 text-primary font-medium" : "text-muted-foreground hover:text-foreground hover:bg-accent"} transition-colors mt-2`}
+                      data-testid="mobile-link-profile"
+                    >
+                      <i className="fas fa-user w-5"></i>
+                      <span>Profile</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setWeekSettingsOpen(true);
+                        setMobileMenuOpen(false);
+                      }}
+                      className="w-full flex items-center space-x-3 p-3 rounded-lg text-left text-muted-foreground hover:text-foreground hover:bg-accent transition-colors mt-2"
+                      data-testid="mobile-button-week-settings"
+                    >
+                      <i className="fas fa-globe w-5"></i>
+                      <span>Week Settings</span>
+                    </button>
                     <button
                       onClick={() => {
                         handleLogout();
@@ -250,6 +303,14 @@ export default function AppHeader({ user }: AppHeaderProps) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setLocation("/profile")} data-testid="button-profile">
+                  <i className="fas fa-user mr-2"></i>
+                  Profile
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setWeekSettingsOpen(true)} data-testid="button-week-settings">
+                  <i className="fas fa-globe mr-2"></i>
+                  Week Settings
+                </DropdownMenuItem>
                 <DropdownMenuItem onClick={handleLogout} data-testid="button-logout">
                   <i className="fas fa-sign-out-alt mr-2"></i>
                   Sign Out
@@ -259,6 +320,14 @@ export default function AppHeader({ user }: AppHeaderProps) {
           </div>
         </div>
       </div>
+
+      {user && user.emailVerified === false && <EmailVerificationBanner email={user.email} />}
+
+      <WeekSettingsForm
+        settings={user}
+        isOpen={weekSettingsOpen}
+        onClose={() => setWeekSettingsOpen(false)}
+      />
     </header>
   );
 }
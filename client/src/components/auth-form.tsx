@@ -6,9 +6,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, setStoredToken } from "@/lib/queryClient";
+import { apiRequest, setStoredTokens, ApiError } from "@/lib/queryClient";
+import { Link } from "wouter";
 import { Eye, EyeOff, User, Mail, Lock } from "lucide-react";
 import goalFlowIcon from "@/assets/goalflow-icon.png";
+import TwoFactorCodeInput from "@/components/two-factor-code-input";
 
 interface AuthResponse {
   user: {
@@ -20,6 +22,13 @@ interface AuthResponse {
     emailVerified: boolean;
   };
   token: string;
+  refreshToken: string;
+}
+
+// Returned by login instead of tokens when the account has two-factor authentication
+interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
 }
 
 export default function AuthForm() {
@@ -31,26 +40,52 @@ export default function AuthForm() {
     firstName: "",
     lastName: "",
   });
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  // Throttled or locked out: say how long to wait instead of blaming the credentials
+  const showRateLimitToast = (error: unknown) => {
+    if (!(error instanceof ApiError) || error.status !== 429) {
+      return false;
+    }
+    const minutes = Math.ceil((error.data?.retryAfter ?? 60) / 60);
+    toast({
+      title: "Too Many Attempts",
+      description: `${error.data?.message || "Please slow down."} Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      variant: "destructive",
+    });
+    return true;
+  };
+
+  const completeSignIn = (data: AuthResponse) => {
+    setStoredTokens(data);
+    queryClient.setQueryData(["/api/auth/user"], data.user);
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    toast({
+      title: "Welcome back!",
+      description: "You have successfully signed in.",
+    });
+  };
+
   // Login mutation
   const loginMutation = useMutation({
     mutationFn: async (data: { email: string; password: string }) => {
       const response = await apiRequest("POST", "/api/auth/login", data);
-      return response.json() as Promise<AuthResponse>;
+      return response.json() as Promise<AuthResponse | TwoFactorChallenge>;
     },
     onSuccess: (data) => {
-      setStoredToken(data.token);
-      queryClient.setQueryData(["/api/auth/user"], data.user);
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      toast({
-        title: "Welcome back!",
-        description: "You have successfully signed in.",
-      });
+      if ("twoFactorRequired" in data) {
+        setTwoFactorCode("");
+        setChallengeToken(data.challengeToken);
+        return;
+      }
+      completeSignIn(data);
     },
     onError: (error: any) => {
+      if (showRateLimitToast(error)) return;
       toast({
         title: "Sign In Failed",
         description: error.message || "Please check your credentials and try again.",
@@ -59,22 +94,51 @@ export default function AuthForm() {
     },
   });
 
+  // Second sign-in step: authenticator or recovery code
+  const verifyTwoFactorMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/verify", { challengeToken, code });
+      return response.json() as Promise<AuthResponse>;
+    },
+    onSuccess: completeSignIn,
+    onError: (error) => {
+      if (showRateLimitToast(error)) return;
+      // An expired challenge means starting over from the password
+      if (error instanceof ApiError && error.status === 401 && error.data?.message?.startsWith("Sign-in has expired")) {
+        setChallengeToken(null);
+      }
+      setTwoFactorCode("");
+      toast({
+        title: "Verification Failed",
+        description: (error instanceof ApiError && error.data?.message) || "Please check the code and try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!twoFactorCode.trim()) return;
+    verifyTwoFactorMutation.mutate(twoFactorCode.trim());
+  };
+
   // Register mutation
   const registerMutation = useMutation({
-    mutationFn: async (data: { email: string; password: string; firstName?: string; lastName?: string }) => {
+    mutationFn: async (data: { email: string; password: string; firstName?: string; lastName?: string; timezone?: string }) => {
       const response = await apiRequest("POST", "/api/auth/register", data);
       return response.json() as Promise<AuthResponse>;
     },
     onSuccess: (data) => {
-      setStoredToken(data.token);
+      setStoredTokens(data);
       queryClient.setQueryData(["/api/auth/user"], data.user);
       queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       toast({
         title: "Welcome to makeprogress!",
-        description: "Your account has been created successfully.",
+        description: "Check your inbox for a link to verify your email address.",
       });
     },
     onError: (error: any) => {
+      if (showRateLimitToast(error)) return;
       toast({
         title: "Registration Failed",
         description: error.message || "Please try again with different details.",
@@ -115,6 +179,8 @@ export default function AuthForm() {
         password: formData.password,
         firstName: formData.firstName || undefined,
         lastName: formData.lastName || undefined,
+        // Weeks start and end in the browser's timezone unless changed later
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
       });
     }
   };
@@ -143,157 +209,195 @@ export default function AuthForm() {
         </CardHeader>
         
         <CardContent>
-          <Tabs value={isLogin ? "login" : "register"} onValueChange={(value) => setIsLogin(value === "login")}>
-            <TabsList className="grid w-full grid-cols-2 mb-6">
-              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
-              <TabsTrigger value="register" data-testid="tab-register">Sign Up</TabsTrigger>
-            </TabsList>
+          {challengeToken ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4" data-testid="form-two-factor">
+              <div className="text-center space-y-1">
+                <h2 className="font-semibold text-foreground">Two-factor authentication</h2>
+                <p className="text-sm text-muted-foreground">Enter the 6-digit code from your authenticator app.</p>
+              </div>
+              <TwoFactorCodeInput
+                value={twoFactorCode}
+                onChange={setTwoFactorCode}
+                disabled={verifyTwoFactorMutation.isPending}
+                allowRecoveryCode
+              />
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={verifyTwoFactorMutation.isPending || !twoFactorCode.trim()}
+                data-testid="button-verify-two-factor"
+              >
+                {verifyTwoFactorMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setChallengeToken(null)}
+                disabled={verifyTwoFactorMutation.isPending}
+                data-testid="button-cancel-two-factor"
+              >
+                Back to sign in
+              </Button>
+            </form>
+          ) : (
+            <Tabs value={isLogin ? "login" : "register"} onValueChange={(value) => setIsLogin(value === "login")}>
+              <TabsList className="grid w-full grid-cols-2 mb-6">
+                <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Sign Up</TabsTrigger>
+              </TabsList>
             
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <TabsContent value="login" className="space-y-4 mt-0">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="email"
-                      type="email"
-                      placeholder="Enter your email"
-                      value={formData.email}
-                      onChange={(e) => handleInputChange("email", e.target.value)}
-                      className="pl-10"
-                      required
-                      data-testid="input-email"
-                    />
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <TabsContent value="login" className="space-y-4 mt-0">
+                  <div className="space-y-2">
+                    <Label htmlFor="email">Email</Label>
+                    <div className="relative">
+                      <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={formData.email}
+                        onChange={(e) => handleInputChange("email", e.target.value)}
+                        className="pl-10"
+                        required
+                        data-testid="input-email"
+                      />
+                    </div>
                   </div>
-                </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Enter your password"
-                      value={formData.password}
-                      onChange={(e) => handleInputChange("password", e.target.value)}
-                      className="pl-10 pr-10"
-                      required
-                      data-testid="input-password"
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
-                      data-testid="button-toggle-password"
-                    >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </Button>
-                  </div>
-                </div>
-              </TabsContent>
-              
-              <TabsContent value="register" className="space-y-4 mt-0">
-                <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Label htmlFor="firstName">First Name</Label>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      <Link href="/forgot-password" className="text-xs text-primary hover:underline" data-testid="link-forgot-password">
+                        Forgot password?
+                      </Link>
+                    </div>
                     <div className="relative">
-                      <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                       <Input
-                        id="firstName"
-                        type="text"
-                        placeholder="First name"
-                        value={formData.firstName}
-                        onChange={(e) => handleInputChange("firstName", e.target.value)}
-                        className="pl-10"
-                        data-testid="input-first-name"
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Enter your password"
+                        value={formData.password}
+                        onChange={(e) => handleInputChange("password", e.target.value)}
+                        className="pl-10 pr-10"
+                        required
+                        data-testid="input-password"
                       />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                        data-testid="button-toggle-password"
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
                     </div>
                   </div>
+                </TabsContent>
+              
+                <TabsContent value="register" className="space-y-4 mt-0">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="firstName">First Name</Label>
+                      <div className="relative">
+                        <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="firstName"
+                          type="text"
+                          placeholder="First name"
+                          value={formData.firstName}
+                          onChange={(e) => handleInputChange("firstName", e.target.value)}
+                          className="pl-10"
+                          data-testid="input-first-name"
+                        />
+                      </div>
+                    </div>
                   
+                    <div className="space-y-2">
+                      <Label htmlFor="lastName">Last Name</Label>
+                      <div className="relative">
+                        <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="lastName"
+                          type="text"
+                          placeholder="Last name"
+                          value={formData.lastName}
+                          onChange={(e) => handleInputChange("lastName", e.target.value)}
+                          className="pl-10"
+                          data-testid="input-last-name"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                
                   <div className="space-y-2">
-                    <Label htmlFor="lastName">Last Name</Label>
+                    <Label htmlFor="email">Email</Label>
                     <div className="relative">
-                      <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                       <Input
-                        id="lastName"
-                        type="text"
-                        placeholder="Last name"
-                        value={formData.lastName}
-                        onChange={(e) => handleInputChange("lastName", e.target.value)}
+                        id="email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={formData.email}
+                        onChange={(e) => handleInputChange("email", e.target.value)}
                         className="pl-10"
-                        data-testid="input-last-name"
+                        required
+                        data-testid="input-email"
                       />
                     </div>
                   </div>
-                </div>
-                
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="email"
-                      type="email"
-                      placeholder="Enter your email"
-                      value={formData.email}
-                      onChange={(e) => handleInputChange("email", e.target.value)}
-                      className="pl-10"
-                      required
-                      data-testid="input-email"
-                    />
-                  </div>
-                </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                    <Input
-                      id="password"
-                      type={showPassword ? "text" : "password"}
-                      placeholder="Create a password (min 8 characters)"
-                      value={formData.password}
-                      onChange={(e) => handleInputChange("password", e.target.value)}
-                      className="pl-10 pr-10"
-                      required
-                      minLength={6}
-                      data-testid="input-password"
-                    />
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
-                      onClick={() => setShowPassword(!showPassword)}
-                      data-testid="button-toggle-password"
-                    >
-                      {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                    </Button>
+                  <div className="space-y-2">
+                    <Label htmlFor="password">Password</Label>
+                    <div className="relative">
+                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        id="password"
+                        type={showPassword ? "text" : "password"}
+                        placeholder="Create a password (min 8 characters)"
+                        value={formData.password}
+                        onChange={(e) => handleInputChange("password", e.target.value)}
+                        className="pl-10 pr-10"
+                        required
+                        minLength={6}
+                        data-testid="input-password"
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                        onClick={() => setShowPassword(!showPassword)}
+                        data-testid="button-toggle-password"
+                      >
+                        {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </div>
                   </div>
-                </div>
-              </TabsContent>
+                </TabsContent>
               
-              <Button 
-                type="submit" 
-                className="w-full" 
-                disabled={isLoading}
-                data-testid="button-submit"
-              >
-                {isLoading ? (
-                  <div className="flex items-center space-x-2">
-                    <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
-                    <span>{isLogin ? "Signing In..." : "Creating Account..."}</span>
-                  </div>
-                ) : (
-                  isLogin ? "Sign In" : "Create Account"
-                )}
-              </Button>
-            </form>
-          </Tabs>
+                <Button 
+                  type="submit" 
+                  className="w-full" 
+                  disabled={isLoading}
+                  data-testid="button-submit"
+                >
+                  {isLoading ? (
+                    <div className="flex items-center space-x-2">
+                      <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+                      <span>{isLogin ? "Signing In..." : "Creating Account..."}</span>
+                    </div>
+                  ) : (
+                    isLogin ? "Sign In" : "Create Account"
+                  )}
+                </Button>
+              </form>
+            </Tabs>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -1,11 +1,10 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import personalIcon from "@assets/personal_1758464140980.png";
-import innerPeaceIcon from "@assets/innerpeace_1758464155112.png";
-import healthIcon from "@assets/health1_1758464133360.png";
-import familyIcon from "@assets/family1_1758464115422.png";
-import careerIcon from "@assets/carrer1_1758464107256.png";
-import funIcon from "@assets/fun1_1758464127001.png";
+import { Progress } from "@/components/ui/progress";
+import type { GoalProgress } from "@shared/progress";
+import type { Streak } from "@shared/streaks";
+import CategoryIcon, { getCategoryColorProps } from "@/components/category-icon";
+import SubtaskChecklist, { type GoalSubtask } from "@/components/subtask-checklist";
 
 interface CategoryGoal {
   id: string;
@@ -14,32 +13,32 @@ interface CategoryGoal {
     description: string;
   };
   completed: boolean;
+  note?: string | null;
+  subtasks?: GoalSubtask[];
+  autoCompleteFromSubtasks?: boolean;
+  progress?: GoalProgress;
+  streak?: Streak;
 }
 
 interface CategoryCardProps {
   category: {
     name: string;
+    icon: string;
     color: string;
     completed: number;
     total: number;
   };
   goals: CategoryGoal[];
+  streak?: Streak;
   onToggleGoal: (userGoalId: string) => void;
+  onLogProgress?: (userGoalId: string) => void;
+  onEditNote?: (userGoalId: string) => void;
   onCategoryClick?: () => void;
+  subtasksEditable?: boolean;
 }
 
-export default function CategoryCard({ category, goals, onToggleGoal, onCategoryClick }: CategoryCardProps) {
-  const getCategoryIcon = (categoryName: string) => {
-    const iconMap: Record<string, string> = {
-      'Personal': personalIcon,
-      'Inner Peace': innerPeaceIcon, 
-      'Health': healthIcon,
-      'Family': familyIcon,
-      'Career': careerIcon,
-      'Fun': funIcon,
-    };
-    return iconMap[categoryName] || personalIcon;
-  };
+export default function CategoryCard({ category, goals, streak, onToggleGoal, onLogProgress, onEditNote, onCategoryClick, subtasksEditable = false }: CategoryCardProps) {
+  const categoryColor = getCategoryColorProps(category.color);
 
   const getProgressDots = () => {
     return Array.from({ length: category.total }, (_, index) => (
@@ -66,12 +65,14 @@ export default function CategoryCard({ category, goals, onToggleGoal, onCategory
       tabIndex={0}
       data-testid={`card-category-${category.name.toLowerCase().replace(' ', '-')}`}
     >
-      <div className={`category-${category.color} h-32 rounded-t-xl flex items-center justify-center relative group-hover:scale-105 transition-transform duration-300`}>
+      <div
+        className={`${categoryColor.className} h-32 rounded-t-xl flex items-center justify-center relative group-hover:scale-105 transition-transform duration-300`}
+        style={categoryColor.style}
+      >
         <div className="w-20 h-20 rounded-full bg-white/20 backdrop-blur-sm border-2 border-white/30 flex items-center justify-center shadow-lg group-hover:bg-white/30 transition-all duration-300">
-          <img 
-            src={getCategoryIcon(category.name)} 
-            alt={`${category.name} icon`}
-            className="w-14 h-14 object-contain rounded-full group-hover:scale-110 transition-transform duration-300"
+          <CategoryIcon
+            category={category}
+            className="w-14 h-14 text-3xl object-contain rounded-full group-hover:scale-110 transition-transform duration-300"
           />
         </div>
         <div className="absolute bottom-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
@@ -81,7 +82,22 @@ export default function CategoryCard({ category, goals, onToggleGoal, onCategory
         </div>
       </div>
       <CardContent className="p-4">
-        <h3 className="font-semibold text-foreground mb-2">{category.name}</h3>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="font-semibold text-foreground">{category.name}</h3>
+          {streak && streak.current > 0 && (
+            <span
+              className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                streak.atRisk
+                  ? 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400'
+                  : 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400'
+              }`}
+              title={`${streak.atRisk ? 'Streak at risk! ' : ''}Longest: ${streak.longest} ${streak.longest === 1 ? 'week' : 'weeks'}`}
+              data-testid={`text-category-streak-${category.name.toLowerCase().replace(' ', '-')}`}
+            >
+              🔥 {streak.current}
+            </span>
+          )}
+        </div>
         <div className="flex items-center justify-between mb-3">
           <span className="text-sm text-muted-foreground">
             {category.completed}/{category.total} goals completed
@@ -91,40 +107,123 @@ export default function CategoryCard({ category, goals, onToggleGoal, onCategory
           </div>
         </div>
         <div className="space-y-2 text-sm">
-          {goals.map((userGoal) => (
-            <div key={userGoal.id} className="flex items-center space-x-2">
-              <Button
-                variant="ghost"
-                size="sm"
-                className="p-0 h-auto text-xs"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onToggleGoal(userGoal.id);
-                }}
-                aria-label={`Mark goal ${userGoal.completed ? 'incomplete' : 'complete'}: ${userGoal.goal.description}`}
-                aria-pressed={userGoal.completed}
-                data-testid={`button-toggle-goal-${userGoal.id}`}
-              >
-                <i 
-                  className={`${
-                    userGoal.completed 
-                      ? 'fas fa-check-circle text-accent' 
-                      : 'far fa-circle text-border'
-                  } text-xs`}
-                ></i>
-              </Button>
-              <span 
-                className={`${
-                  userGoal.completed 
-                    ? 'text-muted-foreground line-through' 
-                    : 'text-foreground'
-                }`}
-                data-testid={`text-goal-${userGoal.id}`}
-              >
-                {userGoal.goal.description}
-              </span>
-            </div>
-          ))}
+          {goals.map((userGoal) => {
+            const progress = userGoal.progress;
+            const isQuantity = progress?.kind === "quantity";
+            const isFrequency = progress?.kind === "frequency";
+
+            return (
+              <div key={userGoal.id} className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  {isQuantity ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-0 h-auto text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onLogProgress?.(userGoal.id);
+                      }}
+                      aria-label={`Log progress: ${userGoal.goal.description}`}
+                      data-testid={`button-log-goal-${userGoal.id}`}
+                    >
+                      <i className={`fas fa-plus-circle ${userGoal.completed ? 'text-accent' : 'text-primary'} text-xs`}></i>
+                    </Button>
+                  ) : isFrequency ? (
+                    // Completed by check-ins on the calendar, so there is nothing to toggle here
+                    <i
+                      className={`${userGoal.completed ? 'fas fa-check-circle text-accent' : 'far fa-calendar-check text-muted-foreground'} text-xs`}
+                      title="Completes from daily check-ins"
+                      data-testid={`icon-checkin-goal-${userGoal.id}`}
+                    ></i>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-0 h-auto text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onToggleGoal(userGoal.id);
+                      }}
+                      aria-label={`Mark goal ${userGoal.completed ? 'incomplete' : 'complete'}: ${userGoal.goal.description}`}
+                      aria-pressed={userGoal.completed}
+                      data-testid={`button-toggle-goal-${userGoal.id}`}
+                    >
+                      <i 
+                        className={`${
+                          userGoal.completed 
+                            ? 'fas fa-check-circle text-accent' 
+                            : 'far fa-circle text-border'
+                        } text-xs`}
+                      ></i>
+                    </Button>
+                  )}
+                  <span 
+                    className={`flex-1 ${
+                      userGoal.completed 
+                        ? 'text-muted-foreground line-through' 
+                        : 'text-foreground'
+                    }`}
+                    data-testid={`text-goal-${userGoal.id}`}
+                  >
+                    {userGoal.goal.description}
+                  </span>
+                  {userGoal.streak && userGoal.streak.current > 1 && (
+                    <span
+                      className="text-xs text-orange-600 dark:text-orange-400 whitespace-nowrap"
+                      title={`Completed ${userGoal.streak.current} weeks in a row`}
+                      data-testid={`text-goal-streak-${userGoal.id}`}
+                    >
+                      🔥{userGoal.streak.current}
+                    </span>
+                  )}
+                  {progress && progress.kind !== "completion" && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap" data-testid={`text-goal-progress-${userGoal.id}`}>
+                      {progress.currentValue}/{progress.targetValue}{progress.unit ? ` ${progress.unit}` : ''}
+                    </span>
+                  )}
+                  {onEditNote && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="p-0 h-auto text-xs"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onEditNote(userGoal.id);
+                      }}
+                      aria-label={`${userGoal.note ? 'Edit' : 'Add'} note: ${userGoal.goal.description}`}
+                      data-testid={`button-note-goal-${userGoal.id}`}
+                    >
+                      <i className={`${userGoal.note ? 'fas text-primary' : 'far text-muted-foreground'} fa-sticky-note text-xs`}></i>
+                    </Button>
+                  )}
+                </div>
+                {userGoal.note && (
+                  <p className="ml-5 text-xs italic text-muted-foreground line-clamp-2" data-testid={`text-goal-note-${userGoal.id}`}>
+                    {userGoal.note}
+                  </p>
+                )}
+                {userGoal.subtasks && (
+                  <div className="ml-5">
+                    <SubtaskChecklist
+                      userGoalId={userGoal.id}
+                      subtasks={userGoal.subtasks}
+                      autoComplete={userGoal.autoCompleteFromSubtasks ?? true}
+                      editable={subtasksEditable}
+                    />
+                  </div>
+                )}
+                {progress && (
+                  <Progress
+                    value={progress.percentage}
+                    className="h-1.5 ml-5 w-auto"
+                    aria-label={`${progress.percentage}% complete`}
+                    data-testid={`progress-goal-${userGoal.id}`}
+                  />
+                )}
+              </div>
+            );
+          })}
           
           {goals.length === 0 && (
             <div className="text-center py-4">
@@ -0,0 +1,67 @@
+import type { CSSProperties } from "react";
+import { cn } from "@/lib/utils";
+import { isHexColor, isIconClass, isIconDataUrl } from "@shared/categories";
+import personalIcon from "@assets/personal_1758464140980.png";
+import innerPeaceIcon from "@assets/innerpeace_1758464155112.png";
+import healthIcon from "@assets/health1_1758464133360.png";
+import familyIcon from "@assets/family1_1758464115422.png";
+import careerIcon from "@assets/carrer1_1758464107256.png";
+import funIcon from "@assets/fun1_1758464127001.png";
+
+// Bundled artwork for the default categories, keyed by the filename stored in category.icon
+const DEFAULT_CATEGORY_ICONS: Record<string, string> = {
+  "personal_1758464140980.png": personalIcon,
+  "innerpeace_1758464155112.png": innerPeaceIcon,
+  "health1_1758464133360.png": healthIcon,
+  "family1_1758464115422.png": familyIcon,
+  "carrer1_1758464107256.png": careerIcon,
+  "fun1_1758464127001.png": funIcon,
+};
+
+// Solid colors matching the default category themes, for charts
+const DEFAULT_CATEGORY_CHART_COLORS: Record<string, string> = {
+  personal: "#8B5CF6",
+  peace: "#10B981",
+  health: "#EF4444",
+  family: "#F59E0B",
+  career: "#3B82F6",
+  fun: "#EC4899",
+};
+
+// Default categories use their themed gradient class; custom ones get a gradient from their hex color
+export function getCategoryColorProps(color: string | null | undefined): { className: string; style?: CSSProperties } {
+  if (isHexColor(color)) {
+    return { className: "", style: { background: `linear-gradient(135deg, ${color} 0%, ${color}99 100%)` } };
+  }
+  return { className: `category-${color}` };
+}
+
+export function getCategoryChartColor(color: string | null | undefined): string {
+  if (isHexColor(color)) {
+    return color;
+  }
+  return (color && DEFAULT_CATEGORY_CHART_COLORS[color]) || "#8884d8";
+}
+
+interface CategoryIconProps {
+  category: { name: string; icon?: string | null };
+  className?: string;
+}
+
+// Renders a category's bundled, picked or uploaded icon
+export default function CategoryIcon({ category, className }: CategoryIconProps) {
+  if (isIconClass(category.icon)) {
+    return (
+      <i
+        className={cn("fas flex items-center justify-center text-white", category.icon, className)}
+        role="img"
+        aria-label={`${category.name} icon`}
+      ></i>
+    );
+  }
+
+  const src = isIconDataUrl(category.icon)
+    ? category.icon
+    : DEFAULT_CATEGORY_ICONS[category.icon ?? ""] || personalIcon;
+  return <img src={src} alt={`${category.name} icon`} className={className} />;
+}
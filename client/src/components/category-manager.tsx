@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import CategoryIcon, { getCategoryColorProps } from "@/components/category-icon";
+import {
+  CATEGORY_ICON_CHOICES,
+  DEFAULT_CUSTOM_CATEGORY_COLOR,
+  MAX_CATEGORY_ICON_BYTES,
+  isHexColor,
+} from "@shared/categories";
+
+interface ManagedCategory {
+  id: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  color: string | null;
+  createdBy: string | null;
+  archived: boolean;
+}
+
+interface CategoryFormData {
+  name: string;
+  color: string;
+  icon: string;
+}
+
+interface CategoryManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const EMPTY_FORM: CategoryFormData = {
+  name: "",
+  color: DEFAULT_CUSTOM_CATEGORY_COLOR,
+  icon: CATEGORY_ICON_CHOICES[0],
+};
+
+export default function CategoryManager({ isOpen, onClose }: CategoryManagerProps) {
+  // null while browsing the list, "new" or a category ID while the form is open
+  const [editing, setEditing] = useState<string | null>(null);
+  const [formData, setFormData] = useState<CategoryFormData>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: categories = [], isLoading } = useQuery<ManagedCategory[]>({
+    queryKey: ["/api/categories", { includeArchived: true }],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/categories?includeArchived=true");
+      return response.json();
+    },
+    enabled: isOpen,
+    retry: false,
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Session Expired",
+        description: "Please sign in again to continue.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const data = error instanceof ApiError ? error.data : null;
+    toast({
+      title: "Error",
+      description: data?.errors?.length ? data.errors.join(". ") : data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = () => {
+    // Categories drive goal selection, recommendations, the plan and its progress
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/goals/all"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/goals/recommendations"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/plan-template"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+  };
+
+  const saveCategoryMutation = useMutation({
+    mutationFn: async (data: CategoryFormData) => {
+      const response = editing === "new"
+        ? await apiRequest("POST", "/api/categories", data)
+        : await apiRequest("PATCH", `/api/categories/${editing}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Category Saved",
+        description: editing === "new" ? "Your new category is ready for goals." : "Your category has been updated.",
+      });
+      handleSuccess();
+      setEditing(null);
+    },
+    onError: handleError("Failed to save category"),
+  });
+
+  const archiveCategoryMutation = useMutation({
+    mutationFn: async ({ id, archived }: { id: string; archived: boolean }) => {
+      const response = await apiRequest(archived ? "POST" : "DELETE", `/api/categories/${id}/archive`);
+      return response.json();
+    },
+    onSuccess: handleSuccess,
+    onError: handleError("Failed to update category"),
+  });
+
+  const openForm = (category?: ManagedCategory) => {
+    setFormData(category ? {
+      name: category.name,
+      color: isHexColor(category.color) ? category.color : DEFAULT_CUSTOM_CATEGORY_COLOR,
+      icon: category.icon || CATEGORY_ICON_CHOICES[0],
+    } : EMPTY_FORM);
+    setEditing(category ? category.id : "new");
+  };
+
+  const handleIconUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) {
+      return;
+    }
+    if (file.size > MAX_CATEGORY_ICON_BYTES) {
+      toast({
+        title: "Image Too Large",
+        description: `Icons can be at most ${MAX_CATEGORY_ICON_BYTES / 1024} KB`,
+        variant: "destructive",
+      });
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => setFormData(prev => ({ ...prev, icon: reader.result as string }));
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.name.trim().length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a category name",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveCategoryMutation.mutate({ ...formData, name: formData.name.trim() });
+  };
+
+  const handleClose = () => {
+    setEditing(null);
+    onClose();
+  };
+
+  const previewColor = getCategoryColorProps(formData.color);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {editing === null ? "Manage Categories" : editing === "new" ? "New Category" : "Edit Category"}
+          </DialogTitle>
+        </DialogHeader>
+
+        {editing === null ? (
+          <div className="space-y-4">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <i className="fas fa-spinner fa-spin text-muted-foreground"></i>
+              </div>
+            ) : (
+              <div className="space-y-2" data-testid="list-manage-categories">
+                {categories.map(category => {
+                  const color = getCategoryColorProps(category.color);
+                  return (
+                    <div
+                      key={category.id}
+                      className={`flex items-center justify-between p-2 rounded-lg border ${category.archived ? "opacity-60" : ""}`}
+                      data-testid={`row-category-${category.id}`}
+                    >
+                      <div className="flex items-center">
+                        <div
+                          className={`w-8 h-8 ${color.className} rounded mr-3 flex items-center justify-center`}
+                          style={color.style}
+                        >
+                          <CategoryIcon category={category} className="w-5 h-5 text-sm object-contain" />
+                        </div>
+                        <div>
+                          <div className="text-sm font-medium text-foreground">{category.name}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {category.createdBy ? "Custom" : "Default"}
+                            {category.archived && " · Archived"}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex space-x-1">
+                        {category.createdBy && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => openForm(category)}
+                            data-testid={`button-edit-category-${category.id}`}
+                          >
+                            <i className="fas fa-pen"></i>
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => archiveCategoryMutation.mutate({ id: category.id, archived: !category.archived })}
+                          disabled={archiveCategoryMutation.isPending}
+                          data-testid={`button-archive-category-${category.id}`}
+                        >
+                          {category.archived ? "Restore" : "Archive"}
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={() => openForm()} data-testid="button-new-category">
+                <i className="fas fa-plus mr-2"></i>
+                New Category
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex items-center space-x-3">
+              <div
+                className={`w-12 h-12 ${previewColor.className} rounded-lg flex items-center justify-center`}
+                style={previewColor.style}
+              >
+                <CategoryIcon
+                  category={{ name: formData.name || "New category", icon: formData.icon }}
+                  className="w-8 h-8 text-xl object-contain"
+                />
+              </div>
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="categoryName">Name</Label>
+                <Input
+                  id="categoryName"
+                  value={formData.name}
+                  onChange={(e) => setFormData(prev => ({ ...prev, name: e.target.value }))}
+                  maxLength={50}
+                  disabled={saveCategoryMutation.isPending}
+                  data-testid="input-category-name"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categoryColor">Color</Label>
+              <Input
+                id="categoryColor"
+                type="color"
+                value={formData.color}
+                onChange={(e) => setFormData(prev => ({ ...prev, color: e.target.value }))}
+                className="h-10 w-20 p-1"
+                disabled={saveCategoryMutation.isPending}
+                data-testid="input-category-color"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <div className="grid grid-cols-8 gap-2">
+                {CATEGORY_ICON_CHOICES.map(icon => (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, icon }))}
+                    className={`h-9 rounded border flex items-center justify-center ${
+                      formData.icon === icon ? "border-primary bg-primary/10 text-primary" : "border-border text-muted-foreground"
+                    }`}
+                    disabled={saveCategoryMutation.isPending}
+                    data-testid={`button-category-icon-${icon}`}
+                  >
+                    <i className={`fas ${icon}`}></i>
+                  </button>
+                ))}
+              </div>
+              <Label
+                htmlFor="categoryIconUpload"
+                className="inline-flex items-center text-sm text-primary cursor-pointer"
+              >
+                <i className="fas fa-upload mr-2"></i>
+                Upload an image ({MAX_CATEGORY_ICON_BYTES / 1024} KB max)
+              </Label>
+              <input
+                id="categoryIconUpload"
+                type="file"
+                accept="image/png,image/jpeg,image/gif,image/webp,image/svg+xml"
+                className="hidden"
+                onChange={handleIconUpload}
+                data-testid="input-category-icon-upload"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditing(null)}
+                disabled={saveCategoryMutation.isPending}
+                data-testid="button-cancel-category"
+              >
+                Back
+              </Button>
+              <Button type="submit" disabled={saveCategoryMutation.isPending} data-testid="button-save-category">
+                {saveCategoryMutation.isPending ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin mr-2"></i>
+                    Saving...
+                  </>
+                ) : (
+                  'Save'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
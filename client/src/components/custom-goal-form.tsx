@@ -1,15 +1,30 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DEFAULT_GOAL_DIFFICULTY, DEFAULT_WEEKLY_MINUTES, GOAL_DIFFICULTIES, isGoalDifficulty, type GoalDifficulty } from "@shared/effort";
+
+export interface EditableCustomGoal {
+  id: string;
+  description: string;
+  targetDaysPerWeek: number | null;
+  targetValue: number | null;
+  unit: string | null;
+  aggregation: string | null;
+  difficulty: string;
+  estimatedWeeklyMinutes: number | null;
+}
 
 interface CustomGoalFormProps {
   categoryId: string;
   categoryName: string;
+  goal?: EditableCustomGoal | null; // Edits this goal instead of creating a new one
   isOpen: boolean;
   onClose: () => void;
   onSuccess: () => void;
@@ -18,28 +33,66 @@ interface CustomGoalFormProps {
 export default function CustomGoalForm({ 
   categoryId, 
   categoryName, 
+  goal,
   isOpen, 
   onClose, 
   onSuccess 
 }: CustomGoalFormProps) {
   const [description, setDescription] = useState("");
+  const [targetDaysPerWeek, setTargetDaysPerWeek] = useState("once");
+  const [targetValue, setTargetValue] = useState("");
+  const [unit, setUnit] = useState("");
+  const [aggregation, setAggregation] = useState("sum");
+  const [difficulty, setDifficulty] = useState<GoalDifficulty>(DEFAULT_GOAL_DIFFICULTY);
+  const [estimatedWeeklyMinutes, setEstimatedWeeklyMinutes] = useState("");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  useEffect(() => {
+    if (isOpen && goal) {
+      setDescription(goal.description);
+      setTargetDaysPerWeek(goal.targetDaysPerWeek ? String(goal.targetDaysPerWeek) : "once");
+      setTargetValue(goal.targetValue != null ? String(goal.targetValue) : "");
+      setUnit(goal.unit || "");
+      setAggregation(goal.aggregation || "sum");
+      setDifficulty(isGoalDifficulty(goal.difficulty) ? goal.difficulty : DEFAULT_GOAL_DIFFICULTY);
+      setEstimatedWeeklyMinutes(goal.estimatedWeeklyMinutes != null ? String(goal.estimatedWeeklyMinutes) : "");
+    }
+  }, [isOpen, goal]);
+
   const createGoalMutation = useMutation({
     mutationFn: async (goalDescription: string) => {
-      const response = await apiRequest("POST", `/api/categories/${categoryId}/goals`, {
+      const goalData = {
         description: goalDescription,
-      });
+        targetDaysPerWeek: targetDaysPerWeek === "once" ? null : parseInt(targetDaysPerWeek, 10),
+        targetValue: targetValue ? parseFloat(targetValue) : null,
+        unit: targetValue ? unit.trim() || null : null,
+        aggregation,
+        difficulty,
+        estimatedWeeklyMinutes: estimatedWeeklyMinutes ? parseInt(estimatedWeeklyMinutes, 10) : null,
+      };
+      const response = goal
+        ? await apiRequest("PATCH", `/api/goals/${goal.id}`, goalData)
+        : await apiRequest("POST", `/api/categories/${categoryId}/goals`, goalData);
       return response.json();
     },
     onSuccess: () => {
       toast({
         title: "Success",
-        description: "Custom goal created successfully!",
+        description: goal ? "Custom goal updated successfully!" : "Custom goal created successfully!",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/goals/all"] });
-      setDescription("");
+      queryClient.invalidateQueries({ queryKey: ["/api/goals/recommendations"] });
+      if (goal) {
+        // Edits show up wherever the goal is already planned, and can change what it earned
+        queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+      } else {
+        queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      }
+      resetForm();
       onSuccess();
       onClose();
     },
@@ -57,12 +110,22 @@ export default function CustomGoalForm({
       }
       toast({
         title: "Error",
-        description: "Failed to create custom goal",
+        description: goal ? "Failed to update custom goal" : "Failed to create custom goal",
         variant: "destructive",
       });
     },
   });
 
+  const resetForm = () => {
+    setDescription("");
+    setTargetDaysPerWeek("once");
+    setTargetValue("");
+    setUnit("");
+    setAggregation("sum");
+    setDifficulty(DEFAULT_GOAL_DIFFICULTY);
+    setEstimatedWeeklyMinutes("");
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (description.trim().length === 0) {
@@ -81,11 +144,27 @@ export default function CustomGoalForm({
       });
       return;
     }
+    if (targetValue && !(parseFloat(targetValue) > 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Target amount must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (estimatedWeeklyMinutes && !(parseInt(estimatedWeeklyMinutes, 10) >= 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Estimated minutes per week can't be negative",
+        variant: "destructive",
+      });
+      return;
+    }
     createGoalMutation.mutate(description.trim());
   };
 
   const handleClose = () => {
-    setDescription("");
+    resetForm();
     onClose();
   };
 
@@ -93,7 +172,9 @@ export default function CustomGoalForm({
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Create Custom Goal for {categoryName}</DialogTitle>
+          <DialogTitle>
+            {goal ? `Edit Custom Goal in ${categoryName}` : `Create Custom Goal for ${categoryName}`}
+          </DialogTitle>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -110,6 +191,102 @@ export default function CustomGoalForm({
               {description.length}/200 characters
             </div>
           </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="targetDaysPerWeek">How often?</Label>
+            <Select
+              value={targetDaysPerWeek}
+              onValueChange={setTargetDaysPerWeek}
+              disabled={createGoalMutation.isPending}
+            >
+              <SelectTrigger id="targetDaysPerWeek" data-testid="select-custom-goal-frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="once">Once this week</SelectItem>
+                {[1, 2, 3, 4, 5, 6, 7].map(days => (
+                  <SelectItem key={days} value={String(days)}>
+                    {days} {days === 1 ? "day" : "days"} a week
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="targetValue">Target amount (optional)</Label>
+            <div className="grid grid-cols-3 gap-2">
+              <Input
+                id="targetValue"
+                type="number"
+                min={0}
+                step="any"
+                placeholder="e.g. 8"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                disabled={createGoalMutation.isPending}
+                data-testid="input-custom-goal-target"
+              />
+              <Input
+                placeholder="Unit, e.g. glasses"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value)}
+                maxLength={50}
+                disabled={createGoalMutation.isPending || !targetValue}
+                data-testid="input-custom-goal-unit"
+              />
+              <Select
+                value={aggregation}
+                onValueChange={setAggregation}
+                disabled={createGoalMutation.isPending || !targetValue}
+              >
+                <SelectTrigger data-testid="select-custom-goal-aggregation">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sum">Add up entries</SelectItem>
+                  <SelectItem value="max">Best single entry</SelectItem>
+                  <SelectItem value="count">Number of entries</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="difficulty">Difficulty</Label>
+              <Select
+                value={difficulty}
+                onValueChange={(value) => setDifficulty(value as GoalDifficulty)}
+                disabled={createGoalMutation.isPending}
+              >
+                <SelectTrigger id="difficulty" data-testid="select-custom-goal-difficulty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GOAL_DIFFICULTIES.map(level => (
+                    <SelectItem key={level} value={level} className="capitalize">
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="estimatedWeeklyMinutes">Minutes per week</Label>
+              <Input
+                id="estimatedWeeklyMinutes"
+                type="number"
+                min={0}
+                step={5}
+                placeholder={`About ${DEFAULT_WEEKLY_MINUTES[difficulty]}`}
+                value={estimatedWeeklyMinutes}
+                onChange={(e) => setEstimatedWeeklyMinutes(e.target.value)}
+                disabled={createGoalMutation.isPending}
+                data-testid="input-custom-goal-minutes"
+              />
+            </div>
+          </div>
           
           <div className="flex justify-end space-x-2">
             <Button 
@@ -129,10 +306,10 @@ export default function CustomGoalForm({
               {createGoalMutation.isPending ? (
                 <>
                   <i className="fas fa-spinner fa-spin mr-2"></i>
-                  Creating...
+                  {goal ? 'Saving...' : 'Creating...'}
                 </>
               ) : (
-                'Create Goal'
+                goal ? 'Save Changes' : 'Create Goal'
               )}
             </Button>
           </div>
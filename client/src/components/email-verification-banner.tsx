@@ -0,0 +1,51 @@
+import { useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+
+interface EmailVerificationBannerProps {
+  email: string | null;
+}
+
+export default function EmailVerificationBanner({ email }: EmailVerificationBannerProps) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/resend-verification");
+    },
+    onSuccess: () => {
+      toast({
+        title: "Verification Email Sent",
+        description: "Check your inbox for a new link. Earlier links no longer work.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: (error instanceof ApiError && error.data?.message) || "Failed to send verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="border-t border-border bg-amber-50 dark:bg-amber-900/20" data-testid="banner-email-verification">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-sm">
+        <span className="text-amber-800 dark:text-amber-200">
+          <i className="fas fa-envelope mr-2"></i>
+          Please verify your email address{email ? ` (${email})` : ""} using the link we sent you.
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+          data-testid="button-resend-verification"
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend Email"}
+        </Button>
+      </div>
+    </div>
+  );
+}
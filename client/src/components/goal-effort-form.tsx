@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { GOAL_DIFFICULTIES, type GoalDifficulty, type GoalEffort } from "@shared/effort";
+
+interface GoalEffortFormProps {
+  goal: { id: string; description: string; effort: GoalEffort } | null;
+  onClose: () => void;
+}
+
+export default function GoalEffortForm({ goal, onClose }: GoalEffortFormProps) {
+  const [difficulty, setDifficulty] = useState<GoalDifficulty>("medium");
+  const [estimatedWeeklyMinutes, setEstimatedWeeklyMinutes] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (goal) {
+      setDifficulty(goal.effort.difficulty);
+      setEstimatedWeeklyMinutes(String(goal.effort.estimatedWeeklyMinutes));
+    }
+  }, [goal]);
+
+  const handleError = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Session Expired",
+        description: "Please sign in again to continue.",
+        variant: "destructive",
+      });
+      return;
+    }
+    toast({
+      title: "Error",
+      description: "Failed to update goal estimate",
+      variant: "destructive",
+    });
+  };
+
+  const handleSuccess = () => {
+    // Estimates feed the goal lists and recommendations
+    queryClient.invalidateQueries({ queryKey: ["/api/goals/all"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/goals/recommendations"] });
+    onClose();
+  };
+
+  const saveEstimateMutation = useMutation({
+    mutationFn: async (data: { difficulty: GoalDifficulty; estimatedWeeklyMinutes: number }) => {
+      const response = await apiRequest("PUT", `/api/goals/${goal!.id}/estimate`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Estimate Saved",
+        description: "Your estimate will be used for this goal from now on.",
+      });
+      handleSuccess();
+    },
+    onError: handleError,
+  });
+
+  const resetEstimateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", `/api/goals/${goal!.id}/estimate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Estimate Reset",
+        description: "This goal is back to its default estimate.",
+      });
+      handleSuccess();
+    },
+    onError: handleError,
+  });
+
+  const isPending = saveEstimateMutation.isPending || resetEstimateMutation.isPending;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minutes = parseInt(estimatedWeeklyMinutes, 10);
+    if (!(minutes >= 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter how many minutes a week this goal takes",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveEstimateMutation.mutate({ difficulty, estimatedWeeklyMinutes: minutes });
+  };
+
+  return (
+    <Dialog open={!!goal} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust Effort</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">{goal?.description}</p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="effortDifficulty">Difficulty</Label>
+              <Select
+                value={difficulty}
+                onValueChange={(value) => setDifficulty(value as GoalDifficulty)}
+                disabled={isPending}
+              >
+                <SelectTrigger id="effortDifficulty" data-testid="select-effort-difficulty">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {GOAL_DIFFICULTIES.map(level => (
+                    <SelectItem key={level} value={level} className="capitalize">
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="effortMinutes">Minutes per week</Label>
+              <Input
+                id="effortMinutes"
+                type="number"
+                min={0}
+                step={5}
+                value={estimatedWeeklyMinutes}
+                onChange={(e) => setEstimatedWeeklyMinutes(e.target.value)}
+                disabled={isPending}
+                data-testid="input-effort-minutes"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-between">
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={() => resetEstimateMutation.mutate()}
+              disabled={isPending || !goal?.effort.isOverridden}
+              data-testid="button-reset-effort"
+            >
+              Reset to Default
+            </Button>
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={onClose}
+                disabled={isPending}
+                data-testid="button-cancel-effort"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isPending} data-testid="button-save-effort">
+                {saveEstimateMutation.isPending ? (
+                  <>
+                    <i className="fas fa-spinner fa-spin mr-2"></i>
+                    Saving...
+                  </>
+                ) : (
+                  'Save'
+                )}
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface GoalNoteFormProps {
+  userGoalId: string;
+  goalDescription: string;
+  note: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function GoalNoteForm({ userGoalId, goalDescription, note, isOpen, onClose }: GoalNoteFormProps) {
+  const [text, setText] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isOpen) {
+      setText(note ?? "");
+    }
+  }, [isOpen, note]);
+
+  const saveNoteMutation = useMutation({
+    mutationFn: async (value: string | null) => {
+      const response = await apiRequest("PUT", `/api/user-goals/${userGoalId}/note`, { note: value });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save note",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveNoteMutation.mutate(text.trim() || null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Goal Note</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-muted-foreground">{goalDescription}</p>
+          <div>
+            <Textarea
+              placeholder="Why did this goal go well or badly this week?"
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              maxLength={1000}
+              rows={4}
+              disabled={saveNoteMutation.isPending}
+              data-testid="input-goal-note"
+            />
+            <div className="text-xs text-muted-foreground mt-1">
+              {text.length}/1000 characters
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={saveNoteMutation.isPending}
+              data-testid="button-cancel-goal-note"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveNoteMutation.isPending} data-testid="button-save-goal-note">
+              {saveNoteMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                'Save Note'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,18 @@
 import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { format, startOfWeek, addDays, isSameDay } from "date-fns";
-import personalIcon from "@assets/personal_1758464140980.png";
-import innerPeaceIcon from "@assets/innerpeace_1758464155112.png";
-import healthIcon from "@assets/health1_1758464133360.png";
-import familyIcon from "@assets/family1_1758464115422.png";
-import careerIcon from "@assets/carrer1_1758464107256.png";
-import funIcon from "@assets/fun1_1758464127001.png";
+import { format } from "date-fns";
+import { getWeekDates, getZonedDateString, toCalendarDate } from "@shared/week";
+import { isScheduleOverdue } from "@shared/schedule";
+import CategoryIcon, { getCategoryColorProps } from "@/components/category-icon";
+import SubtaskChecklist, { type GoalSubtask } from "@/components/subtask-checklist";
+
+interface GoalCheckin {
+  id: string;
+  userGoalId: string;
+  date: string;
+  value: number;
+  note: string | null;
+}
 
 interface UserGoal {
   id: string;
@@ -16,10 +22,17 @@ interface UserGoal {
   completed: boolean;
   completedAt: string | null;
   createdAt: string;
+  autoCompleteFromSubtasks: boolean;
+  scheduledDate: string | null;
+  scheduledTime: string | null;
+  checkins: GoalCheckin[];
+  subtasks: GoalSubtask[];
   goal: {
     id: string;
     categoryId: string;
     description: string;
+    targetDaysPerWeek: number | null;
+    targetValue: number | null;
     createdAt: string;
     category: {
       id: string;
@@ -34,7 +47,12 @@ interface UserGoal {
 
 interface GraphicsCalendarProps {
   userGoals: UserGoal[];
+  weekStart: string;
+  timezone: string;
   onToggleGoal: (userGoalId: string) => void;
+  onToggleCheckin: (userGoalId: string, date: string, checkinId?: string) => void;
+  onScheduleGoal: (userGoalId: string, date: string | null, time: string | null) => void;
+  editable: boolean;
 }
 
 interface RealTimeClockProps {
@@ -64,34 +82,45 @@ function RealTimeClock({ className = "" }: RealTimeClockProps) {
   );
 }
 
-export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCalendarProps) {
-  const [currentWeek] = useState(() => {
-    const now = new Date();
-    return startOfWeek(now, { weekStartsOn: 1 }); // Start week on Monday
-  });
-
-  const getCategoryIcon = (categoryName: string) => {
-    const iconMap: Record<string, string> = {
-      'Personal': personalIcon,
-      'Inner Peace': innerPeaceIcon,
-      'Health': healthIcon,
-      'Family': familyIcon,
-      'Career': careerIcon,
-      'Fun': funIcon,
-    };
-    return iconMap[categoryName] || personalIcon;
+export default function GraphicsCalendar({ userGoals, weekStart, timezone, onToggleGoal, onToggleCheckin, onScheduleGoal, editable }: GraphicsCalendarProps) {
+  // Days are YYYY-MM-DD keys in the user's timezone, not the browser's
+  const weekDays = getWeekDates(weekStart);
+
+  const todayKey = getZonedDateString(new Date(), timezone);
+  const today = toCalendarDate(todayKey);
+  // Daily check-ins only make sense while browsing the week that contains today
+  const isCurrentWeek = weekDays.includes(todayKey);
+
+  // Check-ins logged on the day, plus one-off goals completed that day
+  const getGoalsForDay = (dayKey: string) => {
+    return userGoals.filter(userGoal =>
+      userGoal.goal.targetDaysPerWeek
+        ? userGoal.checkins.some(checkin => checkin.date === dayKey)
+        : userGoal.completed && userGoal.completedAt && getZonedDateString(new Date(userGoal.completedAt), timezone) === dayKey
+    );
   };
 
-  const weekDays = Array.from({ length: 7 }, (_, i) => {
-    const day = addDays(currentWeek, i);
-    return day;
-  });
+  // Goals planned for the day, earliest first; untimed goals go last
+  const getScheduledGoalsForDay = (dayKey: string) => {
+    return userGoals
+      .filter(userGoal => userGoal.scheduledDate === dayKey)
+      .sort((a, b) => (a.scheduledTime ?? "24:00").localeCompare(b.scheduledTime ?? "24:00"));
+  };
 
-  const today = new Date();
+  // Goals are dragged from the list below onto a day; dropping keeps any planned time
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null);
 
-  const getGoalsForDay = (day: Date) => {
-    // For now, show all goals each day - in a real app you might filter by day
-    return userGoals;
+  const handleDropOnDay = (e: React.DragEvent, dayKey: string) => {
+    e.preventDefault();
+    setDragOverDay(null);
+    const userGoal = userGoals.find(goal => goal.id === e.dataTransfer.getData("text/plain"));
+    if (userGoal && userGoal.scheduledDate !== dayKey) {
+      onScheduleGoal(userGoal.id, dayKey, userGoal.scheduledTime);
+    }
+  };
+
+  const getTodayCheckin = (userGoal: UserGoal) => {
+    return userGoal.checkins.find(checkin => checkin.date === todayKey);
   };
 
   const getCompletedGoalsCount = () => {
@@ -112,7 +141,7 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
           <RealTimeClock className="ml-4" />
         </div>
         <div className="text-sm text-muted-foreground">
-          Week of {format(currentWeek, "MMM do")} - {format(addDays(currentWeek, 6), "MMM do, yyyy")}
+          Week of {format(toCalendarDate(weekDays[0]), "MMM do")} - {format(toCalendarDate(weekDays[6]), "MMM do, yyyy")}
         </div>
         <div className="text-sm font-medium text-accent">
           Progress: {getCompletedGoalsCount()}/{getTotalGoalsCount()} goals completed this week
@@ -120,10 +149,11 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
       </CardHeader>
       <CardContent>
         <div className="grid grid-cols-7 gap-2 mb-4">
-          {weekDays.map((day, index) => {
-            const isToday = isSameDay(day, today);
-            const dayGoals = getGoalsForDay(day);
-            const completedCount = dayGoals.filter(goal => goal.completed).length;
+          {weekDays.map((dayKey, index) => {
+            const day = toCalendarDate(dayKey);
+            const isToday = dayKey === todayKey;
+            const dayGoals = getGoalsForDay(dayKey);
+            const scheduledGoals = getScheduledGoalsForDay(dayKey);
             
             return (
               <div
@@ -132,7 +162,13 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
                   isToday 
                     ? 'bg-accent text-accent-foreground border-accent shadow-lg' 
                     : 'bg-card text-card-foreground border-border hover:bg-muted'
-                }`}
+                } ${dragOverDay === dayKey ? 'ring-2 ring-primary' : ''}`}
+                onDragOver={editable ? (e) => {
+                  e.preventDefault();
+                  setDragOverDay(dayKey);
+                } : undefined}
+                onDragLeave={editable ? () => setDragOverDay(null) : undefined}
+                onDrop={editable ? (e) => handleDropOnDay(e, dayKey) : undefined}
                 data-testid={`calendar-day-${index}`}
               >
                 <div className="font-semibold text-sm mb-1">
@@ -141,15 +177,43 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
                 <div className={`text-lg font-bold mb-2 ${isToday ? 'text-accent-foreground' : 'text-foreground'}`}>
                   {format(day, "d")}
                 </div>
-                <div className="text-xs">
-                  <div className={`w-2 h-2 rounded-full mx-auto ${
-                    completedCount === dayGoals.length && dayGoals.length > 0
-                      ? 'success-gradient shadow-lg' 
-                      : completedCount > 0 
-                        ? 'bg-gradient-to-r from-amber-400 to-yellow-500 shadow-md'
-                        : 'bg-gray-300'
-                  }`} title={`${completedCount}/${dayGoals.length} goals completed`}></div>
+                <div
+                  className="flex flex-wrap justify-center gap-1 min-h-[8px]"
+                  title={dayGoals.length > 0
+                    ? dayGoals.map(userGoal => userGoal.goal.description).join("\n")
+                    : "No check-ins"}
+                  data-testid={`calendar-day-checkins-${index}`}
+                >
+                  {dayGoals.length > 0 ? (
+                    dayGoals.map(userGoal => (
+                      <div
+                        key={userGoal.id}
+                        className={`w-2 h-2 rounded-full ${getCategoryColorProps(userGoal.goal.category.color).className} shadow-md`}
+                        style={getCategoryColorProps(userGoal.goal.category.color).style}
+                      ></div>
+                    ))
+                  ) : (
+                    <div className="w-2 h-2 rounded-full bg-gray-300"></div>
+                  )}
                 </div>
+                {scheduledGoals.length > 0 && (
+                  <div className="mt-2 space-y-1 text-left" data-testid={`calendar-day-scheduled-${index}`}>
+                    {scheduledGoals.map(userGoal => (
+                      <div
+                        key={userGoal.id}
+                        className={`text-[10px] leading-tight truncate ${
+                          userGoal.completed
+                            ? 'line-through opacity-60'
+                            : isScheduleOverdue(userGoal, timezone) ? 'text-destructive font-medium' : ''
+                        }`}
+                        title={userGoal.goal.description}
+                      >
+                        {userGoal.scheduledTime && <span className="font-semibold">{userGoal.scheduledTime} </span>}
+                        {userGoal.goal.description}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })}
@@ -158,10 +222,15 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
         {/* Today's Goals Section */}
         <div className="mt-6">
           <h3 className="text-lg font-semibold text-foreground mb-3 flex items-center">
-            🎯 Today's Goals ({format(today, "EEEE")})
+            {isCurrentWeek ? `🎯 Today's Goals (${format(today, "EEEE")})` : "🎯 This Week's Goals"}
           </h3>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-            {userGoals.map((userGoal) => (
+            {userGoals.map((userGoal) => {
+              const todayCheckin = getTodayCheckin(userGoal);
+              const targetDays = userGoal.goal.targetDaysPerWeek;
+              const isOverdue = isScheduleOverdue(userGoal, timezone);
+
+              return (
               <div
                 key={userGoal.id}
                 className={`p-3 rounded-lg border transition-all duration-300 ${
@@ -169,15 +238,19 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
                     ? 'bg-gradient-to-r from-emerald-50 to-teal-50 dark:from-emerald-900/20 dark:to-teal-900/20 border-emerald-200 dark:border-emerald-700 shadow-md' 
                     : 'bg-card border-border hover:bg-gradient-to-r hover:from-violet-50 hover:to-purple-50 dark:hover:from-violet-900/20 dark:hover:to-purple-900/20 hover:border-violet-200 dark:hover:border-violet-700 hover:shadow-lg'
                 }`}
+                draggable={editable}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData("text/plain", userGoal.id);
+                  e.dataTransfer.effectAllowed = "move";
+                }}
                 data-testid={`goal-card-${userGoal.id}`}
               >
                 <div className="flex items-center space-x-3">
-                  <div className={`w-8 h-8 category-${userGoal.goal.category.color} rounded-full flex items-center justify-center`}>
-                    <img 
-                      src={getCategoryIcon(userGoal.goal.category.name)} 
-                      alt={`${userGoal.goal.category.name} icon`}
-                      className="w-5 h-5 object-contain"
-                    />
+                  <div
+                    className={`w-8 h-8 ${getCategoryColorProps(userGoal.goal.category.color).className} rounded-full flex items-center justify-center`}
+                    style={getCategoryColorProps(userGoal.goal.category.color).style}
+                  >
+                    <CategoryIcon category={userGoal.goal.category} className="w-5 h-5 text-sm object-contain" />
                   </div>
                   <div className="flex-1">
                     <div className="text-xs font-medium text-muted-foreground mb-1">
@@ -191,17 +264,81 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
                       {userGoal.goal.description}
                     </div>
                   </div>
-                  <button
-                    onClick={() => onToggleGoal(userGoal.id)}
-                    className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${
-                      userGoal.completed
-                        ? 'success-gradient border-emerald-400 text-white shadow-lg'
-                        : 'border-gray-300 hover:border-violet-400 hover:bg-violet-50 dark:hover:bg-violet-900/20'
-                    }`}
-                    data-testid={`button-toggle-goal-${userGoal.id}`}
-                  >
-                    {userGoal.completed && <span className="text-xs">✓</span>}
-                  </button>
+                  {targetDays ? (
+                    isCurrentWeek && (
+                      <button
+                        onClick={() => onToggleCheckin(userGoal.id, todayKey, todayCheckin?.id)}
+                        className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${
+                          todayCheckin
+                            ? 'success-gradient border-emerald-400 text-white shadow-lg'
+                            : 'border-gray-300 hover:border-violet-400 hover:bg-violet-50 dark:hover:bg-violet-900/20'
+                        }`}
+                        aria-label={`${todayCheckin ? 'Remove' : 'Add'} today's check-in: ${userGoal.goal.description}`}
+                        data-testid={`button-checkin-goal-${userGoal.id}`}
+                      >
+                        {todayCheckin && <span className="text-xs">✓</span>}
+                      </button>
+                    )
+                  ) : userGoal.goal.targetValue == null && (
+                    <button
+                      onClick={() => onToggleGoal(userGoal.id)}
+                      className={`w-6 h-6 rounded-full border-2 flex items-center justify-center transition-all ${
+                        userGoal.completed
+                          ? 'success-gradient border-emerald-400 text-white shadow-lg'
+                          : 'border-gray-300 hover:border-violet-400 hover:bg-violet-50 dark:hover:bg-violet-900/20'
+                      }`}
+                      data-testid={`button-toggle-goal-${userGoal.id}`}
+                    >
+                      {userGoal.completed && <span className="text-xs">✓</span>}
+                    </button>
+                  )}
+                </div>
+                {targetDays && (
+                  <div className="text-xs text-muted-foreground mt-2" data-testid={`text-checkin-progress-${userGoal.id}`}>
+                    {userGoal.checkins.length}/{targetDays} days checked in this week
+                  </div>
+                )}
+                {(editable || userGoal.scheduledDate) && (
+                  <div className="flex items-center gap-2 mt-2 text-xs" data-testid={`schedule-goal-${userGoal.id}`}>
+                    <i className={`fas fa-thumbtack ${isOverdue ? 'text-destructive' : 'text-muted-foreground'}`}></i>
+                    <select
+                      value={userGoal.scheduledDate ?? ""}
+                      onChange={(e) => onScheduleGoal(userGoal.id, e.target.value || null, userGoal.scheduledTime)}
+                      disabled={!editable}
+                      className="bg-transparent border rounded px-1 py-0.5"
+                      aria-label={`Planned day: ${userGoal.goal.description}`}
+                      data-testid={`select-schedule-day-${userGoal.id}`}
+                    >
+                      <option value="">Any day</option>
+                      {weekDays.map(dayKey => (
+                        <option key={dayKey} value={dayKey}>{format(toCalendarDate(dayKey), "EEE d")}</option>
+                      ))}
+                    </select>
+                    {userGoal.scheduledDate && (
+                      <input
+                        type="time"
+                        value={userGoal.scheduledTime ?? ""}
+                        onChange={(e) => onScheduleGoal(userGoal.id, userGoal.scheduledDate, e.target.value || null)}
+                        disabled={!editable}
+                        className="bg-transparent border rounded px-1 py-0.5"
+                        aria-label={`Planned time: ${userGoal.goal.description}`}
+                        data-testid={`input-schedule-time-${userGoal.id}`}
+                      />
+                    )}
+                    {isOverdue && (
+                      <span className="text-destructive font-medium" data-testid={`text-goal-overdue-${userGoal.id}`}>
+                        Overdue
+                      </span>
+                    )}
+                  </div>
+                )}
+                <div className="mt-2">
+                  <SubtaskChecklist
+                    userGoalId={userGoal.id}
+                    subtasks={userGoal.subtasks}
+                    autoComplete={userGoal.autoCompleteFromSubtasks}
+                    editable={editable}
+                  />
                 </div>
                 {userGoal.completed && userGoal.completedAt && (
                   <div className="text-xs text-emerald-600 dark:text-emerald-400 mt-2 font-medium">
@@ -209,7 +346,8 @@ export default function GraphicsCalendar({ userGoals, onToggleGoal }: GraphicsCa
                   </div>
                 )}
               </div>
-            ))}
+              );
+            })}
           </div>
           
           {userGoals.length === 0 && (
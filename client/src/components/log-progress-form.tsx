@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+interface LogProgressFormProps {
+  userGoalId: string;
+  goalDescription: string;
+  unit: string | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function LogProgressForm({
+  userGoalId,
+  goalDescription,
+  unit,
+  isOpen,
+  onClose,
+}: LogProgressFormProps) {
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const logProgressMutation = useMutation({
+    mutationFn: async (data: { value: number; note?: string }) => {
+      const response = await apiRequest("POST", `/api/user-goals/${userGoalId}/logs`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Progress Logged",
+        description: "Nice work, keep it going!",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+      handleClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Session Expired",
+          description: "Please sign in again to continue.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to log progress",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter an amount greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+    logProgressMutation.mutate({ value, note: note.trim() || undefined });
+  };
+
+  const handleClose = () => {
+    setAmount("");
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Log Progress: {goalDescription}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              placeholder="Amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={logProgressMutation.isPending}
+              data-testid="input-log-amount"
+            />
+            {unit && <span className="text-sm text-muted-foreground">{unit}</span>}
+          </div>
+          <Input
+            placeholder="Add a note (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            disabled={logProgressMutation.isPending}
+            data-testid="input-log-note"
+          />
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handleClose}
+              disabled={logProgressMutation.isPending}
+              data-testid="button-cancel-log-progress"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={logProgressMutation.isPending || amount.length === 0}
+              data-testid="button-save-log-progress"
+            >
+              {logProgressMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                'Log Progress'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { PlanTemplate } from "@shared/plan";
+
+interface PlanTemplateFormProps {
+  template: PlanTemplate;
+  categories: { id: string; name: string }[];
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function PlanTemplateForm({
+  template,
+  categories,
+  isOpen,
+  onClose,
+}: PlanTemplateFormProps) {
+  const [formData, setFormData] = useState(template);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (isOpen) {
+      setFormData(template);
+    }
+  }, [isOpen, template]);
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (data: PlanTemplate) => {
+      const response = await apiRequest("PUT", "/api/user/plan-template", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Your weekly plan has been updated!",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/plan-template"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update your weekly plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeIds = formData.activeCategoryIds ?? categories.map(category => category.id);
+
+  const handleCategoryToggle = (categoryId: string, checked: boolean) => {
+    const nextIds = checked
+      ? [...activeIds, categoryId]
+      : activeIds.filter(id => id !== categoryId);
+    setFormData(prev => ({
+      ...prev,
+      // Store null when everything is active so new categories are picked up automatically
+      activeCategoryIds: nextIds.length === categories.length ? null : nextIds,
+    }));
+  };
+
+  const handleNumberChange = (field: "goalsPerCategory" | "minGoalsPerCategory" | "maxGoalsPerCategory", value: string) => {
+    setFormData(prev => ({ ...prev, [field]: parseInt(value, 10) || 0 }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (activeIds.length === 0) {
+      toast({
+        title: "Validation Error",
+        description: "Keep at least one category active",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.minGoalsPerCategory > formData.maxGoalsPerCategory) {
+      toast({
+        title: "Validation Error",
+        description: "Minimum goals per category cannot exceed the maximum",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (formData.goalsPerCategory > formData.maxGoalsPerCategory) {
+      toast({
+        title: "Validation Error",
+        description: "Goals needed to complete a category cannot exceed the maximum goals per category",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveTemplateMutation.mutate(formData);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Weekly Plan Settings</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="minGoalsPerCategory">Min per category</Label>
+              <Input
+                id="minGoalsPerCategory"
+                type="number"
+                min={0}
+                max={10}
+                value={formData.minGoalsPerCategory}
+                onChange={(e) => handleNumberChange("minGoalsPerCategory", e.target.value)}
+                data-testid="input-min-goals-per-category"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="maxGoalsPerCategory">Max per category</Label>
+              <Input
+                id="maxGoalsPerCategory"
+                type="number"
+                min={1}
+                max={10}
+                value={formData.maxGoalsPerCategory}
+                onChange={(e) => handleNumberChange("maxGoalsPerCategory", e.target.value)}
+                data-testid="input-max-goals-per-category"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="goalsPerCategory">To complete</Label>
+              <Input
+                id="goalsPerCategory"
+                type="number"
+                min={1}
+                max={10}
+                value={formData.goalsPerCategory}
+                onChange={(e) => handleNumberChange("goalsPerCategory", e.target.value)}
+                data-testid="input-goals-per-category"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A category counts as completed once {formData.goalsPerCategory} of its goals are done.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Active categories</Label>
+            {categories.map(category => (
+              <div key={category.id} className="flex items-center justify-between">
+                <span className="text-sm text-foreground">{category.name}</span>
+                <Switch
+                  checked={activeIds.includes(category.id)}
+                  onCheckedChange={(checked) => handleCategoryToggle(category.id, checked)}
+                  data-testid={`switch-active-category-${category.id}`}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label>New weeks</Label>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-foreground">Carry over last week's goals automatically</span>
+              <Switch
+                checked={formData.autoRollover}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, autoRollover: checked }))}
+                data-testid="switch-auto-rollover"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-foreground">Only carry over unfinished goals</span>
+              <Switch
+                checked={formData.rolloverIncompleteOnly}
+                disabled={!formData.autoRollover}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, rolloverIncompleteOnly: checked }))}
+                data-testid="switch-rollover-incomplete-only"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={saveTemplateMutation.isPending}
+              data-testid="button-cancel-plan-template"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveTemplateMutation.isPending}
+              data-testid="button-save-plan-template"
+            >
+              {saveTemplateMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                'Save Plan'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+
+export interface GoalSubtask {
+  id: string;
+  title: string;
+  position: number;
+  completed: boolean;
+}
+
+interface SubtaskChecklistProps {
+  userGoalId: string;
+  subtasks: GoalSubtask[];
+  autoComplete: boolean;
+  editable: boolean;
+}
+
+// Expandable checklist of the steps inside a goal. It sits inside clickable cards,
+// so clicks and key presses are kept from reaching them.
+export default function SubtaskChecklist({ userGoalId, subtasks, autoComplete, editable }: SubtaskChecklistProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [newTitle, setNewTitle] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Session Expired",
+        description: "Please sign in again to continue.",
+        variant: "destructive",
+      });
+      return;
+    }
+    const data = error instanceof ApiError ? error.data : null;
+    toast({
+      title: "Error",
+      description: data?.errors?.length ? data.errors.join(". ") : data?.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  // Finishing or reopening a sub-task can complete or reopen the goal itself
+  const handleSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+  };
+
+  const addSubtaskMutation = useMutation({
+    mutationFn: async (title: string) => {
+      const response = await apiRequest("POST", `/api/user-goals/${userGoalId}/subtasks`, { title });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNewTitle("");
+      handleSuccess();
+    },
+    onError: handleError("Failed to add sub-task"),
+  });
+
+  const updateSubtaskMutation = useMutation({
+    mutationFn: async ({ id, ...changes }: { id: string; title?: string; completed?: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/user-goals/${userGoalId}/subtasks/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      handleSuccess();
+    },
+    onError: handleError("Failed to update sub-task"),
+  });
+
+  const removeSubtaskMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("DELETE", `/api/user-goals/${userGoalId}/subtasks/${id}`);
+      return response.json();
+    },
+    onSuccess: handleSuccess,
+    onError: handleError("Failed to remove sub-task"),
+  });
+
+  const reorderSubtasksMutation = useMutation({
+    mutationFn: async (subtaskIds: string[]) => {
+      const response = await apiRequest("PUT", `/api/user-goals/${userGoalId}/subtasks/order`, { subtaskIds });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+    },
+    onError: handleError("Failed to reorder sub-tasks"),
+  });
+
+  const autoCompleteMutation = useMutation({
+    mutationFn: async (autoCompleteFromSubtasks: boolean) => {
+      const response = await apiRequest("PUT", `/api/user-goals/${userGoalId}/subtask-settings`, { autoCompleteFromSubtasks });
+      return response.json();
+    },
+    onSuccess: handleSuccess,
+    onError: handleError("Failed to update checklist settings"),
+  });
+
+  const isPending = addSubtaskMutation.isPending
+    || updateSubtaskMutation.isPending
+    || removeSubtaskMutation.isPending
+    || reorderSubtasksMutation.isPending
+    || autoCompleteMutation.isPending;
+
+  if (subtasks.length === 0 && !editable) {
+    return null;
+  }
+
+  const completedCount = subtasks.filter(subtask => subtask.completed).length;
+
+  const moveSubtask = (index: number, offset: number) => {
+    const subtaskIds = subtasks.map(subtask => subtask.id);
+    const [moved] = subtaskIds.splice(index, 1);
+    subtaskIds.splice(index + offset, 0, moved);
+    reorderSubtasksMutation.mutate(subtaskIds);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newTitle.trim().length === 0) return;
+    addSubtaskMutation.mutate(newTitle.trim());
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingId || editingTitle.trim().length === 0) return;
+    updateSubtaskMutation.mutate({ id: editingId, title: editingTitle.trim() });
+  };
+
+  return (
+    <div
+      className="text-xs"
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => e.stopPropagation()}
+      data-testid={`checklist-${userGoalId}`}
+    >
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-muted-foreground hover:text-foreground"
+        aria-expanded={expanded}
+        data-testid={`button-toggle-checklist-${userGoalId}`}
+      >
+        <i className={`fas fa-chevron-${expanded ? "down" : "right"} w-3 mr-1`}></i>
+        {subtasks.length > 0 ? `Checklist ${completedCount}/${subtasks.length}` : "Add checklist"}
+      </button>
+
+      {expanded && (
+        <div className="mt-2 space-y-1">
+          {subtasks.map((subtask, index) => (
+            <div key={subtask.id} className="flex items-center space-x-2 group/subtask">
+              <Checkbox
+                checked={subtask.completed}
+                onCheckedChange={(checked) => updateSubtaskMutation.mutate({ id: subtask.id, completed: checked === true })}
+                disabled={!editable || isPending}
+                aria-label={`Mark step ${subtask.completed ? "not done" : "done"}: ${subtask.title}`}
+                data-testid={`checkbox-subtask-${subtask.id}`}
+              />
+              {editingId === subtask.id ? (
+                <form onSubmit={handleRename} className="flex-1 flex space-x-1">
+                  <Input
+                    value={editingTitle}
+                    onChange={(e) => setEditingTitle(e.target.value)}
+                    maxLength={200}
+                    className="h-7 text-xs"
+                    autoFocus
+                    disabled={isPending}
+                    data-testid={`input-subtask-title-${subtask.id}`}
+                  />
+                  <Button type="submit" size="sm" variant="ghost" className="h-7 px-2" disabled={isPending}>
+                    <i className="fas fa-check"></i>
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" className="h-7 px-2" onClick={() => setEditingId(null)}>
+                    <i className="fas fa-times"></i>
+                  </Button>
+                </form>
+              ) : (
+                <>
+                  <span
+                    className={`flex-1 ${subtask.completed ? "text-muted-foreground line-through" : "text-foreground"}`}
+                    data-testid={`text-subtask-${subtask.id}`}
+                  >
+                    {subtask.title}
+                  </span>
+                  {editable && (
+                    <div className="flex space-x-1 opacity-0 group-hover/subtask:opacity-100 focus-within:opacity-100 transition-opacity">
+                      <button
+                        type="button"
+                        onClick={() => moveSubtask(index, -1)}
+                        disabled={index === 0 || isPending}
+                        className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                        aria-label={`Move up: ${subtask.title}`}
+                      >
+                        <i className="fas fa-arrow-up"></i>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => moveSubtask(index, 1)}
+                        disabled={index === subtasks.length - 1 || isPending}
+                        className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                        aria-label={`Move down: ${subtask.title}`}
+                      >
+                        <i className="fas fa-arrow-down"></i>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(subtask.id);
+                          setEditingTitle(subtask.title);
+                        }}
+                        disabled={isPending}
+                        className="text-muted-foreground hover:text-foreground"
+                        aria-label={`Rename: ${subtask.title}`}
+                        data-testid={`button-edit-subtask-${subtask.id}`}
+                      >
+                        <i className="fas fa-pen"></i>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => removeSubtaskMutation.mutate(subtask.id)}
+                        disabled={isPending}
+                        className="text-muted-foreground hover:text-destructive"
+                        aria-label={`Remove: ${subtask.title}`}
+                        data-testid={`button-remove-subtask-${subtask.id}`}
+                      >
+                        <i className="fas fa-trash"></i>
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+
+          {editable && (
+            <>
+              <form onSubmit={handleAdd} className="flex space-x-1 pt-1">
+                <Input
+                  placeholder="Add a step..."
+                  value={newTitle}
+                  onChange={(e) => setNewTitle(e.target.value)}
+                  maxLength={200}
+                  className="h-7 text-xs"
+                  disabled={isPending}
+                  data-testid={`input-new-subtask-${userGoalId}`}
+                />
+                <Button
+                  type="submit"
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2"
+                  disabled={isPending || newTitle.trim().length === 0}
+                  data-testid={`button-add-subtask-${userGoalId}`}
+                >
+                  <i className="fas fa-plus"></i>
+                </Button>
+              </form>
+              {subtasks.length > 0 && (
+                <label className="flex items-center space-x-2 pt-1 text-muted-foreground cursor-pointer">
+                  <Checkbox
+                    checked={autoComplete}
+                    onCheckedChange={(checked) => autoCompleteMutation.mutate(checked === true)}
+                    disabled={isPending}
+                    data-testid={`checkbox-subtask-autocomplete-${userGoalId}`}
+                  />
+                  <span>Complete the goal when every step is done</span>
+                </label>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
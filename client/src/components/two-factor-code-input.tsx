@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TwoFactorCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  allowRecoveryCode?: boolean;
+}
+
+// Six-digit authenticator code, with an optional switch to typing a recovery code
+export default function TwoFactorCodeInput({ value, onChange, disabled, allowRecoveryCode }: TwoFactorCodeInputProps) {
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    onChange("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {useRecoveryCode ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          maxLength={32}
+          autoComplete="off"
+          autoFocus
+          disabled={disabled}
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={value}
+            onChange={onChange}
+            autoComplete="one-time-code"
+            autoFocus
+            disabled={disabled}
+            data-testid="input-two-factor-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map(index => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+      {allowRecoveryCode && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={toggleRecoveryCode}
+            className="text-xs text-primary hover:underline"
+            data-testid="button-toggle-recovery-code"
+          >
+            {useRecoveryCode ? "Use your authenticator app instead" : "Lost your device? Use a recovery code"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import TwoFactorCodeInput from "@/components/two-factor-code-input";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCodeDataUrl: string;
+}
+
+type Mode = "setup" | "regenerate" | "disable" | null;
+
+export default function TwoFactorSettings() {
+  const [mode, setMode] = useState<Mode>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/auth/2fa"],
+  });
+
+  const handleError = (fallback: string) => (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Session Expired",
+        description: "Please sign in again to continue.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setCode("");
+    toast({
+      title: "Error",
+      description: (error instanceof ApiError && error.data?.message) || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const showRecoveryCodes = (data: { recoveryCodes: string[] }) => {
+    setRecoveryCodes(data.recoveryCodes);
+    setCode("");
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setRecoveryCodes(null);
+      setCode("");
+      setMode("setup");
+    },
+    onError: handleError("Failed to start two-factor setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/enable", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: showRecoveryCodes,
+    onError: handleError("Failed to enable two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/auth/2fa/recovery-codes", { code: value });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: showRecoveryCodes,
+    onError: handleError("Failed to regenerate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Two-Factor Disabled",
+        description: "Signing in now only needs your password.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/2fa"] });
+      closeDialog();
+    },
+    onError: handleError("Failed to disable two-factor authentication"),
+  });
+
+  const isPending = setupMutation.isPending
+    || enableMutation.isPending
+    || regenerateMutation.isPending
+    || disableMutation.isPending;
+
+  const openDialog = (next: Mode) => {
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+    setMode(next);
+  };
+
+  const closeDialog = () => {
+    setMode(null);
+    setSetup(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    if (mode === "setup") {
+      enableMutation.mutate(code.trim());
+    } else if (mode === "regenerate") {
+      regenerateMutation.mutate(code.trim());
+    } else if (mode === "disable" && password) {
+      disableMutation.mutate();
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+      toast({ title: "Copied", description: "Recovery codes copied to the clipboard." });
+    } catch {
+      toast({ title: "Error", description: "Couldn't copy; please write the codes down.", variant: "destructive" });
+    }
+  };
+
+  const dialogTitle = mode === "setup"
+    ? "Set Up Two-Factor Authentication"
+    : mode === "regenerate"
+      ? "New Recovery Codes"
+      : "Disable Two-Factor Authentication";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <i className="fas fa-shield-alt text-primary"></i>
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary" data-testid="badge-two-factor-enabled">On</Badge>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading...</div>
+        ) : status?.enabled ? (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Signing in asks for a code from your authenticator app
+              {status.enabledAt ? ` (on since ${format(new Date(status.enabledAt), "MMM d, yyyy")})` : ""}.
+              {" "}You have {status.recoveryCodesRemaining} unused recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => openDialog("regenerate")} disabled={isPending} data-testid="button-regenerate-recovery-codes">
+                Regenerate Recovery Codes
+              </Button>
+              <Button variant="destructive" onClick={() => openDialog("disable")} disabled={isPending} data-testid="button-disable-two-factor">
+                Disable
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              Friends can see your activity and achievements. Protect your account with a code from an authenticator app
+              in addition to your password.
+            </p>
+            <Button onClick={() => setupMutation.mutate()} disabled={isPending} data-testid="button-enable-two-factor">
+              {setupMutation.isPending ? "Starting..." : "Enable Two-Factor"}
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={mode !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{recoveryCodes ? "Save Your Recovery Codes" : dialogTitle}</DialogTitle>
+            <DialogDescription>
+              {recoveryCodes
+                ? "Each code signs you in once if you lose your device. They won't be shown again."
+                : mode === "setup"
+                  ? "Scan the QR code with your authenticator app, then enter the 6-digit code it shows."
+                  : mode === "regenerate"
+                    ? "Enter a code from your authenticator app. Your old recovery codes will stop working."
+                    : "Enter your password and a code from your authenticator app."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {recoveryCodes ? (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-2 rounded-md bg-muted p-4 font-mono text-sm" data-testid="list-recovery-codes">
+                {recoveryCodes.map(recoveryCode => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                  <i className="fas fa-copy mr-2"></i>
+                  Copy
+                </Button>
+                <Button onClick={closeDialog} data-testid="button-done-recovery-codes">Done</Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {mode === "setup" && setup && (
+                <div className="space-y-2 text-center">
+                  <img
+                    src={setup.qrCodeDataUrl}
+                    alt="QR code for your authenticator app"
+                    className="w-44 h-44 mx-auto"
+                    data-testid="image-two-factor-qr"
+                  />
+                  <p className="text-xs text-muted-foreground">Can't scan it? Enter this key instead:</p>
+                  <code className="block break-all text-sm" data-testid="text-two-factor-secret">{setup.secret}</code>
+                </div>
+              )}
+
+              {mode === "disable" && (
+                <div className="space-y-2">
+                  <Label htmlFor="twoFactorPassword">Password</Label>
+                  <Input
+                    id="twoFactorPassword"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    disabled={isPending}
+                    data-testid="input-two-factor-password"
+                  />
+                </div>
+              )}
+
+              <TwoFactorCodeInput
+                value={code}
+                onChange={setCode}
+                disabled={isPending}
+                allowRecoveryCode={mode !== "setup"}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={closeDialog} disabled={isPending}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant={mode === "disable" ? "destructive" : "default"}
+                  disabled={isPending || !code.trim() || (mode === "disable" && !password)}
+                  data-testid="button-confirm-two-factor"
+                >
+                  {isPending ? "Checking..." : mode === "setup" ? "Turn On" : mode === "regenerate" ? "Regenerate" : "Disable"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { isValidTimezone, resolveWeekSettings, WEEKDAY_NAMES, type WeekSettings } from "@shared/week";
+
+interface WeekSettingsFormProps {
+  settings?: Partial<WeekSettings>;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export default function WeekSettingsForm({ settings, isOpen, onClose }: WeekSettingsFormProps) {
+  const [timezone, setTimezone] = useState("");
+  const [weekStartDay, setWeekStartDay] = useState("1");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  useEffect(() => {
+    if (isOpen) {
+      const resolved = resolveWeekSettings(settings);
+      setTimezone(resolved.timezone);
+      setWeekStartDay(String(resolved.weekStartDay));
+    }
+  }, [isOpen, settings]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data: WeekSettings) => {
+      const response = await apiRequest("PUT", "/api/user/settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Your week settings have been updated!",
+      });
+      // Week boundaries move, so everything keyed by week needs refetching
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reflection"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+      onClose();
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Session Expired",
+          description: "Please sign in again to continue.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update week settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedTimezone = timezone.trim();
+    if (!isValidTimezone(trimmedTimezone)) {
+      toast({
+        title: "Validation Error",
+        description: "Please enter a timezone like Europe/Berlin or America/New_York",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveSettingsMutation.mutate({
+      timezone: trimmedTimezone,
+      weekStartDay: parseInt(weekStartDay, 10),
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Week Settings</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Timezone</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="timezone"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="e.g. Europe/Berlin"
+                disabled={saveSettingsMutation.isPending}
+                data-testid="input-timezone"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setTimezone(browserTimezone)}
+                disabled={saveSettingsMutation.isPending || timezone === browserTimezone}
+                data-testid="button-use-browser-timezone"
+              >
+                Use mine
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="weekStartDay">Weeks start on</Label>
+            <Select
+              value={weekStartDay}
+              onValueChange={setWeekStartDay}
+              disabled={saveSettingsMutation.isPending}
+            >
+              <SelectTrigger id="weekStartDay" data-testid="select-week-start-day">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WEEKDAY_NAMES.map((name, day) => (
+                  <SelectItem key={day} value={String(day)}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Changing this moves the current week; goals planned for this week and later move with it, while past weeks stay as they were.
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-cancel-week-settings"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={saveSettingsMutation.isPending}
+              data-testid="button-save-week-settings"
+            >
+              {saveSettingsMutation.isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                'Save Settings'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
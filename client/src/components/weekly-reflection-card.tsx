@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toDateString } from "@shared/week";
+
+interface WeeklyReflection {
+  id: string;
+  weekStart: string;
+  content: string | null;
+  mood: number | null;
+  energy: number | null;
+  updatedAt: string;
+}
+
+interface WeeklyReflectionCardProps {
+  weekStart: string;
+  isFutureWeek: boolean;
+}
+
+export const MOOD_LABELS = ["😞", "🙁", "😐", "🙂", "😄"];
+export const ENERGY_LABELS = ["🪫", "😴", "😌", "⚡", "🚀"];
+
+export function RatingPicker({
+  id,
+  labels,
+  value,
+  onChange,
+  disabled,
+}: {
+  id: string;
+  labels: string[];
+  value: number | null;
+  onChange: (value: number | null) => void;
+  disabled: boolean;
+}) {
+  return (
+    <div className="flex space-x-1" role="radiogroup" aria-labelledby={id}>
+      {labels.map((label, index) => {
+        const rating = index + 1;
+        const isSelected = value === rating;
+        return (
+          <button
+            key={rating}
+            type="button"
+            role="radio"
+            aria-checked={isSelected}
+            aria-label={`${rating} of 5`}
+            onClick={() => onChange(isSelected ? null : rating)}
+            disabled={disabled}
+            className={`w-9 h-9 rounded-full border text-lg transition-colors ${
+              isSelected ? "border-primary bg-primary/10" : "border-border opacity-60 hover:opacity-100"
+            }`}
+            data-testid={`button-${id}-${rating}`}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function WeeklyReflectionCard({ weekStart, isFutureWeek }: WeeklyReflectionCardProps) {
+  const weekKey = toDateString(weekStart);
+  const [content, setContent] = useState("");
+  const [mood, setMood] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: reflection, isLoading } = useQuery<WeeklyReflection | null>({
+    queryKey: ["/api/user/reflection", weekKey],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/user/reflection?weekStart=${weekKey}`);
+      return response.json();
+    },
+    enabled: !isFutureWeek,
+    retry: false,
+  });
+
+  useEffect(() => {
+    setContent(reflection?.content ?? "");
+    setMood(reflection?.mood ?? null);
+    setEnergy(reflection?.energy ?? null);
+  }, [reflection]);
+
+  const saveReflectionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", "/api/user/reflection", {
+        weekStart: weekKey,
+        content: content.trim() || null,
+        mood,
+        energy,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Reflection Saved",
+        description: "Your thoughts on this week have been saved.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reflection", weekKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/weekly-stats"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to save reflection",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isFutureWeek) {
+    return null;
+  }
+
+  const isPending = isLoading || saveReflectionMutation.isPending;
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="reflectionContent">How did this week go?</Label>
+          <Textarea
+            id="reflectionContent"
+            placeholder="What went well, what got in the way, what you'd change next week..."
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            maxLength={5000}
+            rows={4}
+            disabled={isPending}
+            data-testid="input-reflection-content"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label id="mood">Mood</Label>
+            <RatingPicker id="mood" labels={MOOD_LABELS} value={mood} onChange={setMood} disabled={isPending} />
+          </div>
+          <div className="space-y-2">
+            <Label id="energy">Energy</Label>
+            <RatingPicker id="energy" labels={ENERGY_LABELS} value={energy} onChange={setEnergy} disabled={isPending} />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-muted-foreground">
+            {reflection ? `Last saved ${new Date(reflection.updatedAt).toLocaleString()}` : "Not written yet"}
+          </span>
+          <Button
+            onClick={() => saveReflectionMutation.mutate()}
+            disabled={isPending}
+            data-testid="button-save-reflection"
+          >
+            {saveReflectionMutation.isPending ? (
+              <>
+                <i className="fas fa-spinner fa-spin mr-2"></i>
+                Saving...
+              </>
+            ) : (
+              'Save Reflection'
+            )}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
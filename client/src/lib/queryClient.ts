@@ -1,9 +1,26 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Error thrown for non-2xx responses; keeps the parsed JSON body when there is one
+export class ApiError extends Error {
+  status: number;
+  data: any;
+
+  constructor(status: number, text: string) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+    this.status = status;
+    try {
+      this.data = JSON.parse(text);
+    } catch {
+      this.data = null;
+    }
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -16,8 +33,74 @@ export function setStoredToken(token: string): void {
   localStorage.setItem('auth_token', token);
 }
 
+export function getStoredRefreshToken(): string | null {
+  return localStorage.getItem('auth_refresh_token');
+}
+
+// Keep the access token and the refresh token it was issued with together
+export function setStoredTokens(tokens: { token: string; refreshToken: string }): void {
+  setStoredToken(tokens.token);
+  localStorage.setItem('auth_refresh_token', tokens.refreshToken);
+}
+
 export function removeStoredToken(): void {
   localStorage.removeItem('auth_token');
+  localStorage.removeItem('auth_refresh_token');
+}
+
+// Requests that fail together share one refresh, since each refresh token works only once
+let refreshInFlight: Promise<boolean> | null = null;
+
+async function refreshAccessToken(): Promise<boolean> {
+  const refreshToken = getStoredRefreshToken();
+  if (!refreshToken) {
+    return false;
+  }
+
+  const res = await fetch("/api/auth/refresh", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (res.ok) {
+    setStoredTokens(await res.json());
+    return true;
+  }
+  // Another tab may have rotated the token first and stored the new pair
+  return getStoredRefreshToken() !== refreshToken;
+}
+
+function refreshAccessTokenOnce(): Promise<boolean> {
+  if (!refreshInFlight) {
+    refreshInFlight = refreshAccessToken()
+      .catch(() => false)
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+// fetch with the stored access token. An expired token is refreshed silently and
+// the request retried once, so sessions outlive the short access token lifetime.
+async function fetchWithAuth(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = () => {
+    const token = getStoredToken();
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        ...(token ? { "Authorization": `Bearer ${token}` } : {}),
+      },
+      // No credentials needed for pure JWT authentication
+    });
+  };
+
+  const res = await send();
+  if (res.status !== 401 || !getStoredRefreshToken()) {
+    return res;
+  }
+  return await refreshAccessTokenOnce() ? await send() : res;
 }
 
 export async function apiRequest(
@@ -25,17 +108,10 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const token = getStoredToken();
-  const headers: Record<string, string> = {
-    ...(data ? { "Content-Type": "application/json" } : {}),
-    ...(token ? { "Authorization": `Bearer ${token}` } : {}),
-  };
-
-  const res = await fetch(url, {
+  const res = await fetchWithAuth(url, {
     method,
-    headers,
+    headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    // No credentials needed for pure JWT authentication
   });
 
   await throwIfResNotOk(res);
@@ -48,15 +124,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const token = getStoredToken();
-    const headers: Record<string, string> = {
-      ...(token ? { "Authorization": `Bearer ${token}` } : {}),
-    };
-
-    const res = await fetch(queryKey.join("/") as string, {
-      headers,
-      // No credentials needed for pure JWT authentication
-    });
+    const res = await fetchWithAuth(queryKey.join("/") as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
@@ -1,12 +1,14 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from "recharts";
 import { TrendingUp, Target, Calendar, Award } from "lucide-react";
+import { getCategoryChartColor } from "@/components/category-icon";
 
 interface WeeklyStats {
   week: string;
@@ -14,11 +16,14 @@ interface WeeklyStats {
   completedGoals: number;
   completionRate: number;
   categoriesCompleted: number;
+  mood: number | null;
+  energy: number | null;
 }
 
 interface CategoryPerformance {
   categoryId: string;
   categoryName: string;
+  categoryColor: string | null;
   totalGoals: number;
   completedGoals: number;
   completionRate: number;
@@ -43,12 +48,7 @@ export default function Analytics() {
   const { data: weeklyStats, isLoading: weeklyLoading } = useQuery<WeeklyStats[]>({
     queryKey: ["/api/analytics/weekly-stats", timeRange],
     queryFn: async () => {
-      const res = await fetch(`/api/analytics/weekly-stats?weeks=${timeRange}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-        },
-      });
-      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      const res = await apiRequest("GET", `/api/analytics/weekly-stats?weeks=${timeRange}`);
       return res.json();
     },
     enabled: isAuthenticated,
@@ -58,12 +58,7 @@ export default function Analytics() {
   const { data: categoryPerformance, isLoading: categoryLoading } = useQuery<CategoryPerformance[]>({
     queryKey: ["/api/analytics/category-performance", timeRange],
     queryFn: async () => {
-      const res = await fetch(`/api/analytics/category-performance?weeks=${timeRange}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-        },
-      });
-      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      const res = await apiRequest("GET", `/api/analytics/category-performance?weeks=${timeRange}`);
       return res.json();
     },
     enabled: isAuthenticated,
@@ -73,12 +68,7 @@ export default function Analytics() {
   const { data: completionTrends, isLoading: trendsLoading } = useQuery<CompletionTrend[]>({
     queryKey: ["/api/analytics/completion-trends", trendsRange],
     queryFn: async () => {
-      const res = await fetch(`/api/analytics/completion-trends?days=${trendsRange}`, {
-        headers: {
-          'Authorization': `Bearer ${localStorage.getItem('auth_token')}`,
-        },
-      });
-      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      const res = await apiRequest("GET", `/api/analytics/completion-trends?days=${trendsRange}`);
       return res.json();
     },
     enabled: isAuthenticated,
@@ -100,15 +90,6 @@ export default function Analytics() {
   } : null;
 
   // Color schemes for charts
-  const categoryColors = {
-    "Personal": "#8B5CF6",
-    "Inner Peace": "#10B981", 
-    "Health": "#EF4444",
-    "Family": "#F59E0B",
-    "Career": "#3B82F6",
-    "Fun": "#EC4899"
-  };
-
   const levelColors = {
     "slayed": "#10B981",
     "rock": "#F59E0B", 
@@ -286,7 +267,7 @@ export default function Analytics() {
                         {Array.isArray(categoryPerformance) ? categoryPerformance.map((entry, index) => (
                           <Cell 
                             key={`cell-${index}`} 
-                            fill={categoryColors[entry.categoryName as keyof typeof categoryColors] || "#8884d8"} 
+                            fill={getCategoryChartColor(entry.categoryColor)} 
                           />
                         )) : null}
                       </Pie>
@@ -316,6 +297,32 @@ export default function Analytics() {
                 </ResponsiveContainer>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Mood, Energy and Completion</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {weeklyStats?.some(week => week.mood !== null || week.energy !== null) ? (
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={weeklyStats}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="week" />
+                      <YAxis yAxisId="rate" domain={[0, 100]} />
+                      <YAxis yAxisId="rating" orientation="right" domain={[1, 5]} ticks={[1, 2, 3, 4, 5]} />
+                      <Tooltip />
+                      <Line yAxisId="rate" type="monotone" dataKey="completionRate" stroke="#8B5CF6" strokeWidth={2} name="Completion Rate (%)" />
+                      <Line yAxisId="rating" type="monotone" dataKey="mood" stroke="#F59E0B" strokeWidth={2} connectNulls name="Mood (1-5)" />
+                      <Line yAxisId="rating" type="monotone" dataKey="energy" stroke="#10B981" strokeWidth={2} connectNulls name="Energy (1-5)" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                ) : (
+                  <p className="text-sm text-muted-foreground text-center py-8" data-testid="text-no-reflections">
+                    Rate your mood and energy in the weekly reflection on your dashboard to see them here.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="categories" className="space-y-6">
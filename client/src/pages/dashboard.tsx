@@ -1,40 +1,81 @@
-import { useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import AppHeader from "@/components/app-header";
 import CategoryCard from "@/components/category-card";
 import GraphicsCalendar from "@/components/graphics-calendar";
+import LogProgressForm from "@/components/log-progress-form";
+import GoalNoteForm from "@/components/goal-note-form";
+import WeeklyReflectionCard from "@/components/weekly-reflection-card";
 import ProgressCircle from "@/components/ui/progress-circle";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
-import personalIcon from "@assets/personal_1758464140980.png";
-import innerPeaceIcon from "@assets/innerpeace_1758464155112.png";
-import healthIcon from "@assets/health1_1758464133360.png";
-import familyIcon from "@assets/family1_1758464115422.png";
-import careerIcon from "@assets/carrer1_1758464107256.png";
-import funIcon from "@assets/fun1_1758464127001.png";
+import type { GoalProgress } from "@shared/progress";
+import type { UserStreaks } from "@shared/streaks";
+import { addWeeks, getWeekDates, getWeekStart, resolveWeekSettings, toCalendarDate, toDateString } from "@shared/week";
+import CategoryIcon from "@/components/category-icon";
 
 interface CategoryStats {
+  id: string;
   completed: number;
   total: number;
   name: string;
+  icon: string;
   color: string;
 }
 
+interface AchievementThresholds {
+  track: number;
+  rock: number;
+  slayed: number;
+}
+
 interface ProgressData {
   weekStart: string;
+  isCurrentWeek: boolean;
+  isFutureWeek: boolean;
+  editable: boolean;
   totalGoals: number;
   completedGoals: number;
   categories: CategoryStats[];
   categoriesCompleted: number;
+  goals: (GoalProgress & { userGoalId: string })[];
+  activeCategoryCount: number;
+  goalsPerCategory: number;
+  achievementThresholds: AchievementThresholds;
   achievement: any;
   progressPercentage: number;
 }
 
+interface GoalCheckin {
+  id: string;
+  userGoalId: string;
+  date: string;
+  value: number;
+  note: string | null;
+}
+
+interface GoalSubtask {
+  id: string;
+  userGoalId: string;
+  title: string;
+  position: number;
+  completed: boolean;
+  completedAt: string | null;
+}
+
+interface GoalProgressLog {
+  id: string;
+  userGoalId: string;
+  value: number;
+  note: string | null;
+  loggedAt: string;
+}
+
 interface UserGoal {
   id: string;
   userId: string;
@@ -42,11 +83,22 @@ interface UserGoal {
   weekStart: string;
   completed: boolean;
   completedAt: string | null;
+  note: string | null;
+  autoCompleteFromSubtasks: boolean;
+  scheduledDate: string | null;
+  scheduledTime: string | null;
   createdAt: string;
+  checkins: GoalCheckin[];
+  progressLogs: GoalProgressLog[];
+  subtasks: GoalSubtask[];
   goal: {
     id: string;
     categoryId: string;
     description: string;
+    targetDaysPerWeek: number | null;
+    targetValue: number | null;
+    unit: string | null;
+    aggregation: string | null;
     createdAt: string;
     category: {
       id: string;
@@ -59,24 +111,16 @@ interface UserGoal {
   };
 }
 
-// Helper function to get category icon
-const getCategoryIcon = (categoryName: string) => {
-  const iconMap: Record<string, string> = {
-    'Personal': personalIcon,
-    'Inner Peace': innerPeaceIcon, 
-    'Health': healthIcon,
-    'Family': familyIcon,
-    'Career': careerIcon,
-    'Fun': funIcon,
-  };
-  return iconMap[categoryName] || personalIcon;
-};
-
 export default function Dashboard() {
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
+  const [loggingGoalId, setLoggingGoalId] = useState<string | null>(null);
+  const [notingGoalId, setNotingGoalId] = useState<string | null>(null);
+  // YYYY-MM-DD start of the week being viewed; null follows the current week
+  const [viewedWeekStart, setViewedWeekStart] = useState<string | null>(null);
+  const weekQuery = viewedWeekStart ? `?weekStart=${viewedWeekStart}` : "";
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -87,13 +131,30 @@ export default function Dashboard() {
   }, [isAuthenticated, authLoading]);
 
   const { data: progress, isLoading: progressLoading } = useQuery<ProgressData>({
-    queryKey: ["/api/user/progress"],
+    queryKey: ["/api/user/progress", viewedWeekStart ?? "current"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/user/progress${weekQuery}`);
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+
+  const { data: userGoals, isLoading: goalsLoading, isPlaceholderData: goalsArePlaceholder } = useQuery<UserGoal[]>({
+    queryKey: ["/api/user/goals/week", viewedWeekStart ?? "current"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/user/goals/week${weekQuery}`);
+      return response.json();
+    },
     enabled: isAuthenticated,
+    placeholderData: keepPreviousData,
     retry: false,
   });
 
-  const { data: userGoals, isLoading: goalsLoading } = useQuery<UserGoal[]>({
-    queryKey: ["/api/user/goals/week"],
+  // Streaks are always measured up to the current week, whichever week is being viewed
+  const { data: streaks } = useQuery<UserStreaks>({
+    queryKey: ["/api/user/streaks"],
     enabled: isAuthenticated,
     retry: false,
   });
@@ -105,6 +166,9 @@ export default function Dashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
       queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
     },
     onError: (error) => {
@@ -125,32 +189,173 @@ export default function Dashboard() {
     },
   });
 
+  const formatCategoryCount = (count: number) => `${count} ${count === 1 ? "category" : "categories"}`;
+
+  const toggleCheckinMutation = useMutation({
+    mutationFn: async ({ userGoalId, date, checkinId }: { userGoalId: string; date: string; checkinId?: string }) => {
+      const response = checkinId
+        ? await apiRequest("DELETE", `/api/user-goals/${userGoalId}/checkins/${checkinId}`)
+        : await apiRequest("POST", `/api/user-goals/${userGoalId}/checkins`, { date });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Session Expired",
+          description: "Please sign in again to continue.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to update check-in",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const scheduleGoalMutation = useMutation({
+    mutationFn: async ({ userGoalId, date, time }: { userGoalId: string; date: string | null; time: string | null }) => {
+      const response = await apiRequest("PUT", `/api/user-goals/${userGoalId}/schedule`, { date, time });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Session Expired",
+          description: "Please sign in again to continue.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.data?.message ? error.data.message : "Failed to schedule goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const rolloverMutation = useMutation({
+    mutationFn: async (onlyIncomplete: boolean) => {
+      const response = await apiRequest("POST", "/api/user/goals/rollover", {
+        onlyIncomplete,
+        weekStart: viewedWeekStart ?? undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (data: { rolledOverCount: number }) => {
+      toast({
+        title: "Goals Carried Over",
+        description: data.rolledOverCount > 0
+          ? `${data.rolledOverCount} ${data.rolledOverCount === 1 ? "goal" : "goals"} added to this week.`
+          : "Nothing left to carry over from last week.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Session Expired",
+          description: "Please sign in again to continue.",
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.status === 404
+          ? "There is no earlier week to carry goals over from."
+          : "Failed to carry over goals",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Fill an empty current week from last week's goals if the plan settings ask for it;
+  // the server decides whether anything is carried over
+  const autoRolloverAttempted = useRef(false);
+  const autoRolloverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/goals/auto-rollover");
+      return response.json() as Promise<{ rolledOverCount: number }>;
+    },
+    onSuccess: (data) => {
+      if (data.rolledOverCount === 0) return;
+      toast({
+        title: "Goals Carried Over",
+        description: `${data.rolledOverCount} ${data.rolledOverCount === 1 ? "goal" : "goals"} from last week added to this week.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+    },
+  });
+
+  useEffect(() => {
+    if (viewedWeekStart || goalsArePlaceholder || !userGoals || userGoals.length > 0 || autoRolloverAttempted.current) {
+      return;
+    }
+    autoRolloverAttempted.current = true;
+    autoRolloverMutation.mutate();
+  }, [viewedWeekStart, goalsArePlaceholder, userGoals]);
+
+  // Reminders that have come due (streak at risk, weekly recap, overdue goals) are sent
+  // once when the dashboard opens; the server skips any already sent
+  const dueRemindersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/due-reminders");
+      return response.json();
+    },
+  });
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      dueRemindersMutation.mutate();
+    }
+  }, [isAuthenticated]);
+
   const getAchievementMessage = (level: string | undefined, categoriesCompleted: number) => {
     if (!level || level === "none") return null;
     
+    const description = `${formatCategoryCount(categoriesCompleted)} completed this week`;
     switch (level) {
       case "slayed":
-        return { title: "OMG! You Slayed It! 🎉", description: "6 categories completed this week" };
+        return { title: "OMG! You Slayed It! 🎉", description };
       case "rock":
-        return { title: "You Rock! 🎉", description: "4 categories completed this week" };
+        return { title: "You Rock! 🎉", description };
       case "track":
-        return { title: "You're on the right track! 👍", description: "2 categories completed this week" };
+        return { title: "You're on the right track! 👍", description };
       default:
         return null;
     }
   };
 
-  const getNextLevelMessage = (categoriesCompleted: number) => {
-    if (categoriesCompleted >= 6) return "Maximum level achieved!";
-    if (categoriesCompleted >= 4) return "6 categories";
-    if (categoriesCompleted >= 2) return "4 categories";
-    return "2 categories";
+  const getNextLevelMessage = (categoriesCompleted: number, thresholds: AchievementThresholds) => {
+    if (categoriesCompleted >= thresholds.slayed) return "Maximum level achieved!";
+    if (categoriesCompleted >= thresholds.rock) return formatCategoryCount(thresholds.slayed);
+    if (categoriesCompleted >= thresholds.track) return formatCategoryCount(thresholds.rock);
+    return formatCategoryCount(thresholds.track);
   };
 
   const formatWeekRange = (weekStart: string) => {
-    const start = new Date(weekStart);
-    const end = new Date(start);
-    end.setDate(end.getDate() + 6);
+    const weekDates = getWeekDates(weekStart);
+    const start = toCalendarDate(weekDates[0]);
+    const end = toCalendarDate(weekDates[6]);
     
     const startStr = start.toLocaleDateString('en-US', { month: 'long', day: 'numeric' });
     const endStr = end.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
@@ -158,12 +363,63 @@ export default function Dashboard() {
     return `Week of ${startStr}-${endStr}`;
   };
 
+  // Closed weeks are read-only, and progress can't be recorded ahead of time
+  const canRecordProgress = () => {
+    if (!progress?.editable) {
+      toast({
+        title: "Week Closed",
+        description: "This week can no longer be edited.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    if (progress.isFutureWeek) {
+      toast({
+        title: "Not Started Yet",
+        description: "You can record progress once this week begins.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
   const handleToggleGoal = (userGoalId: string) => {
+    if (!canRecordProgress()) return;
     toggleGoalMutation.mutate(userGoalId);
   };
 
+  const handleToggleCheckin = (userGoalId: string, date: string, checkinId?: string) => {
+    if (!canRecordProgress()) return;
+    toggleCheckinMutation.mutate({ userGoalId, date, checkinId });
+  };
+
+  // Planning when to do a goal is allowed ahead of the week, unlike recording progress
+  const handleScheduleGoal = (userGoalId: string, date: string | null, time: string | null) => {
+    scheduleGoalMutation.mutate({ userGoalId, date, time });
+  };
+
+  const handleLogProgress = (userGoalId: string) => {
+    if (!canRecordProgress()) return;
+    setLoggingGoalId(userGoalId);
+  };
+
   const handleSelectGoals = () => {
-    setLocation("/goals");
+    setLocation(`/goals${weekQuery}`);
+  };
+
+  const handleChangeWeek = (weeks: number) => {
+    if (!progress) return;
+    const currentWeekStart = toDateString(getWeekStart(resolveWeekSettings(user)));
+    const nextWeekStart = toDateString(addWeeks(progress.weekStart, weeks));
+    setViewedWeekStart(nextWeekStart === currentWeekStart ? null : nextWeekStart);
+  };
+
+  const getWeekStatusMessage = () => {
+    if (!progress || progress.isCurrentWeek) return "Track your progress across all life categories";
+    if (progress.isFutureWeek) return "Planning ahead: choose goals now and start them when the week begins";
+    if (progress.editable) return "This week has ended, but you can still catch up on updates for a few days";
+    return "This week is closed. Review how it went";
   };
 
   if (authLoading || progressLoading || goalsLoading) {
@@ -191,6 +447,12 @@ export default function Dashboard() {
     );
   }
 
+  const goalProgressById = new Map(progress.goals.map(goalProgress => [goalProgress.userGoalId, goalProgress]));
+  const categoryStreakById = new Map(streaks?.categories.map(streak => [streak.categoryId, streak]));
+  const goalStreakById = new Map(streaks?.goals.map(streak => [streak.goalId, streak]));
+  const loggingGoal = userGoals?.find(userGoal => userGoal.id === loggingGoalId);
+  const notingGoal = userGoals?.find(userGoal => userGoal.id === notingGoalId);
+
   const achievementMessage = getAchievementMessage(progress.achievement?.level, progress.categoriesCompleted);
 
   return (
@@ -204,13 +466,61 @@ export default function Dashboard() {
           <div className="bg-card rounded-xl border border-border p-6 shadow-sm">
             <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center mb-6">
               <div>
-                <h2 className="text-2xl font-bold text-foreground mb-1" data-testid="text-week-range">
-                  {formatWeekRange(progress.weekStart)}
-                </h2>
-                <p className="text-muted-foreground">Track your progress across all life categories</p>
+                <div className="flex items-center gap-2 mb-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleChangeWeek(-1)}
+                    aria-label="Previous week"
+                    data-testid="button-previous-week"
+                  >
+                    <i className="fas fa-chevron-left"></i>
+                  </Button>
+                  <h2 className="text-2xl font-bold text-foreground" data-testid="text-week-range">
+                    {formatWeekRange(progress.weekStart)}
+                  </h2>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleChangeWeek(1)}
+                    aria-label="Next week"
+                    data-testid="button-next-week"
+                  >
+                    <i className="fas fa-chevron-right"></i>
+                  </Button>
+                  {!progress.isCurrentWeek && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setViewedWeekStart(null)}
+                      data-testid="button-current-week"
+                    >
+                      This Week
+                    </Button>
+                  )}
+                </div>
+                <p className="text-muted-foreground" data-testid="text-week-status">{getWeekStatusMessage()}</p>
               </div>
               
               <div className="mt-4 lg:mt-0 flex items-center space-x-4">
+                {streaks && (
+                  <div
+                    className="text-center"
+                    title={streaks.overall.atRisk
+                      ? "Earn an achievement this week to keep your streak going"
+                      : `Longest streak: ${streaks.overall.longest} ${streaks.overall.longest === 1 ? "week" : "weeks"}`}
+                  >
+                    <div
+                      className={`text-2xl font-bold ${streaks.overall.atRisk ? "text-amber-500" : "text-orange-500"}`}
+                      data-testid="text-overall-streak"
+                    >
+                      🔥 {streaks.overall.current}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Week Streak{streaks.overall.atRisk ? " (at risk)" : ""}
+                    </div>
+                  </div>
+                )}
                 <div className="text-center">
                   <div className="text-2xl font-bold text-primary" data-testid="text-completed-goals">
                     {progress.completedGoals}
@@ -251,7 +561,7 @@ export default function Dashboard() {
                   <div className="text-right">
                     <div className="text-sm text-muted-foreground">Next level at</div>
                     <div className="font-semibold text-foreground" data-testid="text-next-level">
-                      {getNextLevelMessage(progress.categoriesCompleted)}
+                      {getNextLevelMessage(progress.categoriesCompleted, progress.achievementThresholds)}
                     </div>
                   </div>
                 </div>
@@ -264,7 +574,12 @@ export default function Dashboard() {
         <section className="mb-8">
           <GraphicsCalendar 
             userGoals={userGoals || []} 
+            weekStart={progress.weekStart}
+            timezone={resolveWeekSettings(user).timezone}
             onToggleGoal={handleToggleGoal}
+            onToggleCheckin={handleToggleCheckin}
+            onScheduleGoal={handleScheduleGoal}
+            editable={progress.editable}
           />
         </section>
 
@@ -273,13 +588,16 @@ export default function Dashboard() {
           <div className="flex justify-between items-center mb-6">
             <h2 className="text-xl font-bold text-foreground">Goal Categories</h2>
             <div className="flex gap-3">
-              <Button 
-                onClick={handleSelectGoals}
-                className="button-gradient text-white border-0 hover:opacity-90 px-6 py-2"
-                data-testid="button-select-goals"
-              >
-                <i className="fas fa-plus mr-2"></i>Select This Week's Goals
-              </Button>
+              {progress.editable && (
+                <Button 
+                  onClick={handleSelectGoals}
+                  className="button-gradient text-white border-0 hover:opacity-90 px-6 py-2"
+                  data-testid="button-select-goals"
+                >
+                  <i className="fas fa-plus mr-2"></i>
+                  {progress.isCurrentWeek ? "Select This Week's Goals" : "Select Goals for This Week"}
+                </Button>
+              )}
               <Button 
                 onClick={() => setLocation("/analytics")}
                 variant="outline"
@@ -298,31 +616,88 @@ export default function Dashboard() {
               </Button>
             </div>
           </div>
+
+          {userGoals?.length === 0 && progress.editable && (progress.isCurrentWeek || progress.isFutureWeek) && (
+            <Card className="mb-6" data-testid="card-rollover">
+              <CardContent className="p-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h3 className="font-semibold text-foreground">No goals planned for this week yet</h3>
+                  <p className="text-sm text-muted-foreground">
+                    Pick new goals, or carry over what you had last week.
+                  </p>
+                </div>
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => rolloverMutation.mutate(true)}
+                    disabled={rolloverMutation.isPending}
+                    data-testid="button-rollover-incomplete"
+                  >
+                    <i className="fas fa-redo mr-2"></i>Carry Over Unfinished
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => rolloverMutation.mutate(false)}
+                    disabled={rolloverMutation.isPending}
+                    data-testid="button-rollover-all"
+                  >
+                    <i className="fas fa-copy mr-2"></i>Repeat Last Week
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
           
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {progress.categories.map((category) => {
-              const categoryGoals = userGoals?.filter(
-                ug => ug.goal.category.name === category.name
-              ) || [];
+              const categoryGoals = (userGoals?.filter(
+                ug => ug.goal.categoryId === category.id
+              ) || []).map(ug => ({
+                ...ug,
+                progress: goalProgressById.get(ug.id),
+                streak: progress.isCurrentWeek ? goalStreakById.get(ug.goalId) : undefined,
+              }));
 
               return (
                 <CategoryCard
-                  key={category.name}
+                  key={category.id}
                   category={{
                     name: category.name,
+                    icon: category.icon,
                     color: category.color,
                     completed: category.completed,
                     total: category.total,
                   }}
                   goals={categoryGoals}
+                  streak={progress.isCurrentWeek ? categoryStreakById.get(category.id) : undefined}
                   onToggleGoal={handleToggleGoal}
-                  onCategoryClick={handleSelectGoals}
+                  onLogProgress={handleLogProgress}
+                  onEditNote={progress.isFutureWeek ? undefined : setNotingGoalId}
+                  onCategoryClick={progress.editable ? handleSelectGoals : undefined}
+                  subtasksEditable={progress.editable}
                 />
               );
             })}
           </div>
         </section>
 
+        {/* Weekly Reflection */}
+        {!progress.isFutureWeek && (
+          <section className="mb-8">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="text-xl font-bold text-foreground">Weekly Reflection</h2>
+              <Button
+                onClick={() => setLocation(`/review${weekQuery}`)}
+                variant="outline"
+                data-testid="button-review-week"
+              >
+                <i className="fas fa-clipboard-check mr-2"></i>Review Week
+              </Button>
+            </div>
+            <WeeklyReflectionCard weekStart={progress.weekStart} isFutureWeek={progress.isFutureWeek} />
+          </section>
+        )}
+
         {/* Recent Activity */}
         <section className="mb-8">
           <div className="flex justify-between items-center mb-6">
@@ -338,10 +713,9 @@ export default function Dashboard() {
                   .map((userGoal) => (
                     <div key={userGoal.id} className="flex items-center space-x-4 group hover:bg-muted/50 rounded-lg p-2 -m-2 transition-colors">
                       <div className="w-10 h-10 rounded-full flex items-center justify-center flex-shrink-0 shadow-lg group-hover:scale-110 transition-transform duration-300 bg-white/20 backdrop-blur-sm border-2 border-white/30">
-                        <img 
-                          src={getCategoryIcon(userGoal.goal.category.name)} 
-                          alt={`${userGoal.goal.category.name} icon`}
-                          className="w-8 h-8 object-contain rounded-full"
+                        <CategoryIcon
+                          category={userGoal.goal.category}
+                          className="w-8 h-8 text-lg text-primary object-contain rounded-full"
                         />
                       </div>
                       <div className="flex-1">
@@ -377,6 +751,26 @@ export default function Dashboard() {
           </Card>
         </section>
 
+        {notingGoal && (
+          <GoalNoteForm
+            userGoalId={notingGoal.id}
+            goalDescription={notingGoal.goal.description}
+            note={notingGoal.note}
+            isOpen={!!notingGoal}
+            onClose={() => setNotingGoalId(null)}
+          />
+        )}
+
+        {loggingGoal && (
+          <LogProgressForm
+            userGoalId={loggingGoal.id}
+            goalDescription={loggingGoal.goal.description}
+            unit={loggingGoal.goal.unit}
+            isOpen={!!loggingGoal}
+            onClose={() => setLoggingGoalId(null)}
+          />
+        )}
+
       </main>
     </div>
   );
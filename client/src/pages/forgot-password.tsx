@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { Mail } from "lucide-react";
+import goalFlowIcon from "@/assets/goalflow-icon.png";
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState("");
+  const [sent, setSent] = useState(false);
+  const { toast } = useToast();
+
+  const forgotPasswordMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("POST", "/api/auth/forgot-password", { email: value });
+    },
+    onSuccess: () => {
+      setSent(true);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: (error instanceof ApiError && error.data?.message) || "Failed to request password reset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    forgotPasswordMutation.mutate(email.trim());
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <img
+            src={goalFlowIcon}
+            alt="makeprogress Logo"
+            className="w-16 h-16 mx-auto"
+          />
+          <div>
+            <CardTitle className="text-2xl font-bold">Reset your password</CardTitle>
+            <CardDescription>
+              {sent
+                ? "If an account exists for that email, a reset link is on its way. It expires in 1 hour."
+                : "Enter your email and we'll send you a link to choose a new password."}
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {!sent && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pl-10"
+                    required
+                    data-testid="input-email"
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={forgotPasswordMutation.isPending}
+                data-testid="button-send-reset-link"
+              >
+                {forgotPasswordMutation.isPending ? "Sending..." : "Send Reset Link"}
+              </Button>
+            </form>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/" className="text-primary hover:underline" data-testid="link-back-to-sign-in">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
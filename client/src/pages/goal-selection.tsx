@@ -3,19 +3,30 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import AppHeader from "@/components/app-header";
-import CustomGoalForm from "@/components/custom-goal-form";
+import CustomGoalForm, { type EditableCustomGoal } from "@/components/custom-goal-form";
+import PlanTemplateForm from "@/components/plan-template-form";
+import GoalEffortForm from "@/components/goal-effort-form";
+import CategoryManager from "@/components/category-manager";
+import CategoryIcon, { getCategoryColorProps } from "@/components/category-icon";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { useLocation } from "wouter";
-import personalIcon from "@assets/personal_1758464140980.png";
-import innerPeaceIcon from "@assets/innerpeace_1758464155112.png";
-import healthIcon from "@assets/health1_1758464133360.png";
-import familyIcon from "@assets/family1_1758464115422.png";
-import careerIcon from "@assets/carrer1_1758464107256.png";
-import funIcon from "@assets/fun1_1758464127001.png";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useLocation, useSearch } from "wouter";
+import { DEFAULT_PLAN_TEMPLATE, getActiveCategories, isCategoryActive, type PlanTemplate } from "@shared/plan";
+import { toCalendarDate } from "@shared/week";
+import { formatWeeklyMinutes, type GoalEffort } from "@shared/effort";
 
 interface Category {
   id: string;
@@ -33,11 +44,43 @@ interface Goal {
   createdAt: string;
 }
 
+interface SelectableGoal extends Goal, EditableCustomGoal {
+  isCustom: boolean | null;
+  archivedAt: string | null;
+  effort: GoalEffort;
+}
+
+interface PlannedGoal {
+  id: string;
+  goalId: string;
+  completed: boolean;
+  goal: Goal & { category: Category };
+}
+
 interface Recommendation {
   goalId: string;
   goal: Goal & { category: Category };
   score: number;
   reason: string;
+  effort: GoalEffort;
+}
+
+const DIFFICULTY_STYLES: Record<GoalEffort["difficulty"], string> = {
+  easy: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
+  medium: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  hard: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400",
+};
+
+function EffortBadge({ effort }: { effort: GoalEffort }) {
+  return (
+    <span
+      className={`text-xs px-2 py-0.5 rounded-full whitespace-nowrap capitalize ${DIFFICULTY_STYLES[effort.difficulty]}`}
+      title={effort.isOverridden ? "Your own estimate" : "Default estimate"}
+    >
+      {effort.difficulty} · {formatWeeklyMinutes(effort.estimatedWeeklyMinutes)}
+      {effort.isOverridden && " *"}
+    </span>
+  );
 }
 
 export default function GoalSelection() {
@@ -45,16 +88,27 @@ export default function GoalSelection() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, setLocation] = useLocation();
+  // Planning a specific week (YYYY-MM-DD) instead of the current one
+  const weekStartParam = new URLSearchParams(useSearch()).get("weekStart");
   const [selectedGoals, setSelectedGoals] = useState<Record<string, string[]>>({});
   const [showRecommendations, setShowRecommendations] = useState(false);
+  const [planTemplateOpen, setPlanTemplateOpen] = useState(false);
+  const [categoryManagerOpen, setCategoryManagerOpen] = useState(false);
+  const [categoryErrors, setCategoryErrors] = useState<Record<string, string[]>>({});
+  const [selectionPrefilled, setSelectionPrefilled] = useState(false);
+  const [swapTarget, setSwapTarget] = useState<PlannedGoal | null>(null);
+  const [effortGoal, setEffortGoal] = useState<SelectableGoal | null>(null);
+  const [deletingGoal, setDeletingGoal] = useState<SelectableGoal | null>(null);
   const [customGoalForm, setCustomGoalForm] = useState<{
     isOpen: boolean;
     categoryId: string;
     categoryName: string;
+    goal: SelectableGoal | null;
   }>({
     isOpen: false,
     categoryId: "",
     categoryName: "",
+    goal: null,
   });
 
   useEffect(() => {
@@ -77,8 +131,22 @@ export default function GoalSelection() {
     retry: false,
   });
 
-  const { data: allGoals, isLoading: goalsLoading } = useQuery<Goal[][]>({
-    queryKey: ["/api/goals/all"],
+  const { data: planTemplate = DEFAULT_PLAN_TEMPLATE, isLoading: planTemplateLoading } = useQuery<PlanTemplate>({
+    queryKey: ["/api/user/plan-template"],
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const activeCategories = categories ? getActiveCategories(planTemplate, categories) : [];
+  const maxPerCategory = planTemplate.maxGoalsPerCategory;
+  const minPerCategory = planTemplate.minGoalsPerCategory;
+  const perCategoryLabel = minPerCategory === maxPerCategory
+    ? `${maxPerCategory}`
+    : `${minPerCategory}-${maxPerCategory}`;
+
+  const { data: allGoals, isLoading: goalsLoading } = useQuery<SelectableGoal[][]>({
+    // Keyed by the category list too, so goals always line up with the categories they were fetched for
+    queryKey: ["/api/goals/all", categories?.map(category => category.id).join(",")],
     queryFn: async () => {
       if (!categories) return [];
       const goalPromises = categories.map(async category => {
@@ -91,6 +159,30 @@ export default function GoalSelection() {
     retry: false,
   });
 
+  const { data: weekGoals, isLoading: weekGoalsLoading } = useQuery<PlannedGoal[]>({
+    queryKey: ["/api/user/goals/week", weekStartParam ?? "current"],
+    queryFn: async () => {
+      const query = weekStartParam ? `?weekStart=${weekStartParam}` : "";
+      const response = await apiRequest("GET", `/api/user/goals/week${query}`);
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  const isWeekPlanned = !!weekGoals && weekGoals.length > 0;
+  const plannedByGoalId = new Map((weekGoals || []).map(userGoal => [userGoal.goalId, userGoal]));
+
+  // Start from the current plan so saving only changes the goals the user touched
+  useEffect(() => {
+    if (selectionPrefilled || !weekGoals) return;
+    setSelectedGoals(weekGoals.reduce<Record<string, string[]>>((selection, userGoal) => {
+      (selection[userGoal.goal.categoryId] ||= []).push(userGoal.goalId);
+      return selection;
+    }, {}));
+    setSelectionPrefilled(true);
+  }, [weekGoals, selectionPrefilled]);
+
   const { data: recommendations, isLoading: recommendationsLoading } = useQuery<Recommendation[]>({
     queryKey: ["/api/goals/recommendations"],
     enabled: isAuthenticated && showRecommendations,
@@ -101,15 +193,22 @@ export default function GoalSelection() {
     mutationFn: async (goalIds: string[]) => {
       const response = await apiRequest("POST", "/api/user/select-goals", {
         goalIds,
+        weekStart: weekStartParam ?? undefined,
       });
       return response.json();
     },
     onSuccess: () => {
+      setCategoryErrors({});
       toast({
         title: "Success",
-        description: "Your weekly goals have been selected!",
+        description: isWeekPlanned
+          ? "Your weekly goals have been updated!"
+          : "Your weekly goals have been selected!",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
       queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
       setLocation("/");
     },
@@ -125,6 +224,16 @@ export default function GoalSelection() {
         }, 500);
         return;
       }
+      if (error instanceof ApiError && error.status === 400 && error.data) {
+        // Show per-category problems inline next to each category
+        setCategoryErrors(error.data.categoryErrors || {});
+        toast({
+          title: "Check your selection",
+          description: error.data.errors?.length ? error.data.errors.join(". ") : error.data.message,
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
         description: "Failed to select goals",
@@ -133,27 +242,123 @@ export default function GoalSelection() {
     },
   });
 
-  const getCategoryIcon = (categoryName: string) => {
-    const iconMap: Record<string, string> = {
-      'Personal': personalIcon,
-      'Inner Peace': innerPeaceIcon,
-      'Health': healthIcon,
-      'Family': familyIcon,
-      'Career': careerIcon,
-      'Fun': funIcon,
-    };
-    return iconMap[categoryName] || personalIcon;
+  const deleteGoalMutation = useMutation({
+    mutationFn: async (goal: SelectableGoal) => {
+      const response = await apiRequest("DELETE", `/api/goals/${goal.id}`);
+      return response.json() as Promise<{ goalId: string; result: "deleted" | "archived" }>;
+    },
+    onSuccess: ({ result }, goal) => {
+      // Goals already planned this week stay selected; anything else is dropped from the draft
+      if (!plannedByGoalId.has(goal.id)) {
+        setSelectedGoals(prev => ({
+          ...prev,
+          [goal.categoryId]: (prev[goal.categoryId] || []).filter(id => id !== goal.id),
+        }));
+      }
+      setDeletingGoal(null);
+      toast({
+        title: result === "archived" ? "Goal Archived" : "Goal Deleted",
+        description: result === "archived"
+          ? "It won't be offered again, but your past weeks still include it."
+          : "The goal has been removed.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals/all"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/goals/recommendations"] });
+    },
+    onError: (error) => {
+      setDeletingGoal(null);
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to delete custom goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const swapGoalMutation = useMutation({
+    mutationFn: async ({ userGoalId, goalId }: { userGoalId: string; goalId: string }) => {
+      const response = await apiRequest("PATCH", `/api/user-goals/${userGoalId}`, { goalId });
+      return response.json();
+    },
+    onSuccess: (_, { goalId }) => {
+      if (swapTarget) {
+        const { categoryId } = swapTarget.goal;
+        const previousGoalId = swapTarget.goalId;
+        setSelectedGoals(prev => ({
+          ...prev,
+          [categoryId]: (prev[categoryId] || []).map(id => id === previousGoalId ? goalId : id),
+        }));
+        clearCategoryErrors(categoryId);
+      }
+      setSwapTarget(null);
+      toast({
+        title: "Goal Swapped",
+        description: "The rest of your week is unchanged.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/streaks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/xp"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      if (error instanceof ApiError && error.data && (error.status === 400 || error.status === 409)) {
+        setCategoryErrors(prev => ({ ...prev, ...(error.data.categoryErrors || {}) }));
+        toast({
+          title: "Can't swap this goal",
+          description: error.data.errors?.length ? error.data.errors.join(". ") : error.data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to swap goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const clearCategoryErrors = (categoryId: string) => {
+    setCategoryErrors(prev => {
+      if (!prev[categoryId]) return prev;
+      const { [categoryId]: _cleared, ...rest } = prev;
+      return rest;
+    });
   };
 
   const handleGoalToggle = (categoryId: string, goalId: string, checked: boolean) => {
+    clearCategoryErrors(categoryId);
     setSelectedGoals(prev => {
       const categoryGoals = prev[categoryId] || [];
       
       if (checked) {
-        if (categoryGoals.length >= 2) {
+        if (categoryGoals.length >= maxPerCategory) {
           toast({
             title: "Limit Reached",
-            description: "You can only select 2 goals per category",
+            description: `You can only select ${maxPerCategory} goals per category`,
             variant: "destructive",
           });
           return prev;
@@ -171,30 +376,51 @@ export default function GoalSelection() {
     });
   };
 
+  // While swapping, picking a goal in that category replaces the planned one in place
+  const handleGoalClick = (categoryId: string, goalId: string, isSelected: boolean) => {
+    if (swapTarget && swapTarget.goal.categoryId === categoryId) {
+      if (!plannedByGoalId.has(goalId) && !swapGoalMutation.isPending) {
+        swapGoalMutation.mutate({ userGoalId: swapTarget.id, goalId });
+      }
+      return;
+    }
+    handleGoalToggle(categoryId, goalId, !isSelected);
+  };
+
   const getTotalSelectedGoals = () => {
     return Object.values(selectedGoals).reduce((total, goals) => total + goals.length, 0);
   };
 
+  // Estimated weekly time for the goals picked in active categories
+  const getSelectedMinutes = () => {
+    const effortByGoalId = new Map((allGoals || []).flat().map(goal => [goal.id, goal.effort]));
+    return activeCategories
+      .flatMap(category => selectedGoals[category.id] || [])
+      .reduce((total, goalId) => total + (effortByGoalId.get(goalId)?.estimatedWeeklyMinutes ?? 0), 0);
+  };
+
   const canSubmit = () => {
-    if (!categories) return false;
+    if (activeCategories.length === 0) return false;
     
-    // Check if each category has exactly 2 goals selected
-    return categories.every(category => {
+    // Check each active category is within the plan's per-category limits
+    return activeCategories.every(category => {
       const categoryGoals = selectedGoals[category.id] || [];
-      return categoryGoals.length === 2;
+      return categoryGoals.length >= minPerCategory && categoryGoals.length <= maxPerCategory;
     });
   };
 
   const handleSubmit = () => {
-    const allSelectedGoals = Object.values(selectedGoals).flat();
+    // Drop selections left over from categories that were deactivated
+    const allSelectedGoals = activeCategories.flatMap(category => selectedGoals[category.id] || []);
     selectGoalsMutation.mutate(allSelectedGoals);
   };
 
-  const openCustomGoalForm = (categoryId: string, categoryName: string) => {
+  const openCustomGoalForm = (categoryId: string, categoryName: string, goal: SelectableGoal | null = null) => {
     setCustomGoalForm({
       isOpen: true,
       categoryId,
       categoryName,
+      goal,
     });
   };
 
@@ -203,6 +429,7 @@ export default function GoalSelection() {
       isOpen: false,
       categoryId: "",
       categoryName: "",
+      goal: null,
     });
   };
 
@@ -217,10 +444,10 @@ export default function GoalSelection() {
     
     // Check if we can add this goal
     const categoryGoals = selectedGoals[categoryId] || [];
-    if (categoryGoals.length >= 2) {
+    if (categoryGoals.length >= maxPerCategory) {
       toast({
         title: "Category Full",
-        description: `You already have 2 goals selected for ${goal.category.name}`,
+        description: `You already have ${maxPerCategory} goals selected for ${goal.category.name}`,
         variant: "destructive",
       });
       return;
@@ -236,6 +463,7 @@ export default function GoalSelection() {
     }
 
     // Add the goal to selected goals
+    clearCategoryErrors(categoryId);
     setSelectedGoals(prev => ({
       ...prev,
       [categoryId]: [...categoryGoals, goalId],
@@ -247,7 +475,25 @@ export default function GoalSelection() {
     });
   };
 
-  if (authLoading || categoriesLoading || goalsLoading) {
+  // Replace the selection with the recommended balanced week, keeping within each category's limit
+  const handleApplyRecommendations = (recs: Recommendation[]) => {
+    const selection = recs.reduce<Record<string, string[]>>((result, rec) => {
+      const categoryId = rec.goal.category.id;
+      const categoryGoals = (result[categoryId] ||= []);
+      if (isCategoryActive(planTemplate, categoryId) && categoryGoals.length < maxPerCategory) {
+        categoryGoals.push(rec.goalId);
+      }
+      return result;
+    }, {});
+    setCategoryErrors({});
+    setSelectedGoals(selection);
+    toast({
+      title: "Plan Applied",
+      description: "Review the recommended goals below, then save them for the week.",
+    });
+  };
+
+  if (authLoading || categoriesLoading || goalsLoading || planTemplateLoading || weekGoalsLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="w-8 h-8 gradient-bg rounded-lg flex items-center justify-center animate-pulse">
@@ -280,9 +526,27 @@ export default function GoalSelection() {
         <div className="mb-8">
           <div className="flex justify-between items-center mb-4">
             <h1 className="text-2xl font-bold text-foreground" data-testid="text-page-title">
-              Select Your Weekly Goals
+              {weekStartParam
+                ? `Plan the Week of ${toCalendarDate(weekStartParam).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`
+                : isWeekPlanned ? "Edit This Week's Goals" : "Select Your Weekly Goals"}
             </h1>
             <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setPlanTemplateOpen(true)}
+                data-testid="button-plan-settings"
+              >
+                <i className="fas fa-sliders-h mr-2"></i>
+                Plan Settings
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setCategoryManagerOpen(true)}
+                data-testid="button-manage-categories"
+              >
+                <i className="fas fa-tags mr-2"></i>
+                Categories
+              </Button>
               <Button
                 variant={showRecommendations ? "default" : "outline"}
                 onClick={() => setShowRecommendations(!showRecommendations)}
@@ -301,8 +565,18 @@ export default function GoalSelection() {
             </div>
           </div>
           <p className="text-muted-foreground">
-            Choose 2 goals from each category for this week ({getTotalSelectedGoals()}/12 selected)
+            Choose {perCategoryLabel} goals from each category for this week ({getTotalSelectedGoals()}/{activeCategories.length * maxPerCategory} selected)
           </p>
+          {getTotalSelectedGoals() > 0 && (
+            <p className="text-sm text-muted-foreground mt-1" data-testid="text-selected-load">
+              Estimated load: {formatWeeklyMinutes(getSelectedMinutes())}
+            </p>
+          )}
+          {isWeekPlanned && (
+            <p className="text-sm text-muted-foreground mt-1" data-testid="text-week-planned">
+              This week is already planned. Goals you keep stay as they are; use Swap to replace a single goal.
+            </p>
+          )}
         </div>
 
         {/* Recommendations Section */}
@@ -310,13 +584,35 @@ export default function GoalSelection() {
           <div className="mb-8">
             <Card>
               <CardContent className="p-6">
-                <div className="flex items-center mb-4">
-                  <div className="w-6 h-6 bg-gradient-to-r from-purple-500 to-pink-500 rounded mr-3 flex items-center justify-center">
-                    <i className="fas fa-sparkles text-white text-sm"></i>
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center">
+                    <div className="w-6 h-6 bg-gradient-to-r from-purple-500 to-pink-500 rounded mr-3 flex items-center justify-center">
+                      <i className="fas fa-sparkles text-white text-sm"></i>
+                    </div>
+                    <div>
+                      <h2 className="text-xl font-semibold text-foreground">
+                        Personalized Goal Recommendations
+                      </h2>
+                      {recommendations && recommendations.length > 0 && (
+                        <p className="text-xs text-muted-foreground" data-testid="text-recommended-load">
+                          A balanced week of about {formatWeeklyMinutes(
+                            recommendations.reduce((total, rec) => total + rec.effort.estimatedWeeklyMinutes, 0)
+                          )}
+                        </p>
+                      )}
+                    </div>
                   </div>
-                  <h2 className="text-xl font-semibold text-foreground">
-                    Personalized Goal Recommendations
-                  </h2>
+                  {recommendations && recommendations.length > 0 && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleApplyRecommendations(recommendations)}
+                      data-testid="button-apply-recommendations"
+                    >
+                      <i className="fas fa-magic mr-1 text-xs"></i>
+                      Use This Plan
+                    </Button>
+                  )}
                 </div>
                 
                 {recommendationsLoading ? (
@@ -326,19 +622,18 @@ export default function GoalSelection() {
                   </div>
                 ) : recommendations && recommendations.length > 0 ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {recommendations.slice(0, 8).map((rec) => (
+                    {recommendations.map((rec) => (
                       <div
                         key={rec.goalId}
                         className="p-4 bg-accent bg-opacity-30 rounded-lg border border-accent hover:border-primary transition-colors"
                       >
                         <div className="flex justify-between items-start mb-2">
                           <div className="flex items-center">
-                            <div className={`w-4 h-4 category-${rec.goal.category.color} rounded mr-2 flex items-center justify-center`}>
-                              <img 
-                                src={getCategoryIcon(rec.goal.category.name)} 
-                                alt={`${rec.goal.category.name} icon`}
-                                className="w-3 h-3 object-contain"
-                              />
+                            <div
+                              className={`w-4 h-4 ${getCategoryColorProps(rec.goal.category.color).className} rounded mr-2 flex items-center justify-center`}
+                              style={getCategoryColorProps(rec.goal.category.color).style}
+                            >
+                              <CategoryIcon category={rec.goal.category} className="w-3 h-3 text-[8px] object-contain" />
                             </div>
                             <span className="text-xs font-medium text-muted-foreground">
                               {rec.goal.category.name}
@@ -349,7 +644,8 @@ export default function GoalSelection() {
                             variant="outline"
                             onClick={() => handleSelectRecommendation(rec)}
                             disabled={
-                              (selectedGoals[rec.goal.category.id] || []).length >= 2 ||
+                              !isCategoryActive(planTemplate, rec.goal.category.id) ||
+                              (selectedGoals[rec.goal.category.id] || []).length >= maxPerCategory ||
                               (selectedGoals[rec.goal.category.id] || []).includes(rec.goalId)
                             }
                             className="min-h-[44px] md:min-h-[32px] px-4 md:px-3 text-sm md:text-xs touch-manipulation"
@@ -362,6 +658,9 @@ export default function GoalSelection() {
                         <p className="text-sm text-foreground mb-2">
                           {rec.goal.description}
                         </p>
+                        <div className="mb-2">
+                          <EffortBadge effort={rec.effort} />
+                        </div>
                         <div className="flex items-center">
                           <i className="fas fa-info-circle text-xs text-primary mr-1"></i>
                           <span className="text-xs text-muted-foreground">
@@ -386,23 +685,27 @@ export default function GoalSelection() {
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           {categories.map((category, categoryIndex) => {
-            const categoryGoals = allGoals[categoryIndex] || [];
+            if (!isCategoryActive(planTemplate, category.id)) return null;
+
+            // Archived goals only show up in weeks that already plan them
+            const categoryGoals = (allGoals[categoryIndex] || [])
+              .filter(goal => !goal.archivedAt || plannedByGoalId.has(goal.id));
             const selectedInCategory = selectedGoals[category.id] || [];
+            const isSwapping = swapTarget?.goal.categoryId === category.id;
             
             return (
               <Card key={category.id} className="hover-lift">
                 <CardContent className="p-6">
                   <div className="flex items-center justify-between mb-4">
                     <div className="flex items-center">
-                      <div className={`w-6 h-6 category-${category.color} rounded mr-3 flex items-center justify-center`}>
-                        <img 
-                          src={getCategoryIcon(category.name)} 
-                          alt={`${category.name} icon`}
-                          className="w-4 h-4 object-contain"
-                        />
+                      <div
+                        className={`w-6 h-6 ${getCategoryColorProps(category.color).className} rounded mr-3 flex items-center justify-center`}
+                        style={getCategoryColorProps(category.color).style}
+                      >
+                        <CategoryIcon category={category} className="w-4 h-4 text-xs object-contain" />
                       </div>
                       <h3 className="font-semibold text-foreground text-lg">
-                        {category.name} Goals ({selectedInCategory.length}/2 selected)
+                        {category.name} Goals ({selectedInCategory.length}/{maxPerCategory} selected)
                       </h3>
                     </div>
                     <Button
@@ -415,11 +718,47 @@ export default function GoalSelection() {
                       Add Custom
                     </Button>
                   </div>
+
+                  {isSwapping && swapTarget && (
+                    <div
+                      className="mb-4 flex items-center justify-between rounded-lg border border-primary/50 bg-primary/10 p-3 text-sm text-foreground"
+                      data-testid={`text-swap-prompt-${category.name.toLowerCase().replace(' ', '-')}`}
+                    >
+                      <span>
+                        Pick a goal to replace "{swapTarget.goal.description}".
+                        {swapTarget.completed && " Its progress this week will be reset."}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSwapTarget(null)}
+                        disabled={swapGoalMutation.isPending}
+                        data-testid="button-cancel-swap"
+                      >
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+
+                  {categoryErrors[category.id] && (
+                    <div
+                      className="mb-4 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive"
+                      role="alert"
+                      data-testid={`text-category-error-${category.name.toLowerCase().replace(' ', '-')}`}
+                    >
+                      {categoryErrors[category.id].map((message) => (
+                        <p key={message}>{message}</p>
+                      ))}
+                    </div>
+                  )}
                   
                   <div className="space-y-3" data-testid={`list-goals-${category.name.toLowerCase().replace(' ', '-')}`}>
                     {categoryGoals.map((goal) => {
                       const isSelected = selectedInCategory.includes(goal.id);
-                      const isDisabled = !isSelected && selectedInCategory.length >= 2;
+                      const plannedGoal = plannedByGoalId.get(goal.id);
+                      const isDisabled = isSwapping
+                        ? !!plannedGoal
+                        : !isSelected && selectedInCategory.length >= maxPerCategory;
                       
                       return (
                         <div
@@ -433,7 +772,7 @@ export default function GoalSelection() {
                           }`}
                           onClick={() => {
                             if (!isDisabled) {
-                              handleGoalToggle(category.id, goal.id, !isSelected);
+                              handleGoalClick(category.id, goal.id, isSelected);
                             }
                           }}
                           role="button"
@@ -441,7 +780,7 @@ export default function GoalSelection() {
                           onKeyDown={(e) => {
                             if ((e.key === 'Enter' || e.key === ' ') && !isDisabled) {
                               e.preventDefault();
-                              handleGoalToggle(category.id, goal.id, !isSelected);
+                              handleGoalClick(category.id, goal.id, isSelected);
                             }
                           }}
                           aria-pressed={isSelected}
@@ -459,7 +798,76 @@ export default function GoalSelection() {
                           />
                           <span className={`text-sm md:text-sm flex-1 ${isSelected ? 'text-foreground font-medium' : 'text-muted-foreground'}`}>
                             {goal.description}
+                            {goal.archivedAt && (
+                              <span className="ml-2 text-xs text-muted-foreground">(archived)</span>
+                            )}
                           </span>
+                          <EffortBadge effort={goal.effort} />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="p-1 h-auto"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEffortGoal(goal);
+                            }}
+                            onKeyDown={(e) => e.stopPropagation()}
+                            aria-label={`Adjust effort: ${goal.description}`}
+                            data-testid={`button-adjust-effort-${goal.id}`}
+                          >
+                            <i className="fas fa-sliders-h text-xs text-muted-foreground"></i>
+                          </Button>
+                          {goal.isCustom && !goal.archivedAt && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="p-1 h-auto"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  openCustomGoalForm(category.id, category.name, goal);
+                                }}
+                                onKeyDown={(e) => e.stopPropagation()}
+                                aria-label={`Edit goal: ${goal.description}`}
+                                data-testid={`button-edit-goal-${goal.id}`}
+                              >
+                                <i className="fas fa-pen text-xs text-muted-foreground"></i>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="p-1 h-auto"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setDeletingGoal(goal);
+                                }}
+                                onKeyDown={(e) => e.stopPropagation()}
+                                aria-label={`Delete goal: ${goal.description}`}
+                                data-testid={`button-delete-goal-${goal.id}`}
+                              >
+                                <i className="fas fa-trash text-xs text-muted-foreground"></i>
+                              </Button>
+                            </>
+                          )}
+                          {plannedGoal?.completed && (
+                            <i className="fas fa-check-circle text-green-500" title="Completed this week"></i>
+                          )}
+                          {plannedGoal && !isSwapping && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setSwapTarget(plannedGoal);
+                              }}
+                              onKeyDown={(e) => e.stopPropagation()}
+                              disabled={!!swapTarget}
+                              data-testid={`button-swap-goal-${goal.id}`}
+                            >
+                              <i className="fas fa-exchange-alt mr-1 text-xs"></i>
+                              Swap
+                            </Button>
+                          )}
                         </div>
                       );
                     })}
@@ -484,7 +892,7 @@ export default function GoalSelection() {
                 Saving Goals...
               </>
             ) : (
-              'Save Goals for This Week'
+              isWeekPlanned ? 'Update Goals for This Week' : 'Save Goals for This Week'
             )}
           </Button>
         </div>
@@ -492,7 +900,7 @@ export default function GoalSelection() {
         {!canSubmit() && getTotalSelectedGoals() > 0 && (
           <div className="text-center mt-4">
             <p className="text-sm text-muted-foreground">
-              Please select exactly 2 goals from each category to continue
+              Please select {perCategoryLabel} goals from each active category to continue
             </p>
           </div>
         )}
@@ -500,10 +908,50 @@ export default function GoalSelection() {
         <CustomGoalForm
           categoryId={customGoalForm.categoryId}
           categoryName={customGoalForm.categoryName}
+          goal={customGoalForm.goal}
           isOpen={customGoalForm.isOpen}
           onClose={closeCustomGoalForm}
           onSuccess={handleCustomGoalSuccess}
         />
+
+        <GoalEffortForm
+          goal={effortGoal}
+          onClose={() => setEffortGoal(null)}
+        />
+
+        <PlanTemplateForm
+          template={planTemplate}
+          categories={categories}
+          isOpen={planTemplateOpen}
+          onClose={() => setPlanTemplateOpen(false)}
+        />
+
+        <CategoryManager
+          isOpen={categoryManagerOpen}
+          onClose={() => setCategoryManagerOpen(false)}
+        />
+
+        <AlertDialog open={!!deletingGoal} onOpenChange={(open) => !open && setDeletingGoal(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this goal?</AlertDialogTitle>
+              <AlertDialogDescription>
+                "{deletingGoal?.description}" will no longer be offered. If you've planned it before,
+                it's archived instead so your past weeks and analytics keep it.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-cancel-delete-goal">Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deletingGoal && deleteGoalMutation.mutate(deletingGoal)}
+                disabled={deleteGoalMutation.isPending}
+                data-testid="button-confirm-delete-goal"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </main>
     </div>
   );
@@ -0,0 +1,142 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import AppHeader from "@/components/app-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import TwoFactorSettings from "@/components/two-factor-settings";
+import ActiveSessions from "@/components/active-sessions";
+import { format } from "date-fns";
+import type { UserStreaks } from "@shared/streaks";
+
+interface UserBadge {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  earnedAt: string | null;
+}
+
+export default function Profile() {
+  const { user, isAuthenticated } = useAuth();
+
+  const { data: badges, isLoading: badgesLoading } = useQuery<UserBadge[]>({
+    queryKey: ["/api/user/badges"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: streaks } = useQuery<UserStreaks>({
+    queryKey: ["/api/user/streaks"],
+    enabled: isAuthenticated,
+  });
+
+  const getDisplayName = () => {
+    if (user?.firstName && user?.lastName) {
+      return `${user.firstName} ${user.lastName}`;
+    }
+    return user?.firstName || user?.email || "User";
+  };
+
+  const getInitials = () => {
+    if (user?.firstName && user?.lastName) {
+      return `${user.firstName[0]}${user.lastName[0]}`.toUpperCase();
+    }
+    return user?.email?.[0]?.toUpperCase() || "U";
+  };
+
+  const earnedBadges = badges?.filter(badge => badge.earnedAt) || [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader user={user} />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Profile Summary */}
+        <section className="mb-8">
+          <Card>
+            <CardContent className="p-6 flex flex-col md:flex-row md:items-center gap-6">
+              <Avatar className="w-20 h-20">
+                <AvatarImage src={user?.profileImageUrl || ""} alt="Profile" />
+                <AvatarFallback className="text-2xl">{getInitials()}</AvatarFallback>
+              </Avatar>
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold text-foreground" data-testid="text-profile-name">
+                  {getDisplayName()}
+                </h1>
+                <p className="text-muted-foreground">{user?.email}</p>
+              </div>
+              <div className="flex gap-6">
+                <div className="text-center">
+                  <div className="text-2xl font-bold text-primary" data-testid="text-badge-count">
+                    {earnedBadges.length}/{badges?.length ?? 0}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Badges</div>
+                </div>
+                {streaks && (
+                  <div className="text-center">
+                    <div className="text-2xl font-bold text-orange-500" data-testid="text-longest-streak">
+                      🔥 {streaks.overall.longest}
+                    </div>
+                    <div className="text-xs text-muted-foreground">Longest Streak</div>
+                  </div>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Badges Gallery */}
+        <section className="mb-8">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <i className="fas fa-award text-secondary"></i>
+                Badges
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {badgesLoading ? (
+                <div className="text-center py-8 text-muted-foreground">Loading badges...</div>
+              ) : (
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4" data-testid="grid-badges">
+                  {badges?.map(badge => (
+                    <div
+                      key={badge.id}
+                      className={`p-4 rounded-lg border text-center transition-all ${
+                        badge.earnedAt
+                          ? 'bg-gradient-to-br from-amber-50 to-orange-50 dark:from-amber-900/20 dark:to-orange-900/20 border-amber-200 dark:border-amber-700 shadow-md'
+                          : 'bg-muted/40 border-border opacity-60'
+                      }`}
+                      data-testid={`badge-${badge.id}`}
+                    >
+                      <div
+                        className={`w-14 h-14 mx-auto mb-3 rounded-full flex items-center justify-center ${
+                          badge.earnedAt ? 'success-gradient text-white shadow-lg' : 'bg-border text-muted-foreground'
+                        }`}
+                      >
+                        <i className={`fas ${badge.earnedAt ? badge.icon : 'fa-lock'} text-xl`}></i>
+                      </div>
+                      <h3 className="font-semibold text-sm text-foreground">{badge.name}</h3>
+                      <p className="text-xs text-muted-foreground mt-1">{badge.description}</p>
+                      {badge.earnedAt && (
+                        <Badge variant="secondary" className="mt-2 text-xs">
+                          {format(new Date(badge.earnedAt), "MMM d, yyyy")}
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </section>
+
+        {/* Security */}
+        <section className="mb-8 space-y-8">
+          <TwoFactorSettings />
+          <ActiveSessions />
+        </section>
+      </main>
+    </div>
+  );
+}
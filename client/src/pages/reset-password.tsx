@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useLocation, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, ApiError, removeStoredToken } from "@/lib/queryClient";
+import { Eye, EyeOff, Lock } from "lucide-react";
+import goalFlowIcon from "@/assets/goalflow-icon.png";
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const [, setLocation] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [showPassword, setShowPassword] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("POST", "/api/auth/reset-password", { token, password: value });
+    },
+    onSuccess: () => {
+      // Every session was signed out, this one included
+      removeStoredToken();
+      queryClient.setQueryData(["/api/auth/user"], null);
+      toast({
+        title: "Password Updated",
+        description: "Sign in with your new password.",
+      });
+      setLocation("/");
+    },
+    onError: (error) => {
+      toast({
+        title: "Reset Failed",
+        description: (error instanceof ApiError && error.data?.message) || "The link may have expired. Request a new one.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 8) {
+      toast({
+        title: "Password Too Short",
+        description: "Password must be at least 8 characters long.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (password !== confirmPassword) {
+      toast({
+        title: "Passwords Don't Match",
+        description: "Enter the same password in both fields.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    resetPasswordMutation.mutate(password);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <img
+            src={goalFlowIcon}
+            alt="makeprogress Logo"
+            className="w-16 h-16 mx-auto"
+          />
+          <div>
+            <CardTitle className="text-2xl font-bold">Choose a new password</CardTitle>
+            <CardDescription>
+              {token
+                ? "You'll be signed out on every device once it's changed."
+                : "This reset link is incomplete. Request a new one."}
+            </CardDescription>
+          </div>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          {token ? (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">New Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    placeholder="At least 8 characters"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10 pr-10"
+                    required
+                    minLength={8}
+                    data-testid="input-password"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                    onClick={() => setShowPassword(!showPassword)}
+                    data-testid="button-toggle-password"
+                  >
+                    {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="confirmPassword"
+                    type={showPassword ? "text" : "password"}
+                    placeholder="Repeat the new password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="pl-10"
+                    required
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={resetPasswordMutation.isPending}
+                data-testid="button-reset-password"
+              >
+                {resetPasswordMutation.isPending ? "Updating..." : "Update Password"}
+              </Button>
+            </form>
+          ) : (
+            <Button asChild className="w-full">
+              <Link href="/forgot-password" data-testid="link-request-new-reset">Request a new link</Link>
+            </Button>
+          )}
+          <div className="text-center text-sm">
+            <Link href="/" className="text-primary hover:underline" data-testid="link-back-to-sign-in">
+              Back to sign in
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -113,6 +113,7 @@ export default function Social() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/friends/requests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/friends"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/badges"] });
       toast({
         title: "Friend Request Updated",
         description: "Friend request has been updated successfully.",
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearch } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import goalFlowIcon from "@/assets/goalflow-icon.png";
+
+export default function VerifyEmail() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const queryClient = useQueryClient();
+  // Links are single use, so the token must only be submitted once per page load
+  const submitted = useRef(false);
+
+  const verifyEmailMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("POST", "/api/auth/verify-email", { token: value });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token && !submitted.current) {
+      submitted.current = true;
+      verifyEmailMutation.mutate(token);
+    }
+  }, [token]);
+
+  const { title, description } = !token
+    ? { title: "Invalid link", description: "This verification link is incomplete." }
+    : verifyEmailMutation.isSuccess
+      ? { title: "Email verified", description: "Thanks for confirming your email address." }
+      : verifyEmailMutation.isError
+        ? {
+            title: "Verification failed",
+            description: `${(verifyEmailMutation.error instanceof ApiError && verifyEmailMutation.error.data?.message) || "The link is invalid or has expired"}. Sign in to send a new one.`,
+          }
+        : { title: "Verifying your email...", description: "This only takes a moment." };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-4">
+          <img
+            src={goalFlowIcon}
+            alt="makeprogress Logo"
+            className={`w-16 h-16 mx-auto ${verifyEmailMutation.isPending ? "animate-pulse" : ""}`}
+          />
+          <div>
+            <CardTitle className="text-2xl font-bold" data-testid="text-verify-email-title">{title}</CardTitle>
+            <CardDescription>{description}</CardDescription>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <Button asChild className="w-full" disabled={verifyEmailMutation.isPending}>
+            <Link href="/" data-testid="link-continue">Continue to makeprogress</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,450 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import AppHeader from "@/components/app-header";
+import CategoryIcon, { getCategoryColorProps } from "@/components/category-icon";
+import { RatingPicker, MOOD_LABELS, ENERGY_LABELS } from "@/components/weekly-reflection-card";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLocation, useSearch } from "wouter";
+import type { GoalProgress } from "@shared/progress";
+import type { ReviewAction, ReviewDecision } from "@shared/review";
+import { getWeekDates, toCalendarDate } from "@shared/week";
+
+interface Category {
+  id: string;
+  name: string;
+  icon: string | null;
+  color: string | null;
+}
+
+interface ReviewGoal {
+  userGoalId: string;
+  goalId: string;
+  completed: boolean;
+  note: string | null;
+  goal: {
+    id: string;
+    categoryId: string;
+    description: string;
+    category: Category;
+  };
+  progress: GoalProgress;
+}
+
+interface ReviewData {
+  weekStart: string;
+  nextWeekStart: string;
+  nextWeekEditable: boolean;
+  totalGoals: number;
+  completedGoals: number;
+  progressPercentage: number;
+  achievement: { level: string } | null;
+  goals: ReviewGoal[];
+  reflection: { content: string | null; mood: number | null; energy: number | null } | null;
+  nextWeekGoalIds: string[];
+}
+
+interface CategoryGoal {
+  id: string;
+  description: string;
+  archivedAt: string | null;
+}
+
+type ReviewStep = "summary" | "reflect" | "plan";
+
+const REVIEW_STEPS: { step: ReviewStep; label: string }[] = [
+  { step: "summary", label: "How it went" },
+  { step: "reflect", label: "Reflect" },
+  { step: "plan", label: "Plan next week" },
+];
+
+const ACTION_LABELS: Record<ReviewAction, { label: string; icon: string }> = {
+  keep: { label: "Keep", icon: "fa-check" },
+  drop: { label: "Drop", icon: "fa-times" },
+  adjust: { label: "Adjust", icon: "fa-exchange-alt" },
+};
+
+function formatWeekRange(weekStart: string) {
+  const weekDates = getWeekDates(weekStart);
+  const format = (date: string) => toCalendarDate(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  return `${format(weekDates[0])} - ${format(weekDates[6])}`;
+}
+
+// Other goals from the same category to swap in when adjusting
+function ReplacementGoalSelect({
+  reviewGoal,
+  value,
+  onChange,
+  disabled,
+}: {
+  reviewGoal: ReviewGoal;
+  value: string | undefined;
+  onChange: (goalId: string) => void;
+  disabled: boolean;
+}) {
+  const { data: goals = [], isLoading } = useQuery<CategoryGoal[]>({
+    queryKey: ["/api/categories", reviewGoal.goal.categoryId, "goals"],
+    retry: false,
+  });
+  const options = goals.filter(goal => goal.id !== reviewGoal.goalId && !goal.archivedAt);
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled || isLoading}>
+      <SelectTrigger data-testid={`select-replacement-${reviewGoal.userGoalId}`}>
+        <SelectValue placeholder={isLoading ? "Loading goals..." : "Choose a replacement goal"} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(goal => (
+          <SelectItem key={goal.id} value={goal.id}>{goal.description}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export default function WeeklyReview() {
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
+  // Reviewing a specific week (YYYY-MM-DD) instead of the current one
+  const weekStartParam = new URLSearchParams(useSearch()).get("weekStart");
+  const [step, setStep] = useState<ReviewStep>("summary");
+  const [content, setContent] = useState("");
+  const [mood, setMood] = useState<number | null>(null);
+  const [energy, setEnergy] = useState<number | null>(null);
+  const [decisions, setDecisions] = useState<Record<string, ReviewDecision>>({});
+  const [planErrors, setPlanErrors] = useState<string[]>([]);
+
+  const { data: review, isLoading, error } = useQuery<ReviewData>({
+    queryKey: ["/api/user/review", weekStartParam ?? "current"],
+    queryFn: async () => {
+      const query = weekStartParam ? `?weekStart=${weekStartParam}` : "";
+      const response = await apiRequest("GET", `/api/user/review${query}`);
+      return response.json();
+    },
+    enabled: isAuthenticated,
+    retry: false,
+  });
+
+  useEffect(() => {
+    setContent(review?.reflection?.content ?? "");
+    setMood(review?.reflection?.mood ?? null);
+    setEnergy(review?.reflection?.energy ?? null);
+  }, [review?.reflection]);
+
+  const completeReviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/review", {
+        weekStart: weekStartParam ?? undefined,
+        reflection: { content: content.trim() || null, mood, energy },
+        decisions: Object.values(decisions),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      setPlanErrors([]);
+      toast({
+        title: "Review Complete",
+        description: "Your reflection is saved and next week is planned.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/review"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/reflection"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/weekly-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/progress"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user/goals/week"] });
+      setLocation("/");
+    },
+    onError: (error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      if (error instanceof ApiError && error.status === 400 && error.data) {
+        const categoryErrors = Object.values(error.data.categoryErrors || {}) as string[][];
+        setPlanErrors([...(error.data.errors || []), ...categoryErrors.flat()]);
+        toast({
+          title: "Check next week's plan",
+          description: error.data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to complete weekly review",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setDecision = (userGoalId: string, action: ReviewAction) => {
+    setDecisions(prev => ({ ...prev, [userGoalId]: { userGoalId, action } }));
+  };
+
+  const setReplacement = (userGoalId: string, replacementGoalId: string) => {
+    setDecisions(prev => ({ ...prev, [userGoalId]: { userGoalId, action: "adjust", replacementGoalId } }));
+  };
+
+  const handleComplete = () => {
+    const missingReplacement = Object.values(decisions)
+      .some(decision => decision.action === "adjust" && !decision.replacementGoalId);
+    if (missingReplacement) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a replacement for every goal you're adjusting",
+        variant: "destructive",
+      });
+      return;
+    }
+    completeReviewMutation.mutate();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <i className="fas fa-spinner fa-spin text-2xl text-muted-foreground"></i>
+      </div>
+    );
+  }
+
+  if (!review) {
+    return (
+      <div className="min-h-screen bg-background">
+        <AppHeader />
+        <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card>
+            <CardContent className="p-6 text-center space-y-4">
+              <p className="text-muted-foreground">
+                {error instanceof ApiError && error.data?.message ? error.data.message : "This week can't be reviewed."}
+              </p>
+              <Button variant="outline" onClick={() => setLocation("/")} data-testid="button-review-back">
+                Back to Dashboard
+              </Button>
+            </CardContent>
+          </Card>
+        </main>
+      </div>
+    );
+  }
+
+  const stepIndex = REVIEW_STEPS.findIndex(reviewStep => reviewStep.step === step);
+  const isPending = completeReviewMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader />
+
+      <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Weekly Review</h1>
+          <p className="text-muted-foreground">{formatWeekRange(review.weekStart)}</p>
+        </div>
+
+        <div className="flex space-x-2" data-testid="review-steps">
+          {REVIEW_STEPS.map((reviewStep, index) => (
+            <div
+              key={reviewStep.step}
+              className={`flex-1 text-center text-sm py-2 rounded-lg border ${
+                index === stepIndex
+                  ? "border-primary bg-primary/10 text-primary font-medium"
+                  : index < stepIndex ? "border-border text-foreground" : "border-border text-muted-foreground"
+              }`}
+            >
+              {index + 1}. {reviewStep.label}
+            </div>
+          ))}
+        </div>
+
+        {step === "summary" && (
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <div className="text-2xl font-bold text-foreground" data-testid="text-review-completed">
+                    {review.completedGoals}/{review.totalGoals}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Goals completed</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-foreground">{review.progressPercentage}%</div>
+                  <div className="text-xs text-muted-foreground">Progress</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-foreground capitalize">
+                    {review.achievement?.level ?? "—"}
+                  </div>
+                  <div className="text-xs text-muted-foreground">Achievement</div>
+                </div>
+              </div>
+
+              <div className="space-y-2" data-testid="list-review-goals">
+                {review.goals.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center">No goals were planned this week.</p>
+                )}
+                {review.goals.map(reviewGoal => {
+                  const color = getCategoryColorProps(reviewGoal.goal.category.color);
+                  return (
+                    <div key={reviewGoal.userGoalId} className="flex items-center space-x-3 p-2 rounded-lg border">
+                      <div
+                        className={`w-8 h-8 ${color.className} rounded flex items-center justify-center flex-shrink-0`}
+                        style={color.style}
+                      >
+                        <CategoryIcon category={reviewGoal.goal.category} className="w-5 h-5 text-sm object-contain" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm text-foreground truncate">{reviewGoal.goal.description}</div>
+                        {reviewGoal.note && (
+                          <div className="text-xs text-muted-foreground truncate">{reviewGoal.note}</div>
+                        )}
+                      </div>
+                      <span className={`text-xs ${reviewGoal.completed ? "text-green-600" : "text-muted-foreground"}`}>
+                        {reviewGoal.completed ? (
+                          <><i className="fas fa-check-circle mr-1"></i>Done</>
+                        ) : (
+                          `${reviewGoal.progress.percentage}%`
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "reflect" && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="reviewReflection">How did this week go?</Label>
+                <Textarea
+                  id="reviewReflection"
+                  placeholder="What went well, what got in the way, what you'd change next week..."
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  maxLength={5000}
+                  rows={5}
+                  disabled={isPending}
+                  data-testid="input-review-reflection"
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label id="review-mood">Mood</Label>
+                  <RatingPicker id="review-mood" labels={MOOD_LABELS} value={mood} onChange={setMood} disabled={isPending} />
+                </div>
+                <div className="space-y-2">
+                  <Label id="review-energy">Energy</Label>
+                  <RatingPicker id="review-energy" labels={ENERGY_LABELS} value={energy} onChange={setEnergy} disabled={isPending} />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "plan" && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Decide what carries into the week of {formatWeekRange(review.nextWeekStart)}.
+                {review.nextWeekGoalIds.length > 0 && " This replaces the goals already planned for that week."}
+              </p>
+
+              {!review.nextWeekEditable && (
+                <p className="text-sm text-destructive">Next week can no longer be planned.</p>
+              )}
+
+              {review.goals.map(reviewGoal => {
+                const decision = decisions[reviewGoal.userGoalId];
+                const action = decision?.action ?? "keep";
+                return (
+                  <div key={reviewGoal.userGoalId} className="p-3 rounded-lg border space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="text-sm text-foreground">{reviewGoal.goal.description}</div>
+                      <div className="flex space-x-1 flex-shrink-0">
+                        {(Object.keys(ACTION_LABELS) as ReviewAction[]).map(option => (
+                          <Button
+                            key={option}
+                            size="sm"
+                            variant={action === option ? "default" : "outline"}
+                            onClick={() => setDecision(reviewGoal.userGoalId, option)}
+                            disabled={isPending}
+                            data-testid={`button-review-${option}-${reviewGoal.userGoalId}`}
+                          >
+                            <i className={`fas ${ACTION_LABELS[option].icon} mr-1`}></i>
+                            {ACTION_LABELS[option].label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                    {action === "adjust" && (
+                      <ReplacementGoalSelect
+                        reviewGoal={reviewGoal}
+                        value={decision?.replacementGoalId}
+                        onChange={(goalId) => setReplacement(reviewGoal.userGoalId, goalId)}
+                        disabled={isPending}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              {planErrors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5" data-testid="list-review-errors">
+                  {planErrors.map(planError => <li key={planError}>{planError}</li>)}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="flex justify-between">
+          <Button
+            variant="outline"
+            onClick={() => stepIndex === 0 ? setLocation("/") : setStep(REVIEW_STEPS[stepIndex - 1].step)}
+            disabled={isPending}
+            data-testid="button-review-previous"
+          >
+            {stepIndex === 0 ? "Cancel" : "Back"}
+          </Button>
+          {step === "plan" ? (
+            <Button
+              onClick={handleComplete}
+              disabled={isPending || !review.nextWeekEditable}
+              className="button-gradient text-white border-0 hover:opacity-90"
+              data-testid="button-review-complete"
+            >
+              {isPending ? (
+                <>
+                  <i className="fas fa-spinner fa-spin mr-2"></i>
+                  Saving...
+                </>
+              ) : (
+                'Finish Review'
+              )}
+            </Button>
+          ) : (
+            <Button onClick={() => setStep(REVIEW_STEPS[stepIndex + 1].step)} data-testid="button-review-next">
+              Next
+            </Button>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
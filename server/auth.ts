@@ -1,7 +1,23 @@
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
 import type { Express, Request, Response, NextFunction } from "express";
 import { storage } from "./storage";
+import { HttpError, TooManyRequestsError } from "./errors";
+import { sendEmail, getEmailTransport } from "./email";
+import {
+  consumeRateLimit,
+  assertNotLockedOut,
+  recordLoginFailure,
+  clearLoginFailures,
+  LOGIN_ACCOUNT_LIMIT,
+  TWO_FACTOR_LIMIT,
+  EMAIL_ADDRESS_LIMIT,
+  type RateLimitRule,
+} from "./rate-limit";
+import { isTwoFactorEnabled, verifySecondFactor } from "./two-factor";
+import { describeDevice } from "./user-agent";
+import type { AuthTokenPurpose, User } from "@shared/schema";
 
 // Validate JWT secret at startup
 if (!process.env.SESSION_SECRET || process.env.SESSION_SECRET.length < 32) {
@@ -10,12 +26,43 @@ if (!process.env.SESSION_SECRET || process.env.SESSION_SECRET.length < 32) {
 
 const JWT_SECRET = process.env.SESSION_SECRET;
 
-// Token blacklist for logout (in production, use Redis or database)
-const tokenBlacklist = new Set<string>();
+// Email links are built from APP_URL, never from the request's Host header, which the
+// client controls. Required in production; development falls back to the local server.
+if (process.env.NODE_ENV === "production" && !process.env.APP_URL) {
+  throw new Error("APP_URL environment variable must be set in production so email links point at the real site");
+}
+
+const APP_URL = (process.env.APP_URL || `http://localhost:${process.env.PORT || "5000"}`).replace(/\/+$/, "");
 
-// Generate shorter-lived tokens for better security
+// Short-lived access tokens, renewed with rotating refresh tokens
 const ACCESS_TOKEN_EXPIRY = "15m";
-const REFRESH_TOKEN_EXPIRY = "7d";
+const REFRESH_TOKEN_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Two tabs refreshing at once both present the same token. Within this window the
+// loser is turned away without treating it as theft; it picks up the winner's tokens.
+const REFRESH_REUSE_GRACE_MS = 10 * 1000;
+
+// A session's last-seen time is only written when it is at least this stale
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+// Time allowed between the password step and the authenticator code step
+const TWO_FACTOR_CHALLENGE_EXPIRY = "5m";
+const TWO_FACTOR_CHALLENGE_AUDIENCE = "2fa_challenge";
+
+// Lifetime of the links sent by email
+const EMAIL_VERIFICATION_EXPIRY_MS = 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_EXPIRY_MS = 60 * 60 * 1000;
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Where a sign-in attempt came from, for the failed attempt audit and the sessions list
+export interface LoginContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
 
 // Hash password
 export async function hashPassword(password: string): Promise<string> {
@@ -28,39 +75,100 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return await bcrypt.compare(password, hash);
 }
 
-// Generate JWT token
-export function generateToken(userId: string): string {
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
+// Generate JWT token. The session it was issued under travels with it, so revoking
+// the session (logout, remote sign-out, token theft) also shuts out its access tokens.
+export function generateToken(userId: string, sessionId: string): string {
+  return jwt.sign({ userId, fid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_EXPIRY });
 }
 
-// Verify JWT token
-export function verifyToken(token: string): { userId: string } | null {
+// Verify JWT token. Email links and two-factor challenges are signed with the same
+// secret but carry an audience; they must never pass as access tokens.
+export function verifyToken(token: string): { userId: string; fid?: string } | null {
   try {
-    // Check if token is blacklisted
-    if (tokenBlacklist.has(token)) {
-      return null;
-    }
-    
-    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string };
-    return decoded;
+    const decoded = jwt.verify(token, JWT_SECRET) as { userId: string; fid?: string; aud?: string };
+    return decoded.aud === undefined ? decoded : null;
   } catch (error) {
     return null;
   }
 }
 
-// Blacklist token (for logout)
-export function blacklistToken(token: string): void {
-  tokenBlacklist.add(token);
-  
-  // Clean up expired tokens periodically (simple in-memory cleanup)
-  // In production, use Redis with TTL or database with cleanup job
-  if (tokenBlacklist.size > 10000) {
-    tokenBlacklist.clear();
+function hashRefreshToken(refreshToken: string): string {
+  return createHash("sha256").update(refreshToken).digest("hex");
+}
+
+function newRefreshToken(userId: string) {
+  const refreshToken = randomBytes(32).toString("base64url");
+  return {
+    refreshToken,
+    record: {
+      userId,
+      tokenHash: hashRefreshToken(refreshToken),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_EXPIRY_MS),
+    },
+  };
+}
+
+// Start a new session for a fresh sign-in
+export async function issueAuthTokens(userId: string, context: LoginContext = {}): Promise<AuthTokens> {
+  const { refreshToken, record } = newRefreshToken(userId);
+  const session = await storage.createAuthSession(
+    {
+      userId,
+      deviceName: describeDevice(context.userAgent),
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      expiresAt: record.expiresAt,
+    },
+    record,
+  );
+
+  // Sign-ins are a good moment to sweep out sessions and tokens nobody can use anymore
+  storage.deleteExpiredAuthSessions().catch(error => {
+    console.error("Error deleting expired sessions:", error);
+  });
+
+  return { token: generateToken(userId, session.id), refreshToken };
+}
+
+// Exchange a refresh token for a new access and refresh token pair. A token that
+// was already exchanged is being replayed, so the whole session is revoked.
+export async function refreshAuthTokens(refreshToken: string, context: LoginContext = {}): Promise<AuthTokens & { userId: string }> {
+  const current = await storage.getRefreshTokenByHash(hashRefreshToken(refreshToken));
+  if (!current || current.revokedAt || current.expiresAt.getTime() <= Date.now()) {
+    throw new HttpError(401, "Invalid or expired refresh token");
+  }
+  if (current.rotatedAt) {
+    if (Date.now() - current.rotatedAt.getTime() <= REFRESH_REUSE_GRACE_MS) {
+      throw new HttpError(401, "Refresh token already used");
+    }
+    await storage.revokeAuthSession(current.familyId);
+    throw new HttpError(401, "Refresh token reuse detected; please sign in again");
+  }
+
+  const { refreshToken: nextRefreshToken, record } = newRefreshToken(current.userId);
+  const rotated = await storage.rotateRefreshToken(current.id, { ...record, familyId: current.familyId });
+  if (!rotated) {
+    throw new HttpError(401, "Refresh token already used");
+  }
+  await storage.touchAuthSession(current.familyId, context);
+
+  return {
+    userId: current.userId,
+    token: generateToken(current.userId, current.familyId),
+    refreshToken: nextRefreshToken,
+  };
+}
+
+// Sign out: revoke the session behind an access token
+export async function revokeAuthTokens(token: string): Promise<void> {
+  const decoded = verifyToken(token);
+  if (decoded?.fid) {
+    await storage.revokeAuthSession(decoded.fid);
   }
 }
 
-// Authentication middleware (pure JWT, no sessions)
-export function isAuthenticated(req: Request, res: Response, next: NextFunction) {
+// Authentication middleware (JWT access tokens checked against their session)
+export async function isAuthenticated(req: Request, res: Response, next: NextFunction) {
   // Check for JWT token in Authorization header
   const authHeader = req.headers.authorization;
   const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
@@ -70,18 +178,40 @@ export function isAuthenticated(req: Request, res: Response, next: NextFunction)
   }
   
   const decoded = verifyToken(token);
-  if (!decoded) {
+  if (!decoded || !decoded.fid) {
     return res.status(401).json({ message: "Invalid or expired token" });
   }
+
+  try {
+    const session = await storage.getAuthSession(decoded.fid);
+    if (!session || session.revokedAt || session.userId !== decoded.userId) {
+      return res.status(401).json({ message: "Session has been signed out" });
+    }
+    if (!session.lastSeenAt || Date.now() - session.lastSeenAt.getTime() >= SESSION_TOUCH_INTERVAL_MS) {
+      storage.touchAuthSession(session.id, { ipAddress: req.ip }).catch(error => {
+        console.error("Error updating session activity:", error);
+      });
+    }
+  } catch (error) {
+    console.error("Error checking session:", error);
+    return res.status(500).json({ message: "Failed to verify session" });
+  }
   
   // Store user info and token in request for use in routes
-  req.user = { id: decoded.userId };
+  req.user = { id: decoded.userId, sessionId: decoded.fid };
   (req as any).token = token;
   next();
 }
 
 // Register user
-export async function registerUser(email: string, password: string, firstName?: string, lastName?: string) {
+export async function registerUser(
+  email: string,
+  password: string,
+  firstName?: string,
+  lastName?: string,
+  timezone?: string,
+  context: LoginContext = {},
+) {
   // Check if user already exists
   const existingUser = await storage.getUserByEmail(email);
   if (existingUser) {
@@ -97,44 +227,219 @@ export async function registerUser(email: string, password: string, firstName?:
     passwordHash,
     firstName,
     lastName,
+    timezone,
     emailVerified: false,
   });
   
-  // Generate token
-  const token = generateToken(user.id);
+  // Generate tokens
+  const tokens = await issueAuthTokens(user.id, context);
   
-  return { user, token };
+  return { user, ...tokens };
+}
+
+export type FailedLoginReason = "invalid_credentials" | "invalid_two_factor" | "locked_out" | "rate_limited";
+
+export async function auditFailedLogin(
+  email: string,
+  reason: FailedLoginReason,
+  context: LoginContext,
+  userId?: string,
+): Promise<void> {
+  try {
+    await storage.recordFailedLoginAttempt({
+      email,
+      userId,
+      reason,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  } catch (error) {
+    console.error("Error recording failed login attempt:", error);
+  }
+}
+
+// Throttle a sign-in step and refuse it while the account is locked, auditing refusals
+async function assertCanAttemptLogin(
+  email: string,
+  context: LoginContext,
+  rule: RateLimitRule,
+  limitId: string,
+): Promise<void> {
+  try {
+    await consumeRateLimit(rule, limitId);
+  } catch (error) {
+    if (error instanceof TooManyRequestsError) {
+      await auditFailedLogin(email, "rate_limited", context);
+    }
+    throw error;
+  }
+  try {
+    await assertNotLockedOut(email);
+  } catch (error) {
+    if (error instanceof TooManyRequestsError) {
+      await auditFailedLogin(email, "locked_out", context);
+    }
+    throw error;
+  }
 }
 
-// Login user
-export async function loginUser(email: string, password: string) {
+export type LoginResult =
+  | ({ user: User; twoFactorRequired?: false } & AuthTokens)
+  | { user: User; twoFactorRequired: true; challengeToken: string };
+
+// Login user. Limits and lockout are checked before the password, so throttled
+// attempts never reach bcrypt. With two-factor enabled, a correct password only
+// earns a short-lived challenge token to exchange along with a code.
+export async function loginUser(email: string, password: string, context: LoginContext = {}): Promise<LoginResult> {
+  await assertCanAttemptLogin(email, context, LOGIN_ACCOUNT_LIMIT, email);
+
   // Get user by email
   const user = await storage.getUserByEmail(email);
-  if (!user || !user.passwordHash) {
-    throw new Error("Invalid email or password");
-  }
   
   // Verify password
-  const isValidPassword = await verifyPassword(password, user.passwordHash);
-  if (!isValidPassword) {
+  const isValidPassword = !!user?.passwordHash && await verifyPassword(password, user.passwordHash);
+  if (!user || !isValidPassword) {
+    await recordLoginFailure(email);
+    await auditFailedLogin(email, "invalid_credentials", context, user?.id);
     throw new Error("Invalid email or password");
   }
+
+  // Failures are only cleared once every factor has passed
+  if (await isTwoFactorEnabled(user.id)) {
+    const challengeToken = jwt.sign({ userId: user.id }, JWT_SECRET, {
+      audience: TWO_FACTOR_CHALLENGE_AUDIENCE,
+      expiresIn: TWO_FACTOR_CHALLENGE_EXPIRY,
+    });
+    return { user, twoFactorRequired: true, challengeToken };
+  }
+
+  await clearLoginFailures(email);
   
-  // Generate token
-  const token = generateToken(user.id);
+  // Generate tokens
+  const tokens = await issueAuthTokens(user.id, context);
   
-  return { user, token };
+  return { user, ...tokens };
+}
+
+// Second login step: exchange the challenge token and an authenticator or recovery
+// code for real tokens. Wrong codes count towards the account lockout.
+export async function completeTwoFactorLogin(challengeToken: string, code: string, context: LoginContext = {}) {
+  let userId: string | undefined;
+  try {
+    userId = (jwt.verify(challengeToken, JWT_SECRET, { audience: TWO_FACTOR_CHALLENGE_AUDIENCE }) as { userId?: string }).userId;
+  } catch (error) {
+    userId = undefined;
+  }
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) {
+    throw new HttpError(401, "Sign-in has expired; please enter your password again");
+  }
+
+  await assertCanAttemptLogin(user.email, context, TWO_FACTOR_LIMIT, user.id);
+
+  if (!await verifySecondFactor(user.id, code)) {
+    await recordLoginFailure(user.email);
+    await auditFailedLogin(user.email, "invalid_two_factor", context, user.id);
+    throw new HttpError(401, "Invalid authentication code");
+  }
+
+  await clearLoginFailures(user.email);
+  const tokens = await issueAuthTokens(user.id, context);
+  return { user, ...tokens };
+}
+
+// Email links carry a signed token naming an auth_tokens row. The signature stops
+// forged links; the row makes each link single use.
+async function createActionToken(userId: string, purpose: AuthTokenPurpose, expiryMs: number): Promise<string> {
+  const record = await storage.createAuthToken({
+    userId,
+    purpose,
+    expiresAt: new Date(Date.now() + expiryMs),
+  });
+  return jwt.sign({ userId }, JWT_SECRET, {
+    jwtid: record.id,
+    audience: purpose,
+    expiresIn: Math.floor(expiryMs / 1000),
+  });
+}
+
+async function consumeActionToken(token: string, purpose: AuthTokenPurpose): Promise<string | null> {
+  let decoded: { userId?: string; jti?: string };
+  try {
+    decoded = jwt.verify(token, JWT_SECRET, { audience: purpose }) as { userId?: string; jti?: string };
+  } catch (error) {
+    return null;
+  }
+  if (!decoded.userId || !decoded.jti) {
+    return null;
+  }
+  const consumed = await storage.consumeAuthToken(decoded.jti, purpose);
+  return consumed && consumed.userId === decoded.userId ? consumed.userId : null;
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  await consumeRateLimit(EMAIL_ADDRESS_LIMIT, user.email);
+  const token = await createActionToken(user.id, "email_verification", EMAIL_VERIFICATION_EXPIRY_MS);
+  const link = `${APP_URL}/verify-email?token=${encodeURIComponent(token)}`;
+  await sendEmail({
+    to: user.email,
+    subject: "Verify your email address",
+    text: `Hi${user.firstName ? ` ${user.firstName}` : ""},\n\nConfirm your email address by opening this link:\n${link}\n\nThe link expires in 24 hours.`,
+  });
+}
+
+export async function verifyEmail(token: string): Promise<User> {
+  const userId = await consumeActionToken(token, "email_verification");
+  if (!userId) {
+    throw new HttpError(400, "Invalid or expired verification link");
+  }
+  return await storage.markEmailVerified(userId);
+}
+
+// Succeeds from the caller's point of view unless rate limited, so the response does
+// not reveal whether an account exists for the address.
+export async function requestPasswordReset(email: string): Promise<void> {
+  // Counted for unknown addresses too, so the limit doesn't reveal which ones exist
+  await consumeRateLimit(EMAIL_ADDRESS_LIMIT, email);
+  const user = await storage.getUserByEmail(email);
+  if (!user || !user.passwordHash) {
+    return;
+  }
+
+  const token = await createActionToken(user.id, "password_reset", PASSWORD_RESET_EXPIRY_MS);
+  const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+  sendEmail({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Someone asked to reset the password for your MakeProgress account.\n\nChoose a new password here:\n${link}\n\nThe link expires in 1 hour. If you didn't ask for this, you can ignore this email.`,
+  }).catch(error => {
+    console.error("Error sending password reset email:", error);
+  });
+}
+
+// Set a new password and sign the user out everywhere. Following the link also
+// proves they own the address.
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const userId = await consumeActionToken(token, "password_reset");
+  if (!userId) {
+    throw new HttpError(400, "Invalid or expired reset link");
+  }
+  await storage.updateUserPassword(userId, await hashPassword(password));
+  await storage.revokeUserAuthSessions(userId);
+  await storage.markEmailVerified(userId);
 }
 
 // Setup authentication (pure JWT, no sessions)
 export async function setupAuth(app: Express) {
   app.set("trust proxy", 1);
+  // Fail at startup, not on the first sign-up, when email is misconfigured
+  getEmailTransport();
   // No session middleware needed for pure JWT authentication
 }
 
 // Extend Express Request interface
 declare module 'express-serve-static-core' {
   interface Request {
-    user?: { id: string };
+    user?: { id: string; sessionId?: string };
   }
 }
\ No newline at end of file
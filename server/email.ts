@@ -0,0 +1,99 @@
+import nodemailer from "nodemailer";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+
+// Outgoing email. The transport is chosen with EMAIL_TRANSPORT:
+//   "smtp"    - deliver through SMTP_URL, or SMTP_HOST/SMTP_PORT/SMTP_USER/SMTP_PASS
+//   "file"    - write each message to EMAIL_OUTPUT_DIR (default ".emails") for local testing
+//   "console" - log each message (default when SMTP is not configured)
+// The messages carry live sign-in links, so production only allows "smtp": logging or
+// writing them out would hand accounts to anyone who can read the logs or the disk.
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+const EMAIL_FROM = process.env.EMAIL_FROM || "MakeProgress <no-reply@makeprogress.app>";
+
+export class SmtpTransport implements EmailTransport {
+  private transporter: nodemailer.Transporter;
+
+  constructor() {
+    if (process.env.SMTP_URL) {
+      this.transporter = nodemailer.createTransport(process.env.SMTP_URL);
+    } else if (process.env.SMTP_HOST) {
+      const port = parseInt(process.env.SMTP_PORT || "587", 10);
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+      });
+    } else {
+      throw new Error("SMTP transport requires SMTP_URL or SMTP_HOST");
+    }
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: EMAIL_FROM, ...message });
+  }
+}
+
+export class FileTransport implements EmailTransport {
+  constructor(private outputDir: string = process.env.EMAIL_OUTPUT_DIR || ".emails") {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, "_")}.json`;
+    await writeFile(path.join(this.outputDir, fileName), JSON.stringify({ from: EMAIL_FROM, ...message }, null, 2));
+  }
+}
+
+export class ConsoleTransport implements EmailTransport {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export function createEmailTransport(): EmailTransport {
+  const isProduction = process.env.NODE_ENV === "production";
+  const kind = process.env.EMAIL_TRANSPORT || (isProduction || process.env.SMTP_URL || process.env.SMTP_HOST ? "smtp" : "console");
+  if (isProduction && kind !== "smtp") {
+    throw new Error(`EMAIL_TRANSPORT "${kind}" is not allowed in production; configure SMTP instead`);
+  }
+  switch (kind) {
+    case "smtp":
+      return new SmtpTransport();
+    case "file":
+      return new FileTransport();
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"; expected smtp, file or console`);
+  }
+}
+
+let transport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+  }
+  return transport;
+}
+
+// Swap the transport, e.g. for a different provider
+export function setEmailTransport(next: EmailTransport): void {
+  transport = next;
+}
+
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  await getEmailTransport().send(message);
+}
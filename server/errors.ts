@@ -0,0 +1,36 @@
+// Errors carrying an HTTP status, thrown by storage and auth helpers
+// and translated into responses by the route handlers.
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message = "Not found") {
+    super(404, message);
+    this.name = "NotFoundError";
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message = "Forbidden") {
+    super(403, message);
+    this.name = "ForbiddenError";
+  }
+}
+
+// Carries how long the client should wait, sent back as the Retry-After header
+export class TooManyRequestsError extends HttpError {
+  retryAfterSeconds: number;
+
+  constructor(retryAfterSeconds: number, message = "Too many requests, please try again later") {
+    super(429, message);
+    this.name = "TooManyRequestsError";
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
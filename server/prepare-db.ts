@@ -0,0 +1,149 @@
+import { pool } from "./db";
+
+// Data fixes that must run before `drizzle-kit push` can add new constraints to an
+// existing database. Every step is safe to run again, and steps whose table does not
+// exist yet (a fresh database) are skipped.
+
+interface PrepareStep {
+  description: string;
+  table: string;
+  statements: string[]; // Rows changed by the last one are reported
+  // Run instead of `statements` while the table they read from doesn't exist yet
+  fallback?: { missingTable: string; statements: string[] };
+}
+
+const steps: PrepareStep[] = [
+  {
+    // Concurrent rollovers could plan the same goal twice for a week. Keep the copy
+    // with the most progress; the others' check-ins and logs go with them.
+    description: "Remove goals planned twice for the same week",
+    table: "user_goals",
+    statements: [`
+      DELETE FROM user_goals
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id, row_number() OVER (
+            PARTITION BY user_id, goal_id, week_start
+            ORDER BY completed DESC NULLS LAST, created_at ASC NULLS LAST, id
+          ) AS position
+          FROM user_goals
+        ) ranked
+        WHERE position > 1
+      )
+    `],
+  },
+  {
+    // Category names used to be unique only with matching case. Number the later of
+    // each clash, e.g. "reading (2)", so the case-insensitive index can be built.
+    description: "Rename categories whose names differ only in case",
+    table: "categories",
+    statements: [`
+      UPDATE categories SET name = categories.name || ' (' || ranked.position || ')'
+      FROM (
+        SELECT id, row_number() OVER (
+          PARTITION BY created_by, lower(name)
+          ORDER BY created_at ASC NULLS LAST, id
+        ) AS position
+        FROM categories
+        WHERE created_by IS NOT NULL
+      ) ranked
+      WHERE categories.id = ranked.id
+        AND ranked.position > 1
+    `],
+  },
+  {
+    // Concurrent check-ins could each record the week's achievement. Keep the highest;
+    // the next change to the week re-derives it from the goals anyway. Shares of the
+    // others go with them.
+    description: "Remove achievements recorded twice for the same week",
+    table: "achievements",
+    statements: [`
+      DELETE FROM achievements
+      WHERE id IN (
+        SELECT id FROM (
+          SELECT id, row_number() OVER (
+            PARTITION BY user_id, week_start
+            ORDER BY categories_completed DESC, created_at ASC NULLS LAST, id
+          ) AS position
+          FROM achievements
+        ) ranked
+        WHERE position > 1
+      )
+    `],
+  },
+  {
+    // Reminders sent before dedupe keys existed get theirs, so they aren't sent again.
+    // The column is added here, ahead of the push, so it can be filled in.
+    description: "Backfill notification dedupe keys",
+    table: "notifications",
+    statements: [
+      "ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dedupe_key varchar(255)",
+      `
+      UPDATE notifications SET dedupe_key = ranked.key
+      FROM (
+        SELECT id, user_id, key, row_number() OVER (PARTITION BY user_id, key ORDER BY created_at, id) AS position
+        FROM (
+          SELECT id, user_id, created_at, CASE type
+            WHEN 'goal_overdue' THEN type || ':' || (data->>'weekStart') || ':' || (data->>'userGoalId')
+              || '|' || (data->>'scheduledDate') || '|' || coalesce(data->>'scheduledTime', '')
+            ELSE type || ':' || (data->>'weekStart')
+          END AS key
+          FROM notifications
+          WHERE type IN ('streak_at_risk', 'weekly_recap', 'goal_overdue')
+            AND dedupe_key IS NULL
+            AND data->>'weekStart' IS NOT NULL
+        ) keyed
+      ) ranked
+      WHERE notifications.id = ranked.id
+        AND ranked.position = 1
+        AND NOT EXISTS (
+          SELECT 1 FROM notifications sent
+          WHERE sent.user_id = ranked.user_id AND sent.dedupe_key = ranked.key
+        )
+      `,
+    ],
+  },
+  {
+    // Refresh tokens now belong to a sign-in session. Tokens issued before sessions
+    // existed, or left behind by a deleted one, would block the new foreign key; their
+    // devices are signed out and sign in again.
+    description: "Remove refresh tokens without a session",
+    table: "refresh_tokens",
+    statements: [`
+      DELETE FROM refresh_tokens
+      WHERE NOT EXISTS (SELECT 1 FROM auth_sessions WHERE auth_sessions.id = refresh_tokens.family_id)
+    `],
+    fallback: {
+      missingTable: "auth_sessions",
+      statements: ["DELETE FROM refresh_tokens"],
+    },
+  },
+];
+
+async function tableExists(table: string): Promise<boolean> {
+  const result = await pool.query("SELECT to_regclass($1) AS oid", [`public.${table}`]);
+  return result.rows[0]?.oid !== null;
+}
+
+async function prepareDatabase() {
+  for (const step of steps) {
+    if (!await tableExists(step.table)) {
+      continue;
+    }
+    const statements = step.fallback && !await tableExists(step.fallback.missingTable)
+      ? step.fallback.statements
+      : step.statements;
+    let rowCount = 0;
+    for (const statement of statements) {
+      rowCount = (await pool.query(statement)).rowCount ?? 0;
+    }
+    console.log(`${step.description}: ${rowCount} rows`);
+  }
+}
+
+prepareDatabase()
+  .catch(error => {
+    console.error("Error preparing database:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
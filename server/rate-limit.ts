@@ -0,0 +1,214 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { TooManyRequestsError } from "./errors";
+
+// Sliding-window rate limits and progressive sign-in lockout. Each key keeps a log of
+// hit times; a request is allowed while fewer than `limit` hits fall inside the window.
+// The log lives in a swappable store chosen with RATE_LIMIT_STORE:
+//   "memory"   - per process, lost on restart (default)
+//   "postgres" - shared by every server instance
+
+export interface RateLimitStore {
+  record(key: string, at: number): Promise<void>;
+  // Atomically: return the hits since `since`, recording one at `at` only if there were fewer than `limit`
+  consume(key: string, at: number, since: number, limit: number): Promise<number[]>;
+  getHits(key: string, since: number): Promise<number[]>;
+  clear(key: string): Promise<void>;
+}
+
+export interface RateLimitRule {
+  name: string;
+  limit: number;
+  windowMs: number;
+}
+
+export const LOGIN_IP_LIMIT: RateLimitRule = { name: "login-ip", limit: 20, windowMs: 15 * 60 * 1000 };
+export const LOGIN_ACCOUNT_LIMIT: RateLimitRule = { name: "login-account", limit: 10, windowMs: 15 * 60 * 1000 };
+export const TWO_FACTOR_LIMIT: RateLimitRule = { name: "two-factor", limit: 5, windowMs: 5 * 60 * 1000 };
+export const REGISTER_IP_LIMIT: RateLimitRule = { name: "register-ip", limit: 5, windowMs: 60 * 60 * 1000 };
+// Verification and reset links: requests and redemptions per IP, and emails sent to one address
+export const EMAIL_LINK_IP_LIMIT: RateLimitRule = { name: "email-link-ip", limit: 20, windowMs: 60 * 60 * 1000 };
+export const EMAIL_ADDRESS_LIMIT: RateLimitRule = { name: "email-address", limit: 5, windowMs: 60 * 60 * 1000 };
+
+// After LOCKOUT_THRESHOLD failed sign-ins within LOCKOUT_WINDOW_MS the account locks for a
+// minute, doubling with every further failure up to an hour. A successful sign-in resets it.
+const LOCKOUT_THRESHOLD = 5;
+const LOCKOUT_BASE_MS = 60 * 1000;
+const LOCKOUT_MAX_MS = 60 * 60 * 1000;
+const LOCKOUT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Hits older than the longest window are never read again
+const RETENTION_MS = LOCKOUT_WINDOW_MS;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private lastSweep = Date.now();
+
+  async record(key: string, at: number): Promise<void> {
+    const hits = this.hits.get(key) ?? [];
+    hits.push(at);
+    this.hits.set(key, hits);
+    this.sweep(at);
+  }
+
+  // No await between the check and the push, so concurrent requests can't interleave
+  async consume(key: string, at: number, since: number, limit: number): Promise<number[]> {
+    const hits = (this.hits.get(key) ?? []).filter(hitAt => hitAt >= since);
+    if (hits.length < limit) {
+      this.hits.set(key, [...hits, at]);
+    }
+    this.sweep(at);
+    return hits;
+  }
+
+  async getHits(key: string, since: number): Promise<number[]> {
+    return (this.hits.get(key) ?? []).filter(at => at >= since);
+  }
+
+  async clear(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    const cutoff = now - RETENTION_MS;
+    this.hits.forEach((hits, key) => {
+      const recent = hits.filter(at => at >= cutoff);
+      if (recent.length === 0) {
+        this.hits.delete(key);
+      } else {
+        this.hits.set(key, recent);
+      }
+    });
+  }
+}
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  private lastSweep = Date.now();
+
+  async record(key: string, at: number): Promise<void> {
+    await storage.recordRateLimitHit(key, new Date(at));
+    this.sweep(at);
+  }
+
+  async consume(key: string, at: number, since: number, limit: number): Promise<number[]> {
+    const hits = await storage.consumeRateLimitHit(key, new Date(at), new Date(since), limit);
+    this.sweep(at);
+    return hits.map(hitAt => hitAt.getTime());
+  }
+
+  async getHits(key: string, since: number): Promise<number[]> {
+    const hits = await storage.getRateLimitHits(key, new Date(since));
+    return hits.map(hitAt => hitAt.getTime());
+  }
+
+  async clear(key: string): Promise<void> {
+    await storage.clearRateLimitHits(key);
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    storage.deleteRateLimitHitsBefore(new Date(now - RETENTION_MS)).catch(error => {
+      console.error("Error deleting old rate limit hits:", error);
+    });
+  }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+  const kind = process.env.RATE_LIMIT_STORE || "memory";
+  switch (kind) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres":
+      return new PostgresRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${kind}"; expected memory or postgres`);
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    store = createRateLimitStore();
+  }
+  return store;
+}
+
+// Swap the store, e.g. for Redis
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+function toRetryAfterSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+// Count a request against a rule, or throw once the window is full. Rejected
+// requests are not counted, so a client that backs off is let back in on time.
+export async function consumeRateLimit(rule: RateLimitRule, id: string): Promise<void> {
+  const key = `${rule.name}:${id}`;
+  const now = Date.now();
+  const hits = await getRateLimitStore().consume(key, now, now - rule.windowMs, rule.limit);
+  if (hits.length >= rule.limit) {
+    const oldest = Math.min(...hits);
+    throw new TooManyRequestsError(toRetryAfterSeconds(oldest + rule.windowMs - now));
+  }
+}
+
+// Middleware form of consumeRateLimit, keyed by client IP unless told otherwise
+export function rateLimit(
+  rule: RateLimitRule,
+  options: {
+    key?: (req: Request) => string;
+    onLimited?: (req: Request) => void;
+  } = {},
+) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await consumeRateLimit(rule, options.key ? options.key(req) : req.ip || "unknown");
+      next();
+    } catch (error) {
+      if (error instanceof TooManyRequestsError) {
+        options.onLimited?.(req);
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      console.error("Error checking rate limit:", error);
+      res.status(500).json({ message: "Failed to check rate limit" });
+    }
+  };
+}
+
+function loginFailureKey(email: string) {
+  return `login-failure:${email}`;
+}
+
+// Throws while the account is locked. Works the same for unknown emails, so the
+// lockout does not reveal which addresses have accounts.
+export async function assertNotLockedOut(email: string): Promise<void> {
+  const now = Date.now();
+  const failures = await getRateLimitStore().getHits(loginFailureKey(email), now - LOCKOUT_WINDOW_MS);
+  if (failures.length < LOCKOUT_THRESHOLD) {
+    return;
+  }
+  const lockMs = Math.min(LOCKOUT_BASE_MS * 2 ** (failures.length - LOCKOUT_THRESHOLD), LOCKOUT_MAX_MS);
+  const remainingMs = Math.max(...failures) + lockMs - now;
+  if (remainingMs > 0) {
+    throw new TooManyRequestsError(
+      toRetryAfterSeconds(remainingMs),
+      "Too many failed sign-in attempts; this account is temporarily locked",
+    );
+  }
+}
+
+export async function recordLoginFailure(email: string): Promise<void> {
+  await getRateLimitStore().record(loginFailureKey(email), Date.now());
+}
+
+export async function clearLoginFailures(email: string): Promise<void> {
+  await getRateLimitStore().clear(loginFailureKey(email));
+}
@@ -1,24 +1,181 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated, registerUser, loginUser, blacklistToken } from "./auth";
-import { insertUserGoalSchema, selectGoalSchema, registerSchema, loginSchema } from "@shared/schema";
+import { HttpError, TooManyRequestsError } from "./errors";
+import { rateLimit, LOGIN_IP_LIMIT, REGISTER_IP_LIMIT, TWO_FACTOR_LIMIT, EMAIL_LINK_IP_LIMIT } from "./rate-limit";
+import {
+  getTwoFactorStatus,
+  beginTwoFactorSetup,
+  confirmTwoFactorSetup,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from "./two-factor";
+import {
+  setupAuth,
+  isAuthenticated,
+  registerUser,
+  loginUser,
+  refreshAuthTokens,
+  revokeAuthTokens,
+  sendVerificationEmail,
+  verifyEmail,
+  requestPasswordReset,
+  resetPassword,
+  auditFailedLogin,
+  completeTwoFactorLogin,
+  verifyPassword,
+} from "./auth";
+import {
+  insertUserGoalSchema,
+  selectGoalSchema,
+  registerSchema,
+  loginSchema,
+  refreshTokenSchema,
+  verifyEmailSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorCodeSchema,
+  verifyTwoFactorSchema,
+  disableTwoFactorSchema,
+  revokeSessionsSchema,
+  updateUserSettingsSchema,
+  updateGoalEstimateSchema,
+  insertUserPlanTemplateSchema,
+  insertGoalCheckinSchema,
+  insertGoalProgressLogSchema,
+  insertCustomCategorySchema,
+  updateCustomCategorySchema,
+  updateCustomGoalSchema,
+  upsertWeeklyReflectionSchema,
+  updateUserGoalNoteSchema,
+  insertGoalSubtaskSchema,
+  updateGoalSubtaskSchema,
+  reorderGoalSubtasksSchema,
+  updateSubtaskSettingsSchema,
+  scheduleUserGoalSchema,
+  weeklyReviewSchema,
+  type Goal,
+} from "@shared/schema";
+import {
+  resolvePlanTemplate,
+  getActiveCategories,
+  isCategoryCompleted,
+  getAchievementThresholds,
+  validateGoalSelection,
+} from "@shared/plan";
+import { calculateGoalProgress, GOAL_AGGREGATIONS } from "@shared/progress";
+import { BADGE_CATALOG } from "@shared/badges";
+import { getLevelProgress } from "@shared/xp";
+import { isGoalDifficulty, resolveGoalEffort } from "@shared/effort";
+import { buildNextWeekGoalIds } from "@shared/review";
+import {
+  addWeeks,
+  getWeekStart,
+  resolveWeekSettings,
+  isWeekStartDate,
+  isWeekEditable,
+  parseDateString,
+  WEEKDAY_NAMES,
+} from "@shared/week";
 import { z } from "zod";
 
-function getWeekStart(date: Date = new Date()): Date {
-  const weekStart = new Date(date);
-  const dayOfWeek = weekStart.getDay();
-  const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-  weekStart.setDate(weekStart.getDate() - daysToMonday);
-  weekStart.setHours(0, 0, 0, 0);
+// Days after a week ends during which its goals can still be updated
+const PAST_WEEK_GRACE_DAYS = Math.max(0, parseInt(process.env.PAST_WEEK_GRACE_DAYS || "2", 10) || 0);
+
+async function getUserWeekSettings(userId: string) {
+  const user = await storage.getUser(userId);
+  return resolveWeekSettings(user);
+}
+
+// Resolve the week a request refers to: an explicit YYYY-MM-DD weekStart,
+// or the current week in the user's timezone when none is given
+async function resolveRequestedWeek(userId: string, requested?: unknown) {
+  const settings = await getUserWeekSettings(userId);
+  const currentWeekStart = getWeekStart(settings);
+
+  let weekStart = currentWeekStart;
+  if (requested !== undefined && requested !== null && requested !== "") {
+    if (typeof requested !== "string" || !isWeekStartDate(requested, settings)) {
+      throw new HttpError(400, `weekStart must be a YYYY-MM-DD date falling on a ${WEEKDAY_NAMES[settings.weekStartDay]}`);
+    }
+    weekStart = parseDateString(requested);
+  }
+
+  return {
+    weekStart,
+    isCurrentWeek: weekStart.getTime() === currentWeekStart.getTime(),
+    isFutureWeek: weekStart.getTime() > currentWeekStart.getTime(),
+    editable: isWeekEditable(weekStart, settings, PAST_WEEK_GRACE_DAYS),
+  };
+}
+
+// Reject changes to closed weeks, and progress on weeks that haven't started yet
+async function assertWeekEditable(userId: string, weekStart: Date, options: { allowFuture?: boolean } = {}) {
+  const settings = await getUserWeekSettings(userId);
+  if (!isWeekEditable(weekStart, settings, PAST_WEEK_GRACE_DAYS)) {
+    throw new HttpError(403, "This week is closed and can no longer be edited");
+  }
+  if (!options.allowFuture && weekStart.getTime() > getWeekStart(settings).getTime()) {
+    throw new HttpError(400, "Progress can't be recorded before the week starts");
+  }
+}
+
+// The earliest week whose goals can still change: the current week, or an earlier
+// one still inside its grace period
+async function getEarliestEditableWeekStart(userId: string): Promise<Date> {
+  const settings = await getUserWeekSettings(userId);
+  let weekStart = getWeekStart(settings);
+  while (isWeekEditable(addWeeks(weekStart, -1), settings, PAST_WEEK_GRACE_DAYS)) {
+    weekStart = addWeeks(weekStart, -1);
+  }
   return weekStart;
 }
 
-function calculateAchievementLevel(categoriesCompleted: number): string {
-  if (categoriesCompleted >= 6) return "slayed";
-  if (categoriesCompleted >= 4) return "rock";
-  if (categoriesCompleted >= 2) return "track";
-  return "none";
+// Resolve the user's plan template along with the categories it keeps active.
+// Archived categories are never active.
+async function getUserPlan(userId: string) {
+  const [savedTemplate, categories] = await Promise.all([
+    storage.getUserPlanTemplate(userId),
+    storage.getCategoriesForUser(userId),
+  ]);
+  const template = resolvePlanTemplate(savedTemplate);
+  return { template, activeCategories: getActiveCategories(template, categories) };
+}
+
+// Archived goals stay in the weeks they were already planned for but can't be picked again
+function excludeNewlyArchivedGoals(goals: Goal[], plannedGoalIds: string[]): Goal[] {
+  return goals.filter(goal => !goal.archivedAt || plannedGoalIds.includes(goal.id));
+}
+
+// Copy goals from the most recent planned week into an empty week when the user opted in.
+// The copied set becomes the whole week, so it is skipped unless it fits the plan template;
+// the user then plans the week by hand. Returns the number of goals rolled over.
+async function applyAutoRollover(userId: string, weekStart: Date): Promise<number> {
+  const [{ template, activeCategories }, plannedGoals] = await Promise.all([
+    getUserPlan(userId),
+    storage.getUserGoalsForWeek(userId, weekStart),
+  ]);
+  if (!template.autoRollover || plannedGoals.length > 0) {
+    return 0;
+  }
+
+  const fromWeekStart = await storage.getLatestPlannedWeekStart(userId, weekStart);
+  if (!fromWeekStart) {
+    return 0;
+  }
+
+  const options = {
+    onlyIncomplete: template.rolloverIncompleteOnly,
+    categoryIds: activeCategories.map(category => category.id),
+  };
+  const goalIds = await storage.getRolloverGoalIds(userId, fromWeekStart, weekStart, options);
+  const resolvedGoals = await storage.getGoalsByIds(goalIds);
+  if (goalIds.length === 0 || validateGoalSelection(template, activeCategories, goalIds, resolvedGoals, userId)) {
+    return 0;
+  }
+
+  const rolledOver = await storage.rolloverUserGoals(userId, fromWeekStart, weekStart, options);
+  return rolledOver.length;
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -52,40 +209,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Create goals for each category
         const goalsData = [
           // Personal goals
-          { categoryId: createdCategories[0].id, description: "Read for 30 minutes daily" },
-          { categoryId: createdCategories[0].id, description: "Practice a new skill for 20 minutes" },
-          { categoryId: createdCategories[0].id, description: "Write in a personal journal" },
-          { categoryId: createdCategories[0].id, description: "Learn 5 new words in a foreign language" },
+          { categoryId: createdCategories[0].id, description: "Read for 30 minutes daily", targetDaysPerWeek: 5, difficulty: "medium", estimatedWeeklyMinutes: 150 },
+          { categoryId: createdCategories[0].id, description: "Practice a new skill for 20 minutes", targetDaysPerWeek: 3, difficulty: "medium", estimatedWeeklyMinutes: 60 },
+          { categoryId: createdCategories[0].id, description: "Write in a personal journal", difficulty: "easy", estimatedWeeklyMinutes: 20 },
+          { categoryId: createdCategories[0].id, description: "Learn 5 new words in a foreign language", targetValue: 5, unit: "words", aggregation: "sum", difficulty: "easy", estimatedWeeklyMinutes: 30 },
           
           // Inner Peace goals
-          { categoryId: createdCategories[1].id, description: "Meditate for 10 minutes" },
-          { categoryId: createdCategories[1].id, description: "Practice gratitude journaling" },
-          { categoryId: createdCategories[1].id, description: "Spend 15 minutes in nature" },
-          { categoryId: createdCategories[1].id, description: "Practice deep breathing exercises" },
+          { categoryId: createdCategories[1].id, description: "Meditate for 10 minutes", targetDaysPerWeek: 5, difficulty: "easy", estimatedWeeklyMinutes: 50 },
+          { categoryId: createdCategories[1].id, description: "Practice gratitude journaling", difficulty: "easy", estimatedWeeklyMinutes: 15 },
+          { categoryId: createdCategories[1].id, description: "Spend 15 minutes in nature", difficulty: "easy", estimatedWeeklyMinutes: 15 },
+          { categoryId: createdCategories[1].id, description: "Practice deep breathing exercises", difficulty: "easy", estimatedWeeklyMinutes: 10 },
           
           // Health goals
-          { categoryId: createdCategories[2].id, description: "Exercise for 30 minutes" },
-          { categoryId: createdCategories[2].id, description: "Drink 8 glasses of water daily" },
-          { categoryId: createdCategories[2].id, description: "Get 8 hours of sleep" },
-          { categoryId: createdCategories[2].id, description: "Eat 5 servings of fruits/vegetables" },
+          { categoryId: createdCategories[2].id, description: "Exercise for 30 minutes", targetDaysPerWeek: 3, difficulty: "hard", estimatedWeeklyMinutes: 90 },
+          { categoryId: createdCategories[2].id, description: "Drink 8 glasses of water daily", targetDaysPerWeek: 5, difficulty: "easy", estimatedWeeklyMinutes: 10 },
+          { categoryId: createdCategories[2].id, description: "Get 8 hours of sleep", targetDaysPerWeek: 5, difficulty: "hard", estimatedWeeklyMinutes: 0 },
+          { categoryId: createdCategories[2].id, description: "Eat 5 servings of fruits/vegetables", targetValue: 5, unit: "servings", aggregation: "max", difficulty: "medium", estimatedWeeklyMinutes: 60 },
           
           // Family goals
-          { categoryId: createdCategories[3].id, description: "Call a family member" },
-          { categoryId: createdCategories[3].id, description: "Plan a family activity" },
-          { categoryId: createdCategories[3].id, description: "Have dinner together without devices" },
-          { categoryId: createdCategories[3].id, description: "Write a letter or message to someone you care about" },
+          { categoryId: createdCategories[3].id, description: "Call a family member", difficulty: "easy", estimatedWeeklyMinutes: 20 },
+          { categoryId: createdCategories[3].id, description: "Plan a family activity", difficulty: "medium", estimatedWeeklyMinutes: 120 },
+          { categoryId: createdCategories[3].id, description: "Have dinner together without devices", difficulty: "easy", estimatedWeeklyMinutes: 60 },
+          { categoryId: createdCategories[3].id, description: "Write a letter or message to someone you care about", difficulty: "easy", estimatedWeeklyMinutes: 20 },
           
           // Career goals
-          { categoryId: createdCategories[4].id, description: "Update LinkedIn profile" },
-          { categoryId: createdCategories[4].id, description: "Learn a new professional skill" },
-          { categoryId: createdCategories[4].id, description: "Network with a colleague or industry peer" },
-          { categoryId: createdCategories[4].id, description: "Organize and plan upcoming work tasks" },
+          { categoryId: createdCategories[4].id, description: "Update LinkedIn profile", difficulty: "easy", estimatedWeeklyMinutes: 30 },
+          { categoryId: createdCategories[4].id, description: "Learn a new professional skill", difficulty: "hard", estimatedWeeklyMinutes: 180 },
+          { categoryId: createdCategories[4].id, description: "Network with a colleague or industry peer", difficulty: "medium", estimatedWeeklyMinutes: 45 },
+          { categoryId: createdCategories[4].id, description: "Organize and plan upcoming work tasks", difficulty: "medium", estimatedWeeklyMinutes: 60 },
           
           // Fun goals
-          { categoryId: createdCategories[5].id, description: "Try a new hobby" },
-          { categoryId: createdCategories[5].id, description: "Watch a documentary" },
-          { categoryId: createdCategories[5].id, description: "Play a game or do a puzzle" },
-          { categoryId: createdCategories[5].id, description: "Listen to music or a podcast" },
+          { categoryId: createdCategories[5].id, description: "Try a new hobby", difficulty: "medium", estimatedWeeklyMinutes: 90 },
+          { categoryId: createdCategories[5].id, description: "Watch a documentary", difficulty: "easy", estimatedWeeklyMinutes: 90 },
+          { categoryId: createdCategories[5].id, description: "Play a game or do a puzzle", difficulty: "easy", estimatedWeeklyMinutes: 45 },
+          { categoryId: createdCategories[5].id, description: "Listen to music or a podcast", difficulty: "easy", estimatedWeeklyMinutes: 30 },
         ];
 
         await Promise.all(
@@ -93,300 +250,1561 @@ export async function registerRoutes(app: Express): Promise<Server> {
         );
       }
     } catch (error) {
-      console.error("Error initializing default data:", error);
+      console.error("Error initializing default data:", error);
+    }
+  };
+
+  await initializeDefaultData();
+
+  // Auth routes with proper validation and security
+  // Registration endpoint
+  // Sign-up is throttled per IP: each attempt costs a bcrypt hash
+  app.post('/api/auth/register', rateLimit(REGISTER_IP_LIMIT), async (req, res) => {
+    try {
+      // Validate input with Zod
+      const validatedData = registerSchema.parse(req.body);
+      const { email, password, firstName, lastName, timezone } = validatedData;
+      
+      const { user, token, refreshToken } = await registerUser(email, password, firstName, lastName, timezone, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      // A mail outage should not block sign-up; the user can resend from the app
+      sendVerificationEmail(user).catch(error => {
+        console.error("Error sending verification email:", error);
+      });
+      
+      res.status(201).json({ 
+        user: { 
+          id: user.id, 
+          email: user.email, 
+          firstName: user.firstName, 
+          lastName: user.lastName,
+          profileImageUrl: user.profileImageUrl,
+          emailVerified: user.emailVerified,
+          timezone: user.timezone,
+          weekStartDay: user.weekStartDay
+        }, 
+        token,
+        refreshToken
+      });
+    } catch (error: any) {
+      console.error("Registration error:", error);
+      
+      // Handle Zod validation errors
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      
+      res.status(400).json({ message: error.message || "Registration failed" });
+    }
+  });
+  
+  // Login endpoint
+  // Throttled per IP here and per account inside loginUser, with lockout after repeated failures
+  app.post('/api/auth/login', rateLimit(LOGIN_IP_LIMIT, {
+    onLimited: (req) => {
+      if (typeof req.body?.email === "string") {
+        auditFailedLogin(req.body.email.toLowerCase().trim(), "rate_limited", {
+          ipAddress: req.ip,
+          userAgent: req.get("user-agent"),
+        });
+      }
+    },
+  }), async (req, res) => {
+    try {
+      // Validate input with Zod
+      const validatedData = loginSchema.parse(req.body);
+      const { email, password } = validatedData;
+      
+      const result = await loginUser(email, password, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      // Password was right, but the account wants a code before it gets tokens
+      if (result.twoFactorRequired) {
+        return res.json({ twoFactorRequired: true, challengeToken: result.challengeToken });
+      }
+
+      const { user, token, refreshToken } = result;
+      
+      res.json({ 
+        user: { 
+          id: user.id, 
+          email: user.email, 
+          firstName: user.firstName, 
+          lastName: user.lastName,
+          profileImageUrl: user.profileImageUrl,
+          emailVerified: user.emailVerified,
+          timezone: user.timezone,
+          weekStartDay: user.weekStartDay
+        }, 
+        token,
+        refreshToken
+      });
+    } catch (error: any) {
+      console.error("Login error:", error);
+      
+      // Handle Zod validation errors
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ 
+          message: "Validation failed", 
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof TooManyRequestsError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      
+      res.status(401).json({ message: error.message || "Login failed" });
+    }
+  });
+  
+  // Second sign-in step for accounts with two-factor authentication
+  app.post('/api/auth/2fa/verify', rateLimit(LOGIN_IP_LIMIT), async (req, res) => {
+    try {
+      const { challengeToken, code } = verifyTwoFactorSchema.parse(req.body);
+      const { user, token, refreshToken } = await completeTwoFactorLogin(challengeToken, code, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+
+      res.json({
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          profileImageUrl: user.profileImageUrl,
+          emailVerified: user.emailVerified,
+          timezone: user.timezone,
+          weekStartDay: user.weekStartDay
+        },
+        token,
+        refreshToken
+      });
+    } catch (error: any) {
+      console.error("Two-factor verification error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof TooManyRequestsError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Two-factor verification failed" });
+    }
+  });
+
+  // Two-factor settings. Routes that check a code are throttled per user.
+  app.get('/api/auth/2fa', isAuthenticated, async (req, res) => {
+    try {
+      res.json(await getTwoFactorStatus(req.user!.id));
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor status" });
+    }
+  });
+
+  // Start enrollment: returns the secret, its otpauth:// URI and a QR code to scan
+  app.post('/api/auth/2fa/setup', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(await beginTwoFactorSetup(user));
+    } catch (error: any) {
+      console.error("Error starting two-factor setup:", error);
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  // Confirm enrollment with a code from the app; the recovery codes are only shown now
+  app.post('/api/auth/2fa/enable', isAuthenticated, rateLimit(TWO_FACTOR_LIMIT, { key: (req) => req.user!.id }), async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await confirmTwoFactorSetup(req.user!.id, code);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      console.error("Error enabling two-factor authentication:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Replace every recovery code, used or not
+  app.post('/api/auth/2fa/recovery-codes', isAuthenticated, rateLimit(TWO_FACTOR_LIMIT, { key: (req) => req.user!.id }), async (req, res) => {
+    try {
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const recoveryCodes = await regenerateRecoveryCodes(req.user!.id, code);
+      res.json({ recoveryCodes });
+    } catch (error: any) {
+      console.error("Error regenerating recovery codes:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  // Turning two-factor off takes both the password and a current code
+  app.post('/api/auth/2fa/disable', isAuthenticated, rateLimit(TWO_FACTOR_LIMIT, { key: (req) => req.user!.id }), async (req, res) => {
+    try {
+      const { password, code } = disableTwoFactorSchema.parse(req.body);
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!user.passwordHash || !await verifyPassword(password, user.passwordHash)) {
+        return res.status(400).json({ message: "Incorrect password" });
+      }
+      await disableTwoFactor(user.id, code);
+      res.json({ enabled: false });
+    } catch (error: any) {
+      console.error("Error disabling two-factor authentication:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Exchange a refresh token for a new access token; the refresh token rotates every time
+  app.post('/api/auth/refresh', async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      const { token, refreshToken: nextRefreshToken } = await refreshAuthTokens(refreshToken, {
+        ipAddress: req.ip,
+        userAgent: req.get("user-agent"),
+      });
+      res.json({ token, refreshToken: nextRefreshToken });
+    } catch (error: any) {
+      console.error("Token refresh error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Token refresh failed" });
+    }
+  });
+  
+  // Confirm the email address from the link in the verification email
+  app.post('/api/auth/verify-email', rateLimit(EMAIL_LINK_IP_LIMIT), async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      const user = await verifyEmail(token);
+      res.json({ message: "Email verified", emailVerified: user.emailVerified });
+    } catch (error: any) {
+      console.error("Email verification error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Email verification failed" });
+    }
+  });
+
+  // Send a fresh verification link; earlier links stop working
+  app.post('/api/auth/resend-verification', isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Email is already verified" });
+      }
+      await sendVerificationEmail(user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      if (error instanceof TooManyRequestsError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Start a password reset. The response is the same whether or not the account exists.
+  // Throttled per IP here and per address inside requestPasswordReset.
+  app.post('/api/auth/forgot-password', rateLimit(EMAIL_LINK_IP_LIMIT), async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+      await requestPasswordReset(email);
+      res.json({ message: "If an account exists for that email, a reset link is on its way" });
+    } catch (error: any) {
+      console.error("Password reset request error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof TooManyRequestsError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+      }
+
+      res.status(500).json({ message: "Failed to request password reset" });
+    }
+  });
+
+  // Set a new password from the link in the reset email; signs out every session
+  app.post('/api/auth/reset-password', rateLimit(EMAIL_LINK_IP_LIMIT), async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      await resetPassword(token, password);
+      res.json({ message: "Password updated; please sign in with your new password" });
+    } catch (error: any) {
+      console.error("Password reset error:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Password reset failed" });
+    }
+  });
+  
+  // Get current user endpoint
+  app.get('/api/auth/user', isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json({
+        id: user.id,
+        email: user.email,
+        firstName: user.firstName,
+        lastName: user.lastName,
+        profileImageUrl: user.profileImageUrl,
+        emailVerified: user.emailVerified,
+        timezone: user.timezone,
+        weekStartDay: user.weekStartDay
+      });
+    } catch (error) {
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
+    }
+  });
+  
+  // Timezone and week-start day used for week boundaries
+  app.put('/api/user/settings', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const settings = updateUserSettingsSchema.parse(req.body);
+      const user = await storage.updateUserSettings(userId, settings);
+      res.json({
+        timezone: user.timezone,
+        weekStartDay: user.weekStartDay,
+      });
+    } catch (error: any) {
+      console.error("Error updating user settings:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Logout endpoint with token revocation
+  app.post('/api/auth/logout', isAuthenticated, async (req, res) => {
+    try {
+      // Get token from request (set by isAuthenticated middleware)
+      const token = (req as any).token;
+      
+      if (token) {
+        // Revoke the sign-in's refresh tokens, and with them its access tokens
+        await revokeAuthTokens(token);
+      }
+      
+      res.json({ message: "Logged out successfully" });
+    } catch (error) {
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Logout failed" });
+    }
+  });
+
+  // Devices the user is signed in on, most recently active first
+  app.get('/api/auth/sessions', isAuthenticated, async (req, res) => {
+    try {
+      const sessions = await storage.getActiveAuthSessions(req.user!.id);
+      res.json(sessions.map(session => ({
+        id: session.id,
+        deviceName: session.deviceName,
+        ipAddress: session.ipAddress,
+        userAgent: session.userAgent,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        current: session.id === req.user!.sessionId,
+      })));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Sign out every device, or every other device with exceptCurrent
+  app.post('/api/auth/sessions/revoke-all', isAuthenticated, async (req, res) => {
+    try {
+      const { exceptCurrent } = revokeSessionsSchema.parse(req.body ?? {});
+      const revoked = await storage.revokeUserAuthSessions(
+        req.user!.id,
+        exceptCurrent ? req.user!.sessionId : undefined,
+      );
+      res.json({ revoked });
+    } catch (error: any) {
+      console.error("Error revoking sessions:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+
+      res.status(500).json({ message: "Failed to sign out sessions" });
+    }
+  });
+
+  // Sign out one device; takes effect on its next request
+  app.delete('/api/auth/sessions/:id', isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await storage.revokeAuthSession(req.params.id, req.user!.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      res.json({ message: "Session signed out", current: req.params.id === req.user!.sessionId });
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // Category routes
+  // Default categories plus the user's own; ?includeArchived=true also lists archived ones
+  app.get('/api/categories', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const categories = await storage.getCategoriesForUser(userId, {
+        includeArchived: req.query.includeArchived === "true",
+      });
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
+  app.post('/api/categories', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const categoryData = insertCustomCategorySchema.parse(req.body);
+      const category = await storage.createCustomCategory(categoryData, userId);
+      res.status(201).json({ ...category, archived: false });
+    } catch (error: any) {
+      console.error("Error creating category:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+
+  app.patch('/api/categories/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const changes = updateCustomCategorySchema.parse(req.body);
+      const category = await storage.updateCustomCategory(id, userId, changes);
+      const updated = await storage.getCategoryForUser(category.id, userId);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error updating category:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to update category" });
+    }
+  });
+
+  // Archiving hides a category from planning; its goals and history are kept
+  app.post('/api/categories/:id/archive', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const { activeCategories } = await getUserPlan(userId);
+      if (activeCategories.length === 1 && activeCategories[0].id === id) {
+        return res.status(400).json({ message: "At least one category must stay active" });
+      }
+
+      const category = await storage.setCategoryArchived(id, userId, true);
+      res.json(category);
+    } catch (error) {
+      console.error("Error archiving category:", error);
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to archive category" });
+    }
+  });
+
+  app.delete('/api/categories/:id/archive', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const category = await storage.setCategoryArchived(id, userId, false);
+      res.json(category);
+    } catch (error) {
+      console.error("Error restoring category:", error);
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to restore category" });
+    }
+  });
+
+  app.get('/api/categories/:id/goals', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const category = await storage.getCategoryForUser(id, userId);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      const goals = await storage.getGoalsByCategoryAndUser(id, userId);
+      const estimates = await storage.getUserGoalEstimates(userId, goals.map(goal => goal.id));
+      const estimateByGoalId = new Map(estimates.map(estimate => [estimate.goalId, estimate]));
+
+      // Effort as this user sees it, with their own estimates applied. Archived goals are
+      // included (with archivedAt set) so weeks that already plan them can still show them.
+      res.json(goals.map(goal => ({
+        ...goal,
+        effort: resolveGoalEffort(goal, estimateByGoalId.get(goal.id)),
+      })));
+    } catch (error) {
+      console.error("Error fetching goals:", error);
+      res.status(500).json({ message: "Failed to fetch goals" });
+    }
+  });
+
+  app.post('/api/categories/:id/goals', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id: categoryId } = req.params;
+      const userId = req.user!.id;
+      const { description, targetDaysPerWeek, targetValue, unit, aggregation, difficulty, estimatedWeeklyMinutes } = req.body;
+
+      if (!description || description.trim().length === 0) {
+        return res.status(400).json({ message: "Goal description is required" });
+      }
+
+      if (description.length > 200) {
+        return res.status(400).json({ message: "Goal description must be 200 characters or less" });
+      }
+
+      if (targetDaysPerWeek != null && (!Number.isInteger(targetDaysPerWeek) || targetDaysPerWeek < 1 || targetDaysPerWeek > 7)) {
+        return res.status(400).json({ message: "Target days per week must be between 1 and 7" });
+      }
+
+      if (targetValue != null && (typeof targetValue !== "number" || !(targetValue > 0))) {
+        return res.status(400).json({ message: "Target amount must be a positive number" });
+      }
+
+      if (aggregation != null && !GOAL_AGGREGATIONS.includes(aggregation)) {
+        return res.status(400).json({ message: "Aggregation must be 'sum', 'max' or 'count'" });
+      }
+
+      if (unit != null && (typeof unit !== "string" || unit.length > 50)) {
+        return res.status(400).json({ message: "Unit must be 50 characters or less" });
+      }
+
+      if (difficulty != null && !isGoalDifficulty(difficulty)) {
+        return res.status(400).json({ message: "Difficulty must be 'easy', 'medium' or 'hard'" });
+      }
+
+      if (estimatedWeeklyMinutes != null && (!Number.isInteger(estimatedWeeklyMinutes) || estimatedWeeklyMinutes < 0 || estimatedWeeklyMinutes > 7 * 24 * 60)) {
+        return res.status(400).json({ message: "Estimated minutes per week must be a whole number of minutes within a week" });
+      }
+
+      const category = await storage.getCategoryForUser(categoryId, userId);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      if (category.archived) {
+        return res.status(400).json({ message: "Restore this category before adding goals to it" });
+      }
+
+      const goalData = {
+        categoryId,
+        description: description.trim(),
+        targetDaysPerWeek: targetDaysPerWeek ?? null,
+        targetValue: targetValue ?? null,
+        unit: targetValue != null ? unit?.trim() || null : null,
+        aggregation: aggregation ?? "sum",
+        difficulty: difficulty ?? "medium",
+        estimatedWeeklyMinutes: estimatedWeeklyMinutes ?? null,
+      };
+
+      const newGoal = await storage.createCustomGoal(goalData, userId);
+      res.status(201).json(newGoal);
+    } catch (error) {
+      console.error("Error creating custom goal:", error);
+      res.status(500).json({ message: "Failed to create custom goal" });
+    }
+  });
+
+  // Edit or delete a custom goal; goals already planned are archived rather than deleted
+  app.patch('/api/goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id: goalId } = req.params;
+      const userId = req.user!.id;
+      const changes = updateCustomGoalSchema.parse(req.body);
+      const updatedGoal = await storage.updateCustomGoal(goalId, userId, changes, await getEarliestEditableWeekStart(userId));
+      res.json(updatedGoal);
+    } catch (error: any) {
+      console.error("Error updating custom goal:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to update custom goal" });
+    }
+  });
+
+  app.delete('/api/goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id: goalId } = req.params;
+      const userId = req.user!.id;
+      const result = await storage.deleteCustomGoal(goalId, userId);
+      res.json({ goalId, result });
+    } catch (error) {
+      console.error("Error deleting custom goal:", error);
+
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to delete custom goal" });
+    }
+  });
+
+  // Per-user difficulty and time estimates for a goal
+  app.put('/api/goals/:id/estimate', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id: goalId } = req.params;
+      const userId = req.user!.id;
+      const estimate = updateGoalEstimateSchema.parse(req.body);
+
+      const [goal] = await storage.getGoalsByIds([goalId]);
+      if (!goal || (goal.isCustom && goal.createdBy !== userId)) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      await storage.upsertUserGoalEstimate(userId, goalId, estimate);
+      const [saved] = await storage.getUserGoalEstimates(userId, [goalId]);
+      res.json({ goalId, effort: resolveGoalEffort(goal, saved) });
+    } catch (error: any) {
+      console.error("Error saving goal estimate:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+
+      res.status(500).json({ message: "Failed to save goal estimate" });
+    }
+  });
+
+  app.delete('/api/goals/:id/estimate', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id: goalId } = req.params;
+      const userId = req.user!.id;
+
+      const [goal] = await storage.getGoalsByIds([goalId]);
+      if (!goal || (goal.isCustom && goal.createdBy !== userId)) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      await storage.deleteUserGoalEstimate(userId, goalId);
+      res.json({ goalId, effort: resolveGoalEffort(goal) });
+    } catch (error) {
+      console.error("Error resetting goal estimate:", error);
+      res.status(500).json({ message: "Failed to reset goal estimate" });
+    }
+  });
+
+  // Goal recommendations endpoint
+  app.get('/api/goals/recommendations', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { categoryId } = req.query;
+      const recommendations = await storage.getGoalRecommendations(
+        userId,
+        categoryId as string | undefined
+      );
+      res.json(recommendations);
+    } catch (error) {
+      console.error("Error fetching goal recommendations:", error);
+      res.status(500).json({ message: "Failed to fetch recommendations" });
+    }
+  });
+
+  // Plan template routes
+  app.get('/api/user/plan-template', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { template, activeCategories } = await getUserPlan(userId);
+      res.json({
+        ...template,
+        achievementThresholds: getAchievementThresholds(activeCategories.length),
+      });
+    } catch (error) {
+      console.error("Error fetching plan template:", error);
+      res.status(500).json({ message: "Failed to fetch plan template" });
+    }
+  });
+
+  app.put('/api/user/plan-template', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const {
+        goalsPerCategory,
+        minGoalsPerCategory,
+        maxGoalsPerCategory,
+        activeCategoryIds,
+        autoRollover,
+        rolloverIncompleteOnly,
+      } = req.body;
+
+      const validatedData = insertUserPlanTemplateSchema.parse({
+        userId,
+        goalsPerCategory,
+        minGoalsPerCategory,
+        maxGoalsPerCategory,
+        activeCategoryIds,
+        autoRollover,
+        rolloverIncompleteOnly,
+      });
+
+      if (validatedData.activeCategoryIds) {
+        const categories = await storage.getCategoriesForUser(userId);
+        const knownIds = new Set(categories.map(category => category.id));
+        if (validatedData.activeCategoryIds.some(id => !knownIds.has(id))) {
+          return res.status(400).json({ message: "Unknown category in active categories" });
+        }
+      }
+
+      const template = await storage.upsertUserPlanTemplate(validatedData);
+      res.json(template);
+    } catch (error: any) {
+      console.error("Error updating plan template:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+
+      res.status(500).json({ message: "Failed to update plan template" });
+    }
+  });
+
+  // User goal routes
+  app.get('/api/user/goals/week', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { weekStart } = await resolveRequestedWeek(userId, req.query.weekStart);
+      const userGoals = await storage.getUserGoalsForWeek(userId, weekStart);
+      res.json(userGoals);
+    } catch (error) {
+      console.error("Error fetching user goals:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch user goals" });
+    }
+  });
+
+  // Start an unplanned current week from last week's goals if the user asked for it.
+  // The dashboard calls this when it finds the current week empty.
+  app.post('/api/user/goals/auto-rollover', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { weekStart } = await resolveRequestedWeek(userId);
+      const rolledOverCount = await applyAutoRollover(userId, weekStart);
+
+      res.json({
+        rolledOverCount,
+        userGoals: await storage.getUserGoalsForWeek(userId, weekStart),
+      });
+    } catch (error) {
+      console.error("Error rolling over goals automatically:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to roll over goals" });
+    }
+  });
+
+  app.post('/api/user/goals/rollover', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { onlyIncomplete, weekStart: requestedWeekStart } = z.object({
+        onlyIncomplete: z.boolean().optional().default(false),
+        weekStart: z.string().optional(),
+      }).parse(req.body ?? {});
+
+      const { weekStart } = await resolveRequestedWeek(userId, requestedWeekStart);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      const fromWeekStart = await storage.getLatestPlannedWeekStart(userId, weekStart);
+      if (!fromWeekStart) {
+        return res.status(404).json({ message: "No previous week to roll over" });
+      }
+
+      // Categories switched off in the plan since then are left behind
+      const { activeCategories } = await getUserPlan(userId);
+      const rolledOver = await storage.rolloverUserGoals(userId, fromWeekStart, weekStart, {
+        onlyIncomplete,
+        categoryIds: activeCategories.map(category => category.id),
+      });
+
+      res.json({
+        fromWeekStart,
+        rolledOverCount: rolledOver.length,
+        userGoals: await storage.getUserGoalsForWeek(userId, weekStart),
+      });
+    } catch (error: any) {
+      console.error("Error rolling over goals:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to roll over goals" });
+    }
+  });
+
+  app.post('/api/user/select-goals', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const { goalIds, weekStart: requestedWeekStart } = req.body;
+      
+      if (!Array.isArray(goalIds) || goalIds.some(id => typeof id !== "string")) {
+        return res.status(400).json({ message: "goalIds must be an array of goal IDs" });
+      }
+
+      // Goals can be planned for the current week, ahead of time, or for a week still in its grace period
+      const { weekStart } = await resolveRequestedWeek(userId, requestedWeekStart);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      // Resolve the IDs and check them against the user's plan template
+      const [{ template, activeCategories }, goalsById, plannedGoals] = await Promise.all([
+        getUserPlan(userId),
+        storage.getGoalsByIds(goalIds),
+        storage.getUserGoalsForWeek(userId, weekStart),
+      ]);
+      const resolvedGoals = excludeNewlyArchivedGoals(goalsById, plannedGoals.map(planned => planned.goalId));
+      const selectionErrors = validateGoalSelection(template, activeCategories, goalIds, resolvedGoals, userId);
+      if (selectionErrors) {
+        return res.status(400).json({
+          message: "Invalid goal selection",
+          ...selectionErrors,
+        });
+      }
+
+      const userGoals = await storage.selectUserGoals(userId, goalIds, weekStart);
+
+      res.json(userGoals);
+    } catch (error) {
+      console.error("Error selecting goals:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to select goals" });
+    }
+  });
+
+  app.patch('/api/user-goals/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { goalId } = z.object({ goalId: z.string().min(1) }).parse(req.body);
+
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+      const weekGoals = await storage.getUserGoalsForWeek(userId, weekStart);
+      const userGoal = weekGoals.find(weekGoal => weekGoal.id === id);
+      if (!userGoal) {
+        return res.status(404).json({ message: "Goal not found in this week's plan" });
+      }
+
+      // Check the selection as it would look after the swap, reporting only
+      // the categories the swap touches
+      const goalIds = weekGoals.map(weekGoal => weekGoal.id === id ? goalId : weekGoal.goalId);
+      const [{ template, activeCategories }, goalsById] = await Promise.all([
+        getUserPlan(userId),
+        storage.getGoalsByIds(goalIds),
+      ]);
+      const resolvedGoals = excludeNewlyArchivedGoals(goalsById, weekGoals.map(weekGoal => weekGoal.goalId));
+      const newGoal = resolvedGoals.find(goal => goal.id === goalId);
+      const affectedCategoryIds = [userGoal.goal.categoryId, newGoal?.categoryId];
+      const selectionErrors = validateGoalSelection(template, activeCategories, goalIds, resolvedGoals, userId);
+      if (selectionErrors) {
+        const categoryErrors = Object.fromEntries(
+          Object.entries(selectionErrors.categoryErrors)
+            .filter(([categoryId]) => affectedCategoryIds.includes(categoryId)),
+        );
+        if (selectionErrors.errors.length > 0 || Object.keys(categoryErrors).length > 0) {
+          return res.status(400).json({
+            message: "Invalid goal swap",
+            errors: selectionErrors.errors,
+            categoryErrors,
+          });
+        }
+      }
+
+      const updatedGoal = await storage.swapUserGoal(id, userId, goalId);
+
+      res.json(updatedGoal);
+    } catch (error: any) {
+      console.error("Error swapping goal:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to swap goal" });
+    }
+  });
+
+  app.patch('/api/user-goals/:id/complete', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart);
+      
+      const updatedGoal = await storage.toggleGoalCompletion(id, userId);
+      
+      res.json(updatedGoal);
+    } catch (error) {
+      console.error("Error toggling goal completion:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to toggle goal completion" });
+    }
+  });
+
+  // Plan (or clear) the day and time a goal is meant to happen
+  app.put('/api/user-goals/:id/schedule', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      const slot = scheduleUserGoalSchema.parse(req.body);
+      const userGoal = await storage.scheduleUserGoal(id, userId, slot);
+
+      res.json(userGoal);
+    } catch (error: any) {
+      console.error("Error scheduling goal:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to schedule goal" });
+    }
+  });
+
+  // Check-in routes
+  app.post('/api/user-goals/:id/checkins', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart);
+      const { date, value, note } = req.body;
+
+      const validatedData = insertGoalCheckinSchema.omit({ userGoalId: true }).parse({ date, value, note });
+      const { checkin, userGoal } = await storage.addGoalCheckin(id, userId, validatedData);
+
+      res.status(201).json({ checkin, userGoal });
+    } catch (error: any) {
+      console.error("Error adding check-in:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to add check-in" });
+    }
+  });
+
+  app.delete('/api/user-goals/:id/checkins/:checkinId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, checkinId } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart);
+
+      const userGoal = await storage.removeGoalCheckin(id, checkinId, userId);
+
+      res.json(userGoal);
+    } catch (error) {
+      console.error("Error removing check-in:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove check-in" });
+    }
+  });
+
+  // Progress log routes
+  app.post('/api/user-goals/:id/logs', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart);
+      const { value, note } = req.body;
+
+      const validatedData = insertGoalProgressLogSchema.omit({ userGoalId: true }).parse({ value, note });
+      const { log, userGoal } = await storage.addGoalProgressLog(id, userId, validatedData);
+
+      res.status(201).json({ log, userGoal });
+    } catch (error: any) {
+      console.error("Error logging goal progress:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to log goal progress" });
+    }
+  });
+
+  app.delete('/api/user-goals/:id/logs/:logId', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, logId } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart);
+
+      const userGoal = await storage.removeGoalProgressLog(id, logId, userId);
+
+      res.json(userGoal);
+    } catch (error) {
+      console.error("Error removing goal progress:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove goal progress" });
+    }
+  });
+
+  // Sub-task routes
+  app.get('/api/user-goals/:id/subtasks', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const subtasks = await storage.getGoalSubtasks(id, userId);
+      res.json(subtasks);
+    } catch (error) {
+      console.error("Error fetching sub-tasks:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch sub-tasks" });
     }
-  };
-
-  await initializeDefaultData();
+  });
 
-  // Auth routes with proper validation and security
-  // Registration endpoint
-  app.post('/api/auth/register', async (req, res) => {
+  app.post('/api/user-goals/:id/subtasks', isAuthenticated, async (req: any, res) => {
     try {
-      // Validate input with Zod
-      const validatedData = registerSchema.parse(req.body);
-      const { email, password, firstName, lastName } = validatedData;
-      
-      const { user, token } = await registerUser(email, password, firstName, lastName);
-      
-      res.status(201).json({ 
-        user: { 
-          id: user.id, 
-          email: user.email, 
-          firstName: user.firstName, 
-          lastName: user.lastName,
-          profileImageUrl: user.profileImageUrl,
-          emailVerified: user.emailVerified
-        }, 
-        token 
-      });
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      const validatedData = insertGoalSubtaskSchema.parse(req.body);
+      const { subtask, userGoal } = await storage.addGoalSubtask(id, userId, validatedData);
+
+      res.status(201).json({ subtask, userGoal });
     } catch (error: any) {
-      console.error("Registration error:", error);
-      
-      // Handle Zod validation errors
+      console.error("Error adding sub-task:", error);
+
       if (error.name === 'ZodError') {
-        return res.status(400).json({ 
-          message: "Validation failed", 
+        return res.status(400).json({
+          message: "Validation failed",
           errors: error.errors.map((e: any) => e.message)
         });
       }
-      
-      res.status(400).json({ message: error.message || "Registration failed" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to add sub-task" });
     }
   });
-  
-  // Login endpoint
-  app.post('/api/auth/login', async (req, res) => {
+
+  app.put('/api/user-goals/:id/subtasks/order', isAuthenticated, async (req: any, res) => {
     try {
-      // Validate input with Zod
-      const validatedData = loginSchema.parse(req.body);
-      const { email, password } = validatedData;
-      
-      const { user, token } = await loginUser(email, password);
-      
-      res.json({ 
-        user: { 
-          id: user.id, 
-          email: user.email, 
-          firstName: user.firstName, 
-          lastName: user.lastName,
-          profileImageUrl: user.profileImageUrl,
-          emailVerified: user.emailVerified
-        }, 
-        token 
-      });
+      const { id } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      const { subtaskIds } = reorderGoalSubtasksSchema.parse(req.body);
+      const subtasks = await storage.reorderGoalSubtasks(id, userId, subtaskIds);
+
+      res.json(subtasks);
     } catch (error: any) {
-      console.error("Login error:", error);
-      
-      // Handle Zod validation errors
+      console.error("Error reordering sub-tasks:", error);
+
       if (error.name === 'ZodError') {
-        return res.status(400).json({ 
-          message: "Validation failed", 
+        return res.status(400).json({
+          message: "Validation failed",
           errors: error.errors.map((e: any) => e.message)
         });
       }
-      
-      res.status(401).json({ message: error.message || "Login failed" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reorder sub-tasks" });
     }
   });
-  
-  // Get current user endpoint
-  app.get('/api/auth/user', isAuthenticated, async (req, res) => {
+
+  app.patch('/api/user-goals/:id/subtasks/:subtaskId', isAuthenticated, async (req: any, res) => {
     try {
+      const { id, subtaskId } = req.params;
       const userId = req.user!.id;
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      const changes = updateGoalSubtaskSchema.parse(req.body);
+      // Checking a sub-task off is progress; renaming one is planning
+      await assertWeekEditable(userId, weekStart, { allowFuture: changes.completed === undefined });
+
+      const { subtask, userGoal } = await storage.updateGoalSubtask(id, subtaskId, userId, changes);
+
+      res.json({ subtask, userGoal });
+    } catch (error: any) {
+      console.error("Error updating sub-task:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
       }
-      res.json({
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        profileImageUrl: user.profileImageUrl,
-        emailVerified: user.emailVerified
-      });
-    } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
-    }
-  });
-  
-  // Logout endpoint with token revocation
-  app.post('/api/auth/logout', isAuthenticated, (req, res) => {
-    try {
-      // Get token from request (set by isAuthenticated middleware)
-      const token = (req as any).token;
-      
-      if (token) {
-        // Blacklist the token to prevent reuse
-        blacklistToken(token);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
       }
-      
-      res.json({ message: "Logged out successfully" });
-    } catch (error) {
-      console.error("Logout error:", error);
-      res.status(500).json({ message: "Logout failed" });
+      res.status(500).json({ message: "Failed to update sub-task" });
     }
   });
 
-  // Category routes
-  app.get('/api/categories', isAuthenticated, async (req, res) => {
+  app.delete('/api/user-goals/:id/subtasks/:subtaskId', isAuthenticated, async (req: any, res) => {
     try {
-      const categories = await storage.getCategories();
-      res.json(categories);
+      const { id, subtaskId } = req.params;
+      const userId = req.user!.id;
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      const userGoal = await storage.removeGoalSubtask(id, subtaskId, userId);
+
+      res.json(userGoal);
     } catch (error) {
-      console.error("Error fetching categories:", error);
-      res.status(500).json({ message: "Failed to fetch categories" });
+      console.error("Error removing sub-task:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove sub-task" });
     }
   });
 
-  app.get('/api/categories/:id/goals', isAuthenticated, async (req: any, res) => {
+  app.put('/api/user-goals/:id/subtask-settings', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = req.user!.id;
-      const goals = await storage.getGoalsByCategoryAndUser(id, userId);
-      res.json(goals);
-    } catch (error) {
-      console.error("Error fetching goals:", error);
-      res.status(500).json({ message: "Failed to fetch goals" });
+      const { weekStart } = await storage.getUserGoal(id, userId);
+      await assertWeekEditable(userId, weekStart, { allowFuture: true });
+
+      const { autoCompleteFromSubtasks } = updateSubtaskSettingsSchema.parse(req.body);
+      const userGoal = await storage.setSubtaskAutoComplete(id, userId, autoCompleteFromSubtasks);
+
+      res.json(userGoal);
+    } catch (error: any) {
+      console.error("Error updating sub-task settings:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update sub-task settings" });
     }
   });
 
-  app.post('/api/categories/:id/goals', isAuthenticated, async (req: any, res) => {
+  // Progress and achievement routes
+  // Notes are journaling, so they stay editable after the week closes
+  app.put('/api/user-goals/:id/note', isAuthenticated, async (req: any, res) => {
     try {
-      const { id: categoryId } = req.params;
+      const { id } = req.params;
       const userId = req.user!.id;
-      const { description } = req.body;
+      const { note } = updateUserGoalNoteSchema.parse(req.body);
+      const userGoal = await storage.updateUserGoalNote(id, userId, note);
+      res.json(userGoal);
+    } catch (error: any) {
+      console.error("Error saving goal note:", error);
 
-      if (!description || description.trim().length === 0) {
-        return res.status(400).json({ message: "Goal description is required" });
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
       }
-
-      if (description.length > 200) {
-        return res.status(400).json({ message: "Goal description must be 200 characters or less" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
       }
 
-      const goalData = {
-        categoryId,
-        description: description.trim(),
-      };
-
-      const newGoal = await storage.createCustomGoal(goalData, userId);
-      res.status(201).json(newGoal);
-    } catch (error) {
-      console.error("Error creating custom goal:", error);
-      res.status(500).json({ message: "Failed to create custom goal" });
+      res.status(500).json({ message: "Failed to save goal note" });
     }
   });
 
-  // Goal recommendations endpoint
-  app.get('/api/goals/recommendations', isAuthenticated, async (req: any, res) => {
+  // The week's reflection, or null when the user hasn't written one
+  app.get('/api/user/reflection', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const { categoryId } = req.query;
-      const recommendations = await storage.getGoalRecommendations(
-        userId,
-        categoryId as string | undefined
-      );
-      res.json(recommendations);
+      const { weekStart } = await resolveRequestedWeek(userId, req.query.weekStart);
+      const reflection = await storage.getWeeklyReflection(userId, weekStart);
+      res.json(reflection ?? null);
     } catch (error) {
-      console.error("Error fetching goal recommendations:", error);
-      res.status(500).json({ message: "Failed to fetch recommendations" });
+      console.error("Error fetching reflection:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch reflection" });
     }
   });
 
-  // User goal routes
-  app.get('/api/user/goals/week', isAuthenticated, async (req: any, res) => {
+  app.put('/api/user/reflection', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const weekStart = getWeekStart();
-      const userGoals = await storage.getUserGoalsForWeek(userId, weekStart);
-      res.json(userGoals);
-    } catch (error) {
-      console.error("Error fetching user goals:", error);
-      res.status(500).json({ message: "Failed to fetch user goals" });
+      const { weekStart: requestedWeekStart, ...body } = req.body;
+      const { weekStart, isFutureWeek } = await resolveRequestedWeek(userId, requestedWeekStart);
+      if (isFutureWeek) {
+        return res.status(400).json({ message: "You can only reflect on a week once it has started" });
+      }
+
+      const reflectionData = upsertWeeklyReflectionSchema.parse(body);
+      const reflection = await storage.upsertWeeklyReflection(userId, weekStart, reflectionData);
+      res.json(reflection);
+    } catch (error: any) {
+      console.error("Error saving reflection:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to save reflection" });
     }
   });
 
-  app.post('/api/user/select-goals', isAuthenticated, async (req: any, res) => {
+  // Everything the weekly review needs: how the week went, its reflection, and what's
+  // already planned for the week after
+  app.get('/api/user/review', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const { goalIds } = req.body;
-      
-      if (!Array.isArray(goalIds) || goalIds.length !== 12) {
-        return res.status(400).json({ message: "Must select exactly 12 goals (2 per category)" });
+      const { weekStart, isFutureWeek } = await resolveRequestedWeek(userId, req.query.weekStart);
+      if (isFutureWeek) {
+        return res.status(400).json({ message: "You can only review a week once it has started" });
       }
+      const nextWeekStart = addWeeks(weekStart, 1);
+      const settings = await getUserWeekSettings(userId);
 
-      const weekStart = getWeekStart();
-      const userGoals = await storage.selectUserGoals(userId, goalIds, weekStart);
-      res.json(userGoals);
+      const [userGoals, achievement, reflection, nextWeekGoals] = await Promise.all([
+        storage.getUserGoalsForWeek(userId, weekStart),
+        storage.getWeeklyAchievement(userId, weekStart),
+        storage.getWeeklyReflection(userId, weekStart),
+        storage.getUserGoalsForWeek(userId, nextWeekStart),
+      ]);
+      const completedGoals = userGoals.filter(goal => goal.completed).length;
+
+      res.json({
+        weekStart: weekStart.toISOString(),
+        nextWeekStart: nextWeekStart.toISOString(),
+        nextWeekEditable: isWeekEditable(nextWeekStart, settings, PAST_WEEK_GRACE_DAYS),
+        totalGoals: userGoals.length,
+        completedGoals,
+        progressPercentage: userGoals.length > 0 ? Math.round((completedGoals / userGoals.length) * 100) : 0,
+        achievement: achievement ?? null,
+        goals: userGoals.map(userGoal => ({
+          userGoalId: userGoal.id,
+          goalId: userGoal.goalId,
+          completed: userGoal.completed,
+          note: userGoal.note,
+          goal: userGoal.goal,
+          progress: calculateGoalProgress(userGoal),
+        })),
+        reflection: reflection ?? null,
+        nextWeekGoalIds: nextWeekGoals.map(userGoal => userGoal.goalId),
+      });
     } catch (error) {
-      console.error("Error selecting goals:", error);
-      res.status(500).json({ message: "Failed to select goals" });
+      console.error("Error fetching weekly review:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch weekly review" });
     }
   });
 
-  app.patch('/api/user-goals/:id/complete', isAuthenticated, async (req: any, res) => {
+  // Finish the review: save the reflection and turn the decisions into next week's plan
+  app.post('/api/user/review', isAuthenticated, async (req: any, res) => {
     try {
-      const { id } = req.params;
       const userId = req.user!.id;
-      
-      const updatedGoal = await storage.toggleGoalCompletion(id);
-      
-      // Check for achievements
-      const weekStart = getWeekStart();
-      const allUserGoals = await storage.getUserGoalsForWeek(userId, weekStart);
-      
-      // Count completed categories
-      const categoryCompletions = new Map<string, { completed: number; total: number }>();
-      
-      allUserGoals.forEach(userGoal => {
-        const categoryName = userGoal.goal.category.name;
-        if (!categoryCompletions.has(categoryName)) {
-          categoryCompletions.set(categoryName, { completed: 0, total: 0 });
-        }
-        const stats = categoryCompletions.get(categoryName)!;
-        stats.total++;
-        if (userGoal.completed) {
-          stats.completed++;
-        }
-      });
+      const { weekStart: requestedWeekStart, ...body } = req.body;
+      const { weekStart, isFutureWeek } = await resolveRequestedWeek(userId, requestedWeekStart);
+      if (isFutureWeek) {
+        return res.status(400).json({ message: "You can only review a week once it has started" });
+      }
+      const { reflection, decisions, addGoalIds } = weeklyReviewSchema.parse(body);
 
-      // Count categories with 2 completed goals
-      const categoriesCompleted = Array.from(categoryCompletions.values())
-        .filter(stats => stats.completed >= 2).length;
+      const nextWeekStart = addWeeks(weekStart, 1);
+      await assertWeekEditable(userId, nextWeekStart, { allowFuture: true });
 
-      // Create or update achievement
-      const existingAchievement = await storage.getWeeklyAchievement(userId, weekStart);
-      const level = calculateAchievementLevel(categoriesCompleted);
-      
-      if (!existingAchievement && level !== "none") {
-        await storage.createAchievement({
-          userId,
-          weekStart,
-          categoriesCompleted,
-          level,
+      const weekGoals = await storage.getUserGoalsForWeek(userId, weekStart);
+      const weekGoalIds = new Set(weekGoals.map(userGoal => userGoal.id));
+      if (decisions.some(decision => !weekGoalIds.has(decision.userGoalId))) {
+        return res.status(400).json({ message: "Decisions must refer to goals from the reviewed week" });
+      }
+
+      // Next week's plan has to satisfy the plan template like any other selection
+      const goalIds = buildNextWeekGoalIds(weekGoals, decisions, addGoalIds);
+      const [{ template, activeCategories }, goalsById, nextWeekGoals] = await Promise.all([
+        getUserPlan(userId),
+        storage.getGoalsByIds(goalIds),
+        storage.getUserGoalsForWeek(userId, nextWeekStart),
+      ]);
+      const resolvedGoals = excludeNewlyArchivedGoals(goalsById, nextWeekGoals.map(planned => planned.goalId));
+      const selectionErrors = validateGoalSelection(template, activeCategories, goalIds, resolvedGoals, userId);
+      if (selectionErrors) {
+        return res.status(400).json({
+          message: "Next week's plan doesn't fit your plan settings",
+          ...selectionErrors,
         });
       }
 
-      res.json(updatedGoal);
-    } catch (error) {
-      console.error("Error toggling goal completion:", error);
-      res.status(500).json({ message: "Failed to toggle goal completion" });
+      const savedReflection = reflection
+        ? await storage.upsertWeeklyReflection(userId, weekStart, reflection)
+        : await storage.getWeeklyReflection(userId, weekStart);
+      const userGoals = await storage.selectUserGoals(userId, goalIds, nextWeekStart);
+
+      res.json({
+        weekStart: weekStart.toISOString(),
+        nextWeekStart: nextWeekStart.toISOString(),
+        reflection: savedReflection ?? null,
+        userGoals,
+      });
+    } catch (error: any) {
+      console.error("Error completing weekly review:", error);
+
+      if (error.name === 'ZodError') {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: error.errors.map((e: any) => e.message)
+        });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+
+      res.status(500).json({ message: "Failed to complete weekly review" });
     }
   });
 
-  // Progress and achievement routes
   app.get('/api/user/progress', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user!.id;
-      const weekStart = getWeekStart();
+      const { weekStart, isCurrentWeek, isFutureWeek, editable } = await resolveRequestedWeek(userId, req.query.weekStart);
       
-      const [userGoals, achievement] = await Promise.all([
+      const [userGoals, achievement, { template, activeCategories }] = await Promise.all([
         storage.getUserGoalsForWeek(userId, weekStart),
         storage.getWeeklyAchievement(userId, weekStart),
+        getUserPlan(userId),
       ]);
 
       const totalGoals = userGoals.length;
       const completedGoals = userGoals.filter(goal => goal.completed).length;
       
       // Group by category and count completions
-      const categoryStats = new Map<string, { completed: number; total: number; name: string; color: string }>();
+      const categoryStats = new Map<string, { id: string; completed: number; total: number; name: string; icon: string; color: string }>();
       
       userGoals.forEach(userGoal => {
-        const categoryName = userGoal.goal.category.name;
-        const categoryColor = userGoal.goal.category.color || '';
+        const categoryId = userGoal.goal.category.id;
         
-        if (!categoryStats.has(categoryName)) {
-          categoryStats.set(categoryName, { 
+        if (!categoryStats.has(categoryId)) {
+          categoryStats.set(categoryId, { 
+            id: categoryId,
             completed: 0, 
             total: 0, 
-            name: categoryName,
-            color: categoryColor 
+            name: userGoal.goal.category.name,
+            icon: userGoal.goal.category.icon || '',
+            color: userGoal.goal.category.color || ''
           });
         }
-        const stats = categoryStats.get(categoryName)!;
+        const stats = categoryStats.get(categoryId)!;
         stats.total++;
         if (userGoal.completed) {
           stats.completed++;
@@ -394,23 +1812,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       const categories = Array.from(categoryStats.values());
-      const categoriesCompleted = categories.filter(cat => cat.completed >= 2).length;
+      const activeCategoryIds = new Set(activeCategories.map(category => category.id));
+      const categoriesCompleted = categories
+        .filter(cat => activeCategoryIds.has(cat.id) && isCategoryCompleted(template, cat.completed))
+        .length;
+
+      // Partial progress per goal, so quantitative goals can show how far along they are
+      const goals = userGoals.map(userGoal => ({
+        userGoalId: userGoal.id,
+        ...calculateGoalProgress(userGoal),
+      }));
 
       res.json({
         weekStart: weekStart.toISOString(),
+        isCurrentWeek,
+        isFutureWeek,
+        editable,
         totalGoals,
         completedGoals,
         categories,
         categoriesCompleted,
+        goals,
+        activeCategoryCount: activeCategories.length,
+        goalsPerCategory: template.goalsPerCategory,
+        achievementThresholds: getAchievementThresholds(activeCategories.length),
         achievement,
         progressPercentage: totalGoals > 0 ? Math.round((completedGoals / totalGoals) * 100) : 0,
       });
     } catch (error) {
       console.error("Error fetching progress:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch progress" });
     }
   });
 
+  app.get('/api/user/streaks', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const settings = await getUserWeekSettings(userId);
+      const streaks = await storage.getUserStreaks(userId, getWeekStart(settings));
+      res.json(streaks);
+    } catch (error) {
+      console.error("Error fetching streaks:", error);
+      res.status(500).json({ message: "Failed to fetch streaks" });
+    }
+  });
+
+  app.get('/api/user/xp', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const [totalXp, recentEntries] = await Promise.all([
+        storage.getUserXp(userId),
+        storage.getXpLedger(userId),
+      ]);
+      res.json({ ...getLevelProgress(totalXp), recentEntries });
+    } catch (error) {
+      console.error("Error fetching XP:", error);
+      res.status(500).json({ message: "Failed to fetch XP" });
+    }
+  });
+
+  // The full badge catalog, with earnedAt filled in for the badges the user holds
+  app.get('/api/user/badges', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const userBadges = await storage.getUserBadges(userId);
+      const earnedAt = new Map(userBadges.map(userBadge => [userBadge.badgeId, userBadge.earnedAt]));
+
+      res.json(BADGE_CATALOG.map(badge => ({
+        id: badge.id,
+        name: badge.name,
+        description: badge.description,
+        icon: badge.icon,
+        earnedAt: earnedAt.get(badge.id) ?? null,
+      })));
+    } catch (error) {
+      console.error("Error fetching badges:", error);
+      res.status(500).json({ message: "Failed to fetch badges" });
+    }
+  });
+
   app.get('/api/user/achievements', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user!.id;
@@ -517,16 +2000,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch('/api/friends/requests/:id', isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
+      const userId = req.user!.id;
       const { status } = req.body;
       
       if (!["accepted", "declined"].includes(status)) {
         return res.status(400).json({ message: "Status must be 'accepted' or 'declined'" });
       }
 
-      const friendship = await storage.respondToFriendRequest(id, status);
+      const friendship = await storage.respondToFriendRequest(id, userId, status);
       res.json(friendship);
     } catch (error: any) {
       console.error("Error responding to friend request:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(400).json({ message: error.message || "Failed to respond to friend request" });
     }
   });
@@ -591,6 +2078,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.status(201).json(sharedAchievement);
     } catch (error) {
       console.error("Error sharing achievement:", error);
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to share achievement" });
     }
   });
@@ -717,6 +2207,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user!.id;
       const reminders = await storage.scheduleGoalReminders(userId);
+      reminders.push(...await storage.sendDueReminders(userId));
       res.json({ 
         message: `Created ${reminders.length} goal reminders`,
         reminders 
@@ -727,6 +2218,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Called by the dashboard when it opens. Unlike the route above it only sends reminders
+  // that go out once (streak at risk, weekly recap, overdue goals), so repeat calls are harmless.
+  app.post('/api/notifications/due-reminders', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user!.id;
+      const reminders = await storage.sendDueReminders(userId);
+      res.json({ reminders });
+    } catch (error) {
+      console.error("Error sending due reminders:", error);
+      res.status(500).json({ message: "Failed to send due reminders" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
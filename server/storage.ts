@@ -1,17 +1,44 @@
 import {
   users,
+  authSessions,
+  refreshTokens,
+  authTokens,
+  rateLimitHits,
+  failedLoginAttempts,
+  userTwoFactor,
+  twoFactorRecoveryCodes,
   categories,
   goals,
   userGoals,
+  goalCheckins,
+  goalProgressLogs,
+  goalSubtasks,
   achievements,
   friendships,
   activityFeed,
   sharedAchievements,
   type User,
   type UpsertUser,
+  type AuthSession,
+  type InsertAuthSession,
+  type RefreshToken,
+  type InsertRefreshToken,
+  type AuthToken,
+  type InsertAuthToken,
+  type AuthTokenPurpose,
+  type InsertFailedLoginAttempt,
+  type UserTwoFactor,
   type Category,
   type Goal,
   type UserGoal,
+  type GoalCheckin,
+  type InsertGoalCheckin,
+  type GoalProgressLog,
+  type InsertGoalProgressLog,
+  type GoalSubtask,
+  type InsertGoalSubtask,
+  type UpdateGoalSubtask,
+  type ScheduleUserGoal,
   type Achievement,
   type Friendship,
   type ActivityFeed,
@@ -27,11 +54,77 @@ import {
   type Notification,
   type InsertUserNotificationPreferences,
   type InsertNotification,
+  type UserPlanTemplate,
+  type InsertUserPlanTemplate,
+  type UpdateUserSettings,
   userNotificationPreferences,
   notifications,
+  userPlanTemplates,
+  userBadges,
+  type UserBadge,
+  xpLedger,
+  type XpLedgerEntry,
+  userGoalEstimates,
+  type UserGoalEstimate,
+  type UpdateGoalEstimate,
+  userArchivedCategories,
+  type InsertCustomCategory,
+  type UpdateCustomCategory,
+  type UpdateCustomGoal,
+  weeklyReflections,
+  type WeeklyReflection,
+  type UpsertWeeklyReflection,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, or, gte, lte, desc, asc, sql, count } from "drizzle-orm";
+import { NotFoundError, ForbiddenError, HttpError } from "./errors";
+import { eq, and, or, gt, gte, lt, lte, ne, desc, asc, sql, count, countDistinct, inArray, isNull, type AnyColumn } from "drizzle-orm";
+import { calculateGoalProgress, isTrackedGoal } from "@shared/progress";
+import { DAY_MS, getDaysLeftInWeek, getWeekStart, isDateInWeek, resolveWeekSettings, toDateString } from "@shared/week";
+import { calculateStreak, type UserStreaks } from "@shared/streaks";
+import { isScheduleOverdue } from "@shared/schedule";
+import { buildBalancedLoad, getWeeklyMinutesBudget, resolveGoalEffort, type GoalEffort } from "@shared/effort";
+import { ACHIEVEMENT_XP, calculateGoalXp, getLevel } from "@shared/xp";
+import { getBadge, getBadgesForEvent, isBadgeEarned, type BadgeEvent, type BadgeStats } from "@shared/badges";
+import {
+  resolvePlanTemplate,
+  getActiveCategories,
+  isCategoryCompleted,
+  calculateAchievementLevel,
+  isHigherAchievementLevel,
+  type AchievementLevel,
+} from "@shared/plan";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const CATEGORY_NAME_TAKEN = "You already have a category with that name";
+
+// assertCategoryNameAvailable can race a concurrent create or rename; the unique index
+// on the lowercased name settles it, so its violation gets the same 409
+function toCategoryNameError(error: unknown): unknown {
+  return (error as { code?: string })?.code === "23505" ? new HttpError(409, CATEGORY_NAME_TAKEN) : error;
+}
+
+// What re-deriving a week changed: the achievement if it levelled up, and the net XP
+interface WeekSync {
+  levelUp: Achievement | null;
+  xpGained: number;
+}
+
+// Streak reminders go out once this few days (or fewer) are left in the week
+const STREAK_AT_RISK_DAYS_LEFT = 2;
+
+// The weekly recap goes out once this few days (or fewer) are left in the week
+const WEEKLY_RECAP_DAYS_LEFT = 1;
+
+// A category as one user sees it: a default category or their own, possibly archived
+export type UserCategory = Category & { archived: boolean };
+
+export type UserGoalWithDetails = UserGoal & {
+  goal: Goal & { category: Category };
+  checkins: GoalCheckin[];
+  progressLogs: GoalProgressLog[];
+  subtasks: GoalSubtask[];
+};
 
 // Interface for storage operations
 export interface IStorage {
@@ -41,22 +134,102 @@ export interface IStorage {
   // Custom authentication operations
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: UpsertUser): Promise<User>;
+  updateUserSettings(userId: string, settings: UpdateUserSettings): Promise<User>;
+  markEmailVerified(userId: string): Promise<User>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<User>;
+  
+  // Session and refresh token operations
+  createAuthSession(session: InsertAuthSession, firstToken: Omit<InsertRefreshToken, "familyId">): Promise<AuthSession>;
+  getAuthSession(id: string): Promise<AuthSession | undefined>;
+  getActiveAuthSessions(userId: string): Promise<AuthSession[]>;
+  touchAuthSession(id: string, seenFrom: { ipAddress?: string; userAgent?: string }): Promise<void>;
+  revokeAuthSession(id: string, userId?: string): Promise<boolean>;
+  revokeUserAuthSessions(userId: string, exceptSessionId?: string): Promise<number>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  rotateRefreshToken(currentId: string, next: InsertRefreshToken): Promise<RefreshToken | null>;
+  deleteExpiredAuthSessions(): Promise<number>;
+  
+  // Email verification and password reset token operations
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  consumeAuthToken(id: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+  
+  // Rate limiting and sign-in audit operations
+  recordRateLimitHit(key: string, hitAt: Date): Promise<void>;
+  consumeRateLimitHit(key: string, hitAt: Date, since: Date, limit: number): Promise<Date[]>;
+  getRateLimitHits(key: string, since: Date): Promise<Date[]>;
+  clearRateLimitHits(key: string): Promise<void>;
+  deleteRateLimitHitsBefore(before: Date): Promise<number>;
+  recordFailedLoginAttempt(attempt: InsertFailedLoginAttempt): Promise<void>;
+  
+  // Two-factor authentication operations
+  getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  startTwoFactorEnrollment(userId: string, secret: string): Promise<UserTwoFactor>;
+  enableTwoFactor(userId: string, usedStep: number, recoveryCodeHashes: string[]): Promise<void>;
+  markTwoFactorStepUsed(userId: string, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void>;
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+  countUnusedRecoveryCodes(userId: string): Promise<number>;
+  disableTwoFactor(userId: string): Promise<void>;
   
   // Category operations
   getCategories(): Promise<Category[]>;
+  getCategory(id: string): Promise<Category | undefined>;
   createCategory(category: InsertCategory): Promise<Category>;
+  getCategoriesForUser(userId: string, options?: { includeArchived?: boolean }): Promise<UserCategory[]>;
+  getCategoryForUser(id: string, userId: string): Promise<UserCategory | undefined>;
+  createCustomCategory(category: InsertCustomCategory, userId: string): Promise<Category>;
+  updateCustomCategory(id: string, userId: string, changes: UpdateCustomCategory): Promise<Category>;
+  setCategoryArchived(id: string, userId: string, archived: boolean): Promise<UserCategory>;
   
   // Goal operations
   getGoalsByCategory(categoryId: string): Promise<Goal[]>;
   getGoalsByCategoryAndUser(categoryId: string, userId: string): Promise<Goal[]>;
+  getGoalsByIds(goalIds: string[]): Promise<Goal[]>;
   createGoal(goal: InsertGoal): Promise<Goal>;
   createCustomGoal(goal: InsertGoal, userId: string): Promise<Goal>;
+  updateCustomGoal(goalId: string, userId: string, changes: UpdateCustomGoal, openSinceWeekStart: Date): Promise<Goal>;
+  deleteCustomGoal(goalId: string, userId: string): Promise<"deleted" | "archived">;
+  getUserGoalEstimates(userId: string, goalIds?: string[]): Promise<UserGoalEstimate[]>;
+  upsertUserGoalEstimate(userId: string, goalId: string, estimate: UpdateGoalEstimate): Promise<UserGoalEstimate>;
+  deleteUserGoalEstimate(userId: string, goalId: string): Promise<boolean>;
   
   // User goal operations
-  getUserGoalsForWeek(userId: string, weekStart: Date): Promise<(UserGoal & { goal: Goal & { category: Category } })[]>;
+  getUserGoalsForWeek(userId: string, weekStart: Date): Promise<UserGoalWithDetails[]>;
   selectUserGoals(userId: string, goalIds: string[], weekStart: Date): Promise<UserGoal[]>;
-  toggleGoalCompletion(userGoalId: string): Promise<UserGoal>;
+  getUserGoal(userGoalId: string, userId: string): Promise<UserGoal>;
+  swapUserGoal(userGoalId: string, userId: string, goalId: string): Promise<UserGoal>;
+  getLatestPlannedWeekStart(userId: string, before: Date): Promise<Date | undefined>;
+  getRolloverGoalIds(userId: string, fromWeekStart: Date, toWeekStart: Date, options: { onlyIncomplete: boolean; categoryIds?: string[] }): Promise<string[]>;
+  rolloverUserGoals(userId: string, fromWeekStart: Date, toWeekStart: Date, options: { onlyIncomplete: boolean; categoryIds?: string[] }): Promise<UserGoal[]>;
+  toggleGoalCompletion(userGoalId: string, userId: string): Promise<UserGoal>;
+  scheduleUserGoal(userGoalId: string, userId: string, slot: ScheduleUserGoal): Promise<UserGoal>;
+  
+  // Check-in operations
+  addGoalCheckin(userGoalId: string, userId: string, checkin: Omit<InsertGoalCheckin, "userGoalId">): Promise<{ checkin: GoalCheckin; userGoal: UserGoal }>;
+  removeGoalCheckin(userGoalId: string, checkinId: string, userId: string): Promise<UserGoal>;
+  
+  // Progress log operations
+  addGoalProgressLog(userGoalId: string, userId: string, log: Omit<InsertGoalProgressLog, "userGoalId">): Promise<{ log: GoalProgressLog; userGoal: UserGoal }>;
+  removeGoalProgressLog(userGoalId: string, logId: string, userId: string): Promise<UserGoal>;
+  
+  // Sub-task operations
+  getGoalSubtasks(userGoalId: string, userId: string): Promise<GoalSubtask[]>;
+  addGoalSubtask(userGoalId: string, userId: string, subtask: InsertGoalSubtask): Promise<{ subtask: GoalSubtask; userGoal: UserGoal }>;
+  updateGoalSubtask(userGoalId: string, subtaskId: string, userId: string, changes: UpdateGoalSubtask): Promise<{ subtask: GoalSubtask; userGoal: UserGoal }>;
+  removeGoalSubtask(userGoalId: string, subtaskId: string, userId: string): Promise<UserGoal>;
+  reorderGoalSubtasks(userGoalId: string, userId: string, subtaskIds: string[]): Promise<GoalSubtask[]>;
+  setSubtaskAutoComplete(userGoalId: string, userId: string, enabled: boolean): Promise<UserGoal>;
+  
+  // Plan template operations
+  getUserPlanTemplate(userId: string): Promise<UserPlanTemplate | undefined>;
+  upsertUserPlanTemplate(template: InsertUserPlanTemplate): Promise<UserPlanTemplate>;
   
+  // Reflection operations
+  getWeeklyReflection(userId: string, weekStart: Date): Promise<WeeklyReflection | undefined>;
+  getWeeklyReflections(userId: string, startDate: Date, endDate: Date): Promise<WeeklyReflection[]>;
+  upsertWeeklyReflection(userId: string, weekStart: Date, reflection: UpsertWeeklyReflection): Promise<WeeklyReflection>;
+  updateUserGoalNote(userGoalId: string, userId: string, note: string | null): Promise<UserGoal>;
+
   // Achievement operations
   getWeeklyAchievement(userId: string, weekStart: Date): Promise<Achievement | undefined>;
   createAchievement(achievement: InsertAchievement): Promise<Achievement>;
@@ -69,10 +242,13 @@ export interface IStorage {
     completedGoals: number;
     completionRate: number;
     categoriesCompleted: number;
+    mood: number | null;
+    energy: number | null;
   }[]>;
   getCategoryPerformance(userId: string, startDate: Date, endDate: Date): Promise<{
     categoryId: string;
     categoryName: string;
+    categoryColor: string | null;
     totalGoals: number;
     completedGoals: number;
     completionRate: number;
@@ -87,10 +263,21 @@ export interface IStorage {
     categoriesCompleted: number;
   }[]>;
   
+  // Streak operations
+  getUserStreaks(userId: string, currentWeekStart: Date): Promise<UserStreaks>;
+  
+  // Badge operations
+  getUserBadges(userId: string): Promise<UserBadge[]>;
+  evaluateBadges(userId: string, event: BadgeEvent): Promise<UserBadge[]>;
+  
+  // XP operations
+  getUserXp(userId: string): Promise<number>;
+  getXpLedger(userId: string, limit?: number): Promise<XpLedgerEntry[]>;
+  
   // Social operations
   sendFriendRequest(requesterId: string, addresseeEmail: string): Promise<Friendship>;
   getFriendRequests(userId: string): Promise<(Friendship & { requester: User; addressee: User })[]>;
-  respondToFriendRequest(friendshipId: string, status: "accepted" | "declined"): Promise<Friendship>;
+  respondToFriendRequest(friendshipId: string, userId: string, status: "accepted" | "declined"): Promise<Friendship>;
   getFriends(userId: string): Promise<User[]>;
   removeFriend(userId: string, friendId: string): Promise<void>;
   createActivity(activity: InsertActivityFeed): Promise<ActivityFeed>;
@@ -104,6 +291,7 @@ export interface IStorage {
     goal: Goal & { category: Category };
     score: number;
     reason: string;
+    effort: GoalEffort;
   }[]>;
   
   // Notification operations
@@ -116,7 +304,13 @@ export interface IStorage {
   markAllNotificationsAsRead(userId: string): Promise<void>;
   deleteNotification(notificationId: string, userId: string): Promise<boolean>;
   scheduleGoalReminders(userId: string): Promise<Notification[]>;
+  sendStreakAtRiskReminder(userId: string): Promise<Notification | null>;
+  sendOverdueGoalReminders(userId: string): Promise<Notification[]>;
+  sendWeeklyRecap(userId: string): Promise<Notification | null>;
+  sendDueReminders(userId: string): Promise<Notification[]>;
   createAchievementCelebration(userId: string, achievement: Achievement): Promise<Notification>;
+  createBadgeNotification(userId: string, userBadge: UserBadge): Promise<Notification>;
+  createLevelUpNotification(userId: string, level: number): Promise<Notification>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -159,11 +353,432 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // A new timezone or week-start day moves where the current week starts. Plans,
+  // achievements, XP and reflections of the current and future weeks move with it, so
+  // the week under way keeps its data rather than showing up empty to be planned again.
+  // Past weeks keep their keys.
+  async updateUserSettings(userId: string, settings: UpdateUserSettings): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!existing) {
+        throw new NotFoundError("User not found");
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ ...settings, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+
+      const fromWeekStart = getWeekStart(resolveWeekSettings(existing));
+      const toWeekStart = getWeekStart(resolveWeekSettings(user));
+      const shiftDays = Math.round((toWeekStart.getTime() - fromWeekStart.getTime()) / DAY_MS);
+      // Keys a whole number of weeks apart still fall on the new week-start day
+      if (shiftDays % 7 !== 0) {
+        await this.shiftWeekKeys(tx, userId, fromWeekStart, shiftDays);
+      }
+      return user;
+    });
+  }
+
+  private async shiftWeekKeys(tx: Transaction, userId: string, fromWeekStart: Date, shiftDays: number) {
+    const shift = (weekStart: AnyColumn) => sql`${weekStart} + make_interval(days => ${shiftDays})`;
+
+    // Scheduled slots that fall outside the moved week are cleared
+    const shiftedGoalWeek = shift(userGoals.weekStart);
+    const slotStillInWeek = sql`${userGoals.scheduledDate} BETWEEN (${shiftedGoalWeek})::date AND (${shiftedGoalWeek})::date + 6`;
+    await tx
+      .update(userGoals)
+      .set({
+        weekStart: shiftedGoalWeek,
+        scheduledDate: sql`CASE WHEN ${slotStillInWeek} THEN ${userGoals.scheduledDate} END`,
+        scheduledTime: sql`CASE WHEN ${slotStillInWeek} THEN ${userGoals.scheduledTime} END`,
+      })
+      .where(and(eq(userGoals.userId, userId), gte(userGoals.weekStart, fromWeekStart)));
+
+    await tx
+      .update(achievements)
+      .set({ weekStart: shift(achievements.weekStart) })
+      .where(and(eq(achievements.userId, userId), gte(achievements.weekStart, fromWeekStart)));
+
+    await tx
+      .update(weeklyReflections)
+      .set({ weekStart: shift(weeklyReflections.weekStart) })
+      .where(and(eq(weeklyReflections.userId, userId), gte(weeklyReflections.weekStart, fromWeekStart)));
+
+    // Achievement XP is keyed by the week's start date as well
+    const shiftedXpWeek = shift(xpLedger.weekStart);
+    await tx
+      .update(xpLedger)
+      .set({
+        weekStart: shiftedXpWeek,
+        sourceId: sql`CASE WHEN ${xpLedger.source} = 'achievement' THEN to_char(${shiftedXpWeek}, 'YYYY-MM-DD') ELSE ${xpLedger.sourceId} END`,
+      })
+      .where(and(eq(xpLedger.userId, userId), gte(xpLedger.weekStart, fromWeekStart)));
+  }
+
+  async markEmailVerified(userId: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerified: true, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    return user;
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) {
+      throw new NotFoundError("User not found");
+    }
+    return user;
+  }
+
+  // Session and refresh token operations
+  async createAuthSession(session: InsertAuthSession, firstToken: Omit<InsertRefreshToken, "familyId">): Promise<AuthSession> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(authSessions).values(session).returning();
+      await tx.insert(refreshTokens).values({ ...firstToken, familyId: created.id });
+      return created;
+    });
+  }
+
+  async getAuthSession(id: string): Promise<AuthSession | undefined> {
+    const [session] = await db.select().from(authSessions).where(eq(authSessions.id, id));
+    return session;
+  }
+
+  async getActiveAuthSessions(userId: string): Promise<AuthSession[]> {
+    return await db
+      .select()
+      .from(authSessions)
+      .where(
+        and(
+          eq(authSessions.userId, userId),
+          isNull(authSessions.revokedAt),
+          gt(authSessions.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(authSessions.lastSeenAt));
+  }
+
+  async touchAuthSession(id: string, seenFrom: { ipAddress?: string; userAgent?: string }): Promise<void> {
+    await db
+      .update(authSessions)
+      .set({ ...seenFrom, lastSeenAt: new Date() })
+      .where(eq(authSessions.id, id));
+  }
+
+  // Revoking a session also revokes its refresh tokens, so it can't be renewed.
+  // With a userId, only that user's session is touched; returns whether one was revoked.
+  async revokeAuthSession(id: string, userId?: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [revoked] = await tx
+        .update(authSessions)
+        .set({ revokedAt: now })
+        .where(
+          and(
+            eq(authSessions.id, id),
+            userId ? eq(authSessions.userId, userId) : undefined,
+            isNull(authSessions.revokedAt)
+          )
+        )
+        .returning({ id: authSessions.id });
+      // Nothing matched: another user's session, or one already revoked along with its tokens
+      if (!revoked) {
+        return false;
+      }
+      await tx
+        .update(refreshTokens)
+        .set({ revokedAt: now })
+        .where(and(eq(refreshTokens.familyId, id), isNull(refreshTokens.revokedAt)));
+      return true;
+    });
+  }
+
+  // Sign the user out of every device, optionally sparing the one asking
+  async revokeUserAuthSessions(userId: string, exceptSessionId?: string): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const revoked = await tx
+        .update(authSessions)
+        .set({ revokedAt: now })
+        .where(
+          and(
+            eq(authSessions.userId, userId),
+            isNull(authSessions.revokedAt),
+            exceptSessionId ? ne(authSessions.id, exceptSessionId) : undefined
+          )
+        )
+        .returning({ id: authSessions.id });
+      if (revoked.length > 0) {
+        await tx
+          .update(refreshTokens)
+          .set({ revokedAt: now })
+          .where(
+            and(
+              inArray(refreshTokens.familyId, revoked.map(session => session.id)),
+              isNull(refreshTokens.revokedAt)
+            )
+          );
+      }
+      return revoked.length;
+    });
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  // Mark the current token as used and issue its successor, extending the session.
+  // Returns null when the token was already rotated or revoked, e.g. by a concurrent
+  // refresh that got there first.
+  async rotateRefreshToken(currentId: string, next: InsertRefreshToken): Promise<RefreshToken | null> {
+    return await db.transaction(async (tx) => {
+      const [rotated] = await tx
+        .update(refreshTokens)
+        .set({ rotatedAt: new Date() })
+        .where(
+          and(
+            eq(refreshTokens.id, currentId),
+            isNull(refreshTokens.rotatedAt),
+            isNull(refreshTokens.revokedAt)
+          )
+        )
+        .returning({ id: refreshTokens.id });
+      if (!rotated) {
+        return null;
+      }
+
+      const [created] = await tx.insert(refreshTokens).values(next).returning();
+      await tx
+        .update(authSessions)
+        .set({ expiresAt: next.expiresAt, lastSeenAt: new Date() })
+        .where(eq(authSessions.id, next.familyId));
+      return created;
+    });
+  }
+
+  // Expired sessions take their refresh tokens with them; rotated-out tokens of live
+  // sessions are removed once they expire too
+  async deleteExpiredAuthSessions(): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const removed = await tx
+        .delete(authSessions)
+        .where(lt(authSessions.expiresAt, now))
+        .returning({ id: authSessions.id });
+      await tx.delete(refreshTokens).where(lt(refreshTokens.expiresAt, now));
+      return removed.length;
+    });
+  }
+
+  // Email verification and password reset token operations
+  // Only the newest link of each kind works: issuing one retires the user's earlier,
+  // unused links for the same purpose and clears out expired ones.
+  async createAuthToken(token: InsertAuthToken): Promise<AuthToken> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      await tx
+        .delete(authTokens)
+        .where(and(eq(authTokens.userId, token.userId), lt(authTokens.expiresAt, now)));
+      await tx
+        .update(authTokens)
+        .set({ usedAt: now })
+        .where(
+          and(
+            eq(authTokens.userId, token.userId),
+            eq(authTokens.purpose, token.purpose),
+            isNull(authTokens.usedAt)
+          )
+        );
+      const [created] = await tx.insert(authTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  // Mark a token used. Returns undefined when it is unknown, expired or already used,
+  // so two requests racing with the same link cannot both succeed.
+  async consumeAuthToken(id: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const [consumed] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.id, id),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, new Date())
+        )
+      )
+      .returning();
+    return consumed;
+  }
+
+  // Rate limiting and sign-in audit operations
+  async recordRateLimitHit(key: string, hitAt: Date): Promise<void> {
+    await db.insert(rateLimitHits).values({ key, hitAt });
+  }
+
+  // Returns the key's hits since `since` and records a new one only if there were fewer
+  // than `limit`. The advisory lock serializes concurrent requests for the same key, so
+  // they can't all see room in the window and all be let through.
+  async consumeRateLimitHit(key: string, hitAt: Date, since: Date, limit: number): Promise<Date[]> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${key}))`);
+      const hits = await tx
+        .select({ hitAt: rateLimitHits.hitAt })
+        .from(rateLimitHits)
+        .where(and(eq(rateLimitHits.key, key), gte(rateLimitHits.hitAt, since)))
+        .orderBy(asc(rateLimitHits.hitAt));
+      if (hits.length < limit) {
+        await tx.insert(rateLimitHits).values({ key, hitAt });
+      }
+      return hits.map(hit => hit.hitAt);
+    });
+  }
+
+  async getRateLimitHits(key: string, since: Date): Promise<Date[]> {
+    const hits = await db
+      .select({ hitAt: rateLimitHits.hitAt })
+      .from(rateLimitHits)
+      .where(and(eq(rateLimitHits.key, key), gte(rateLimitHits.hitAt, since)))
+      .orderBy(asc(rateLimitHits.hitAt));
+    return hits.map(hit => hit.hitAt);
+  }
+
+  async clearRateLimitHits(key: string): Promise<void> {
+    await db.delete(rateLimitHits).where(eq(rateLimitHits.key, key));
+  }
+
+  async deleteRateLimitHitsBefore(before: Date): Promise<number> {
+    const removed = await db
+      .delete(rateLimitHits)
+      .where(lt(rateLimitHits.hitAt, before))
+      .returning({ id: rateLimitHits.id });
+    return removed.length;
+  }
+
+  async recordFailedLoginAttempt(attempt: InsertFailedLoginAttempt): Promise<void> {
+    await db.insert(failedLoginAttempts).values(attempt);
+  }
+
+  // Two-factor authentication operations
+  async getUserTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [twoFactor] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return twoFactor;
+  }
+
+  // Starting over replaces an unconfirmed secret; an enabled one must be disabled first
+  async startTwoFactorEnrollment(userId: string, secret: string): Promise<UserTwoFactor> {
+    const [twoFactor] = await db
+      .insert(userTwoFactor)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, enabledAt: null, lastUsedStep: null, updatedAt: new Date() },
+        setWhere: isNull(userTwoFactor.enabledAt),
+      })
+      .returning();
+    if (!twoFactor) {
+      throw new HttpError(400, "Two-factor authentication is already enabled");
+    }
+    return twoFactor;
+  }
+
+  async enableTwoFactor(userId: string, usedStep: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [enabled] = await tx
+        .update(userTwoFactor)
+        .set({ enabledAt: new Date(), lastUsedStep: usedStep, updatedAt: new Date() })
+        .where(and(eq(userTwoFactor.userId, userId), isNull(userTwoFactor.enabledAt)))
+        .returning({ id: userTwoFactor.id });
+      if (!enabled) {
+        throw new HttpError(400, "Start two-factor setup before confirming it");
+      }
+      await this.replaceRecoveryCodesWith(tx, userId, recoveryCodeHashes);
+    });
+  }
+
+  // Returns false when this or a later step was already used, e.g. by a concurrent sign-in
+  async markTwoFactorStepUsed(userId: string, step: number): Promise<boolean> {
+    const [updated] = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step, updatedAt: new Date() })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        )
+      )
+      .returning({ id: userTwoFactor.id });
+    return !!updated;
+  }
+
+  async replaceRecoveryCodes(userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await this.replaceRecoveryCodesWith(tx, userId, recoveryCodeHashes);
+    });
+  }
+
+  private async replaceRecoveryCodesWith(tx: Transaction, userId: string, recoveryCodeHashes: string[]): Promise<void> {
+    await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    if (recoveryCodeHashes.length > 0) {
+      await tx
+        .insert(twoFactorRecoveryCodes)
+        .values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+    }
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const [consumed] = await db
+      .update(twoFactorRecoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(twoFactorRecoveryCodes.userId, userId),
+          eq(twoFactorRecoveryCodes.codeHash, codeHash),
+          isNull(twoFactorRecoveryCodes.usedAt)
+        )
+      )
+      .returning({ id: twoFactorRecoveryCodes.id });
+    return !!consumed;
+  }
+
+  async countUnusedRecoveryCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)));
+    return result?.count ?? 0;
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    });
+  }
+
   // Category operations
   async getCategories(): Promise<Category[]> {
     return await db.select().from(categories).orderBy(asc(categories.name));
   }
 
+  async getCategory(id: string): Promise<Category | undefined> {
+    const [category] = await db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
   async createCategory(category: InsertCategory): Promise<Category> {
     const [newCategory] = await db
       .insert(categories)
@@ -172,141 +787,1129 @@ export class DatabaseStorage implements IStorage {
     return newCategory;
   }
 
-  // Goal operations
-  async getGoalsByCategory(categoryId: string): Promise<Goal[]> {
-    return await db
-      .select()
-      .from(goals)
-      .where(and(eq(goals.categoryId, categoryId), eq(goals.isCustom, false)))
-      .orderBy(asc(goals.description));
+  async getCategoriesForUser(userId: string, options: { includeArchived?: boolean } = {}): Promise<UserCategory[]> {
+    const userCategories = await this.selectUserCategories(db, userId);
+    return options.includeArchived ? userCategories : userCategories.filter(category => !category.archived);
+  }
+
+  async getCategoryForUser(id: string, userId: string): Promise<UserCategory | undefined> {
+    const userCategories = await this.selectUserCategories(db, userId);
+    return userCategories.find(category => category.id === id);
+  }
+
+  async createCustomCategory(category: InsertCustomCategory, userId: string): Promise<Category> {
+    await this.assertCategoryNameAvailable(userId, category.name);
+
+    try {
+      return await db.transaction(async (tx) => {
+        const [newCategory] = await tx
+          .insert(categories)
+          .values({ ...category, createdBy: userId })
+          .returning();
+
+        // A plan limited to chosen categories would otherwise leave the new one out
+        const [template] = await tx
+          .select()
+          .from(userPlanTemplates)
+          .where(eq(userPlanTemplates.userId, userId));
+        if (template?.activeCategoryIds) {
+          await tx
+            .update(userPlanTemplates)
+            .set({ activeCategoryIds: [...template.activeCategoryIds, newCategory.id], updatedAt: new Date() })
+            .where(eq(userPlanTemplates.id, template.id));
+        }
+
+        return newCategory;
+      });
+    } catch (error) {
+      throw toCategoryNameError(error);
+    }
+  }
+
+  async updateCustomCategory(id: string, userId: string, changes: UpdateCustomCategory): Promise<Category> {
+    const category = await this.getCategoryForUser(id, userId);
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+    if (category.createdBy !== userId) {
+      throw new ForbiddenError("Default categories can't be edited, only archived");
+    }
+    if (changes.name !== undefined) {
+      await this.assertCategoryNameAvailable(userId, changes.name, id);
+    }
+
+    const [updatedCategory] = await db
+      .update(categories)
+      .set(changes)
+      .where(eq(categories.id, id))
+      .returning()
+      .catch(error => {
+        throw toCategoryNameError(error);
+      });
+    return updatedCategory;
+  }
+
+  async setCategoryArchived(id: string, userId: string, archived: boolean): Promise<UserCategory> {
+    const category = await this.getCategoryForUser(id, userId);
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+
+    if (archived) {
+      await db
+        .insert(userArchivedCategories)
+        .values({ userId, categoryId: id })
+        .onConflictDoNothing();
+    } else {
+      await db
+        .delete(userArchivedCategories)
+        .where(and(eq(userArchivedCategories.userId, userId), eq(userArchivedCategories.categoryId, id)));
+    }
+    return { ...category, archived };
+  }
+
+  // Default categories plus the user's own, flagged when the user archived them
+  private async selectUserCategories(executor: Transaction | typeof db, userId: string): Promise<UserCategory[]> {
+    const rows = await executor
+      .select({ category: categories, archivedId: userArchivedCategories.id })
+      .from(categories)
+      .leftJoin(
+        userArchivedCategories,
+        and(eq(userArchivedCategories.categoryId, categories.id), eq(userArchivedCategories.userId, userId)),
+      )
+      .where(or(isNull(categories.createdBy), eq(categories.createdBy, userId)))
+      .orderBy(asc(categories.name));
+    return rows.map(({ category, archivedId }) => ({ ...category, archived: archivedId !== null }));
+  }
+
+  // Names must be unique among the categories a user can see, ignoring case
+  private async assertCategoryNameAvailable(userId: string, name: string, exceptId?: string): Promise<void> {
+    const userCategories = await this.selectUserCategories(db, userId);
+    const normalized = name.trim().toLowerCase();
+    if (userCategories.some(category => category.id !== exceptId && category.name.toLowerCase() === normalized)) {
+      throw new HttpError(409, CATEGORY_NAME_TAKEN);
+    }
+  }
+
+  // Goal operations
+  async getGoalsByCategory(categoryId: string): Promise<Goal[]> {
+    return await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.categoryId, categoryId), eq(goals.isCustom, false)))
+      .orderBy(asc(goals.description));
+  }
+
+  async getGoalsByCategoryAndUser(categoryId: string, userId: string): Promise<Goal[]> {
+    return await db
+      .select()
+      .from(goals)
+      .where(
+        and(
+          eq(goals.categoryId, categoryId),
+          or(
+            eq(goals.isCustom, false), // System goals
+            eq(goals.createdBy, userId) // User's custom goals
+          )
+        )
+      )
+      .orderBy(asc(goals.isCustom), asc(goals.description)); // System goals first, then custom
+  }
+
+  async getGoalsByIds(goalIds: string[]): Promise<Goal[]> {
+    if (goalIds.length === 0) return [];
+    return await db
+      .select()
+      .from(goals)
+      .where(inArray(goals.id, goalIds));
+  }
+
+  async createGoal(goal: InsertGoal): Promise<Goal> {
+    const [newGoal] = await db
+      .insert(goals)
+      .values(goal)
+      .returning();
+    return newGoal;
+  }
+
+  async createCustomGoal(goal: InsertGoal, userId: string): Promise<Goal> {
+    const customGoal = {
+      ...goal,
+      createdBy: userId,
+      isCustom: true,
+    };
+    const [newGoal] = await db
+      .insert(goals)
+      .values(customGoal)
+      .returning();
+    await this.evaluateBadges(userId, "custom_goal_created").catch(error => {
+      console.error("Error evaluating badges:", error);
+    });
+    return newGoal;
+  }
+
+  // Weeks from openSinceWeekStart on can still change, so where they plan the goal its
+  // completion, the achievement and XP are re-derived from the new target and difficulty.
+  // Closed weeks keep what was earned under the old values.
+  async updateCustomGoal(goalId: string, userId: string, changes: UpdateCustomGoal, openSinceWeekStart: Date): Promise<Goal> {
+    const goal = await this.getOwnedCustomGoal(goalId, userId);
+
+    // A unit only makes sense alongside a target amount
+    const targetValue = changes.targetValue !== undefined ? changes.targetValue : goal.targetValue;
+    const unit = targetValue === null ? null : changes.unit !== undefined ? changes.unit || null : goal.unit;
+
+    // One transaction, so the new target and difficulty are never saved without the
+    // weeks they affect being brought in line
+    const { updatedGoal, syncs } = await db.transaction(async (tx) => {
+      const [updatedGoal] = await tx
+        .update(goals)
+        .set({ ...changes, unit })
+        .where(eq(goals.id, goalId))
+        .returning();
+
+      const openWeekGoals = await tx
+        .select()
+        .from(userGoals)
+        .where(
+          and(
+            eq(userGoals.userId, userId),
+            eq(userGoals.goalId, goalId),
+            gte(userGoals.weekStart, openSinceWeekStart)
+          )
+        )
+        .orderBy(asc(userGoals.weekStart));
+      const difficultyChanged = updatedGoal.difficulty !== goal.difficulty;
+      const syncs: WeekSync[] = [];
+      for (const openWeekGoal of openWeekGoals) {
+        await this.lockWeek(tx, userId, openWeekGoal.weekStart);
+        // Re-read under the lock, in case a check-in changed it meanwhile
+        const [userGoal] = await tx.select().from(userGoals).where(eq(userGoals.id, openWeekGoal.id));
+        if (!userGoal) {
+          continue;
+        }
+        const synced = await this.syncGoalCompletion(tx, userGoal);
+        if (difficultyChanged && synced.completed) {
+          // Take back the award made at the old difficulty; syncWeekXp then awards it afresh
+          await this.reverseGoalXp(tx, userId, synced, "goal_edited");
+        }
+        syncs.push(await this.syncWeek(tx, userId, userGoal.weekStart));
+      }
+      return { updatedGoal, syncs };
+    });
+
+    await this.celebrateWeekSyncs(userId, syncs);
+    return updatedGoal;
+  }
+
+  private async reverseGoalXp(tx: Transaction, userId: string, userGoal: UserGoal, reason: string) {
+    const [{ net }] = await tx
+      .select({ net: sql<number>`coalesce(sum(${xpLedger.amount}), 0)::int` })
+      .from(xpLedger)
+      .where(
+        and(
+          eq(xpLedger.userId, userId),
+          eq(xpLedger.weekStart, userGoal.weekStart),
+          eq(xpLedger.source, "goal"),
+          eq(xpLedger.sourceId, userGoal.id)
+        )
+      );
+    if (net !== 0) {
+      await tx.insert(xpLedger).values({
+        userId,
+        amount: -net,
+        reason,
+        source: "goal",
+        sourceId: userGoal.id,
+        weekStart: userGoal.weekStart,
+      });
+    }
+  }
+
+  // Goals that were ever planned are archived instead, so past weeks and analytics keep them
+  async deleteCustomGoal(goalId: string, userId: string): Promise<"deleted" | "archived"> {
+    await this.getOwnedCustomGoal(goalId, userId);
+
+    return await db.transaction(async (tx) => {
+      // Locking the goal makes anyone planning it wait, so the count stays true until the delete
+      await tx.select({ id: goals.id }).from(goals).where(eq(goals.id, goalId)).for("update");
+      const [{ plannedCount }] = await tx
+        .select({ plannedCount: count() })
+        .from(userGoals)
+        .where(eq(userGoals.goalId, goalId));
+
+      if (plannedCount > 0) {
+        await tx
+          .update(goals)
+          .set({ archivedAt: new Date() })
+          .where(eq(goals.id, goalId));
+        return "archived";
+      }
+
+      await tx.delete(goals).where(eq(goals.id, goalId));
+      return "deleted";
+    });
+  }
+
+  // Load a custom goal, making sure the caller created it
+  private async getOwnedCustomGoal(goalId: string, userId: string): Promise<Goal> {
+    const [goal] = await db.select().from(goals).where(eq(goals.id, goalId));
+    if (!goal || goal.archivedAt) {
+      throw new NotFoundError("Goal not found");
+    }
+    if (!goal.isCustom || goal.createdBy !== userId) {
+      throw new ForbiddenError("You can only change your own custom goals");
+    }
+    return goal;
+  }
+
+  async getUserGoalEstimates(userId: string, goalIds?: string[]): Promise<UserGoalEstimate[]> {
+    if (goalIds && goalIds.length === 0) return [];
+    return await db
+      .select()
+      .from(userGoalEstimates)
+      .where(
+        goalIds
+          ? and(eq(userGoalEstimates.userId, userId), inArray(userGoalEstimates.goalId, goalIds))
+          : eq(userGoalEstimates.userId, userId)
+      );
+  }
+
+  async upsertUserGoalEstimate(userId: string, goalId: string, estimate: UpdateGoalEstimate): Promise<UserGoalEstimate> {
+    const [result] = await db
+      .insert(userGoalEstimates)
+      .values({ ...estimate, userId, goalId })
+      .onConflictDoUpdate({
+        target: [userGoalEstimates.userId, userGoalEstimates.goalId],
+        set: {
+          ...estimate,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return result;
+  }
+
+  async deleteUserGoalEstimate(userId: string, goalId: string): Promise<boolean> {
+    const removed = await db
+      .delete(userGoalEstimates)
+      .where(and(eq(userGoalEstimates.userId, userId), eq(userGoalEstimates.goalId, goalId)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  // User goal operations
+  async getUserGoalsForWeek(userId: string, weekStart: Date): Promise<UserGoalWithDetails[]> {
+    const weekEnd = new Date(weekStart);
+    weekEnd.setDate(weekEnd.getDate() + 6);
+
+    const result = await db
+      .select({
+        userGoal: userGoals,
+        goal: goals,
+        category: categories,
+      })
+      .from(userGoals)
+      .innerJoin(goals, eq(userGoals.goalId, goals.id))
+      .innerJoin(categories, eq(goals.categoryId, categories.id))
+      .where(
+        and(
+          eq(userGoals.userId, userId),
+          gte(userGoals.weekStart, weekStart),
+          lte(userGoals.weekStart, weekEnd)
+        )
+      )
+      .orderBy(asc(categories.name), asc(goals.description));
+
+    const userGoalIds = result.map(row => row.userGoal.id);
+    const [checkins, progressLogs, subtasks] = userGoalIds.length > 0
+      ? await Promise.all([
+          db
+            .select()
+            .from(goalCheckins)
+            .where(inArray(goalCheckins.userGoalId, userGoalIds))
+            .orderBy(asc(goalCheckins.date)),
+          db
+            .select()
+            .from(goalProgressLogs)
+            .where(inArray(goalProgressLogs.userGoalId, userGoalIds))
+            .orderBy(asc(goalProgressLogs.loggedAt)),
+          db
+            .select()
+            .from(goalSubtasks)
+            .where(inArray(goalSubtasks.userGoalId, userGoalIds))
+            .orderBy(asc(goalSubtasks.position)),
+        ])
+      : [[], [], []];
+
+    return result.map(({ userGoal, goal, category }) => ({
+      ...userGoal,
+      goal: { ...goal, category },
+      checkins: checkins.filter(checkin => checkin.userGoalId === userGoal.id),
+      progressLogs: progressLogs.filter(log => log.userGoalId === userGoal.id),
+      subtasks: subtasks.filter(subtask => subtask.userGoalId === userGoal.id),
+    }));
+  }
+
+  async selectUserGoals(userId: string, goalIds: string[], weekStart: Date): Promise<UserGoal[]> {
+    // Only add and remove what changed, so goals kept in the selection
+    // hold on to their completion, check-ins and logged progress
+    return await this.updateWeekGoals(userId, weekStart, async (tx) => {
+      const existingGoals = await tx
+        .select()
+        .from(userGoals)
+        .where(
+          and(
+            eq(userGoals.userId, userId),
+            eq(userGoals.weekStart, weekStart)
+          )
+        );
+
+      const wantedGoalIds = new Set(goalIds);
+      const removedIds = existingGoals
+        .filter(userGoal => !wantedGoalIds.has(userGoal.goalId))
+        .map(userGoal => userGoal.id);
+      if (removedIds.length > 0) {
+        await tx.delete(userGoals).where(inArray(userGoals.id, removedIds));
+      }
+
+      const keptGoals = existingGoals.filter(userGoal => wantedGoalIds.has(userGoal.goalId));
+      const keptGoalIds = new Set(keptGoals.map(userGoal => userGoal.goalId));
+      const addedGoalIds = Array.from(wantedGoalIds).filter(goalId => !keptGoalIds.has(goalId));
+      if (addedGoalIds.length === 0) {
+        return keptGoals;
+      }
+
+      const addedGoals = await tx
+        .insert(userGoals)
+        .values(addedGoalIds.map(goalId => ({
+          userId,
+          goalId,
+          weekStart,
+          completed: false,
+        })))
+        .returning();
+      return [...keptGoals, ...addedGoals];
+    });
+  }
+
+  async getUserGoal(userGoalId: string, userId: string): Promise<UserGoal> {
+    return await this.getOwnedUserGoal(userGoalId, userId);
+  }
+
+  async swapUserGoal(userGoalId: string, userId: string, goalId: string): Promise<UserGoal> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+    if (userGoal.goalId === goalId) {
+      return userGoal;
+    }
+
+    const [alreadyPlanned] = await db
+      .select({ id: userGoals.id })
+      .from(userGoals)
+      .where(
+        and(
+          eq(userGoals.userId, userId),
+          eq(userGoals.weekStart, userGoal.weekStart),
+          eq(userGoals.goalId, goalId)
+        )
+      );
+    if (alreadyPlanned) {
+      throw new HttpError(409, "That goal is already part of this week");
+    }
+
+    // Progress recorded against the old goal doesn't carry over to the new one
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      await tx.delete(goalCheckins).where(eq(goalCheckins.userGoalId, userGoalId));
+      await tx.delete(goalProgressLogs).where(eq(goalProgressLogs.userGoalId, userGoalId));
+      await tx.delete(goalSubtasks).where(eq(goalSubtasks.userGoalId, userGoalId));
+      const [updated] = await tx
+        .update(userGoals)
+        .set({ goalId, completed: false, completedAt: null })
+        .where(eq(userGoals.id, userGoalId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getLatestPlannedWeekStart(userId: string, before: Date): Promise<Date | undefined> {
+    const [latest] = await db
+      .select({ weekStart: userGoals.weekStart })
+      .from(userGoals)
+      .where(and(eq(userGoals.userId, userId), lt(userGoals.weekStart, before)))
+      .orderBy(desc(userGoals.weekStart))
+      .limit(1);
+    return latest?.weekStart;
+  }
+
+  // Goals from one week that rolling over would add to another
+  async getRolloverGoalIds(
+    userId: string,
+    fromWeekStart: Date,
+    toWeekStart: Date,
+    options: { onlyIncomplete: boolean; categoryIds?: string[] }
+  ): Promise<string[]> {
+    const [previousGoals, currentGoals] = await Promise.all([
+      db
+        .select({
+          goalId: userGoals.goalId,
+          completed: userGoals.completed,
+          categoryId: goals.categoryId,
+          archivedAt: goals.archivedAt,
+        })
+        .from(userGoals)
+        .innerJoin(goals, eq(userGoals.goalId, goals.id))
+        .where(and(eq(userGoals.userId, userId), eq(userGoals.weekStart, fromWeekStart))),
+      db
+        .select({ goalId: userGoals.goalId })
+        .from(userGoals)
+        .where(and(eq(userGoals.userId, userId), eq(userGoals.weekStart, toWeekStart))),
+    ]);
+
+    // Skip goals already planned for the target week so rolling over twice is harmless
+    const alreadyPlanned = new Set(currentGoals.map(row => row.goalId));
+    return previousGoals
+      .filter(row => !row.archivedAt) // Archived goals stay behind in the weeks they were planned for
+      .filter(row => !options.onlyIncomplete || !row.completed)
+      .filter(row => !options.categoryIds || options.categoryIds.includes(row.categoryId))
+      .map(row => row.goalId)
+      .filter(goalId => !alreadyPlanned.has(goalId));
+  }
+
+  async rolloverUserGoals(
+    userId: string,
+    fromWeekStart: Date,
+    toWeekStart: Date,
+    options: { onlyIncomplete: boolean; categoryIds?: string[] }
+  ): Promise<UserGoal[]> {
+    const goalIds = await this.getRolloverGoalIds(userId, fromWeekStart, toWeekStart, options);
+    if (goalIds.length === 0) {
+      return [];
+    }
+
+    // A concurrent rollover may have added some of them already
+    return await db
+      .insert(userGoals)
+      .values(goalIds.map(goalId => ({
+        userId,
+        goalId,
+        weekStart: toWeekStart,
+        completed: false,
+      })))
+      .onConflictDoNothing({ target: [userGoals.userId, userGoals.goalId, userGoals.weekStart] })
+      .returning();
+  }
+
+  // Load a user goal, making sure it belongs to the caller
+  private async getOwnedUserGoal(userGoalId: string, userId: string): Promise<UserGoal> {
+    const [existingGoal] = await db
+      .select()
+      .from(userGoals)
+      .where(eq(userGoals.id, userGoalId));
+
+    if (!existingGoal) {
+      throw new NotFoundError("User goal not found");
+    }
+
+    if (existingGoal.userId !== userId) {
+      throw new ForbiddenError("You can only update your own goals");
+    }
+
+    return existingGoal;
+  }
+
+  async toggleGoalCompletion(userGoalId: string, userId: string): Promise<UserGoal> {
+    const existingGoal = await this.getOwnedUserGoal(userGoalId, userId);
+    const [goal] = await db.select().from(goals).where(eq(goals.id, existingGoal.goalId));
+    if (goal && isTrackedGoal(goal)) {
+      throw new HttpError(400, "This goal completes from its check-ins or logged progress, not by hand");
+    }
+
+    const isCompleting = !existingGoal.completed;
+    return await this.updateWeekGoals(userId, existingGoal.weekStart, async (tx) => {
+      const [updatedGoal] = await tx
+        .update(userGoals)
+        .set({
+          completed: isCompleting,
+          completedAt: isCompleting ? new Date() : null,
+        })
+        .where(and(eq(userGoals.id, userGoalId), eq(userGoals.userId, userId)))
+        .returning();
+      return updatedGoal;
+    });
+  }
+
+  // Planning a day and time doesn't touch completion, so the week's achievement and XP stay as they are
+  async scheduleUserGoal(userGoalId: string, userId: string, slot: ScheduleUserGoal): Promise<UserGoal> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    if (slot.date !== null && !isDateInWeek(slot.date, userGoal.weekStart)) {
+      throw new HttpError(400, "Goals can only be scheduled within their own week");
+    }
+
+    const [updatedGoal] = await db
+      .update(userGoals)
+      .set({
+        scheduledDate: slot.date,
+        scheduledTime: slot.date !== null ? slot.time ?? null : null,
+      })
+      .where(eq(userGoals.id, userGoalId))
+      .returning();
+
+    return updatedGoal;
+  }
+
+  // Check-in operations
+  async addGoalCheckin(
+    userGoalId: string,
+    userId: string,
+    checkin: Omit<InsertGoalCheckin, "userGoalId">
+  ): Promise<{ checkin: GoalCheckin; userGoal: UserGoal }> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    if (!isDateInWeek(checkin.date, userGoal.weekStart)) {
+      throw new HttpError(400, "Check-in date must fall within the goal's week");
+    }
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      // One check-in per day: checking in again replaces the value and note
+      const [savedCheckin] = await tx
+        .insert(goalCheckins)
+        .values({ ...checkin, userGoalId })
+        .onConflictDoUpdate({
+          target: [goalCheckins.userGoalId, goalCheckins.date],
+          set: {
+            value: checkin.value ?? 1,
+            note: checkin.note ?? null,
+          },
+        })
+        .returning();
+
+      return { checkin: savedCheckin, userGoal: await this.syncGoalCompletion(tx, userGoal) };
+    });
+  }
+
+  async removeGoalCheckin(userGoalId: string, checkinId: string, userId: string): Promise<UserGoal> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      const [removed] = await tx
+        .delete(goalCheckins)
+        .where(and(eq(goalCheckins.id, checkinId), eq(goalCheckins.userGoalId, userGoalId)))
+        .returning();
+
+      if (!removed) {
+        throw new NotFoundError("Check-in not found");
+      }
+
+      return await this.syncGoalCompletion(tx, userGoal);
+    });
+  }
+
+  // Progress log operations
+  async addGoalProgressLog(
+    userGoalId: string,
+    userId: string,
+    log: Omit<InsertGoalProgressLog, "userGoalId">
+  ): Promise<{ log: GoalProgressLog; userGoal: UserGoal }> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    const [goal] = await db.select().from(goals).where(eq(goals.id, userGoal.goalId));
+    if (goal?.targetValue == null) {
+      throw new HttpError(400, "This goal does not track amounts");
+    }
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      const [savedLog] = await tx
+        .insert(goalProgressLogs)
+        .values({ ...log, userGoalId })
+        .returning();
+
+      return { log: savedLog, userGoal: await this.syncGoalCompletion(tx, userGoal) };
+    });
+  }
+
+  async removeGoalProgressLog(userGoalId: string, logId: string, userId: string): Promise<UserGoal> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      const [removed] = await tx
+        .delete(goalProgressLogs)
+        .where(and(eq(goalProgressLogs.id, logId), eq(goalProgressLogs.userGoalId, userGoalId)))
+        .returning();
+
+      if (!removed) {
+        throw new NotFoundError("Progress entry not found");
+      }
+
+      return await this.syncGoalCompletion(tx, userGoal);
+    });
+  }
+
+  // Sub-task operations
+  async getGoalSubtasks(userGoalId: string, userId: string): Promise<GoalSubtask[]> {
+    await this.getOwnedUserGoal(userGoalId, userId);
+    return await db
+      .select()
+      .from(goalSubtasks)
+      .where(eq(goalSubtasks.userGoalId, userGoalId))
+      .orderBy(asc(goalSubtasks.position));
+  }
+
+  async addGoalSubtask(
+    userGoalId: string,
+    userId: string,
+    subtask: InsertGoalSubtask
+  ): Promise<{ subtask: GoalSubtask; userGoal: UserGoal }> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      // New sub-tasks go to the end of the checklist
+      const [{ nextPosition }] = await tx
+        .select({ nextPosition: sql<number>`coalesce(max(${goalSubtasks.position}) + 1, 0)::int` })
+        .from(goalSubtasks)
+        .where(eq(goalSubtasks.userGoalId, userGoalId));
+
+      const [savedSubtask] = await tx
+        .insert(goalSubtasks)
+        .values({ userGoalId, title: subtask.title, position: nextPosition })
+        .returning();
+
+      return { subtask: savedSubtask, userGoal: await this.syncSubtaskCompletion(tx, userGoal) };
+    });
+  }
+
+  async updateGoalSubtask(
+    userGoalId: string,
+    subtaskId: string,
+    userId: string,
+    changes: UpdateGoalSubtask
+  ): Promise<{ subtask: GoalSubtask; userGoal: UserGoal }> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(goalSubtasks)
+        .where(and(eq(goalSubtasks.id, subtaskId), eq(goalSubtasks.userGoalId, userGoalId)));
+      if (!existing) {
+        throw new NotFoundError("Sub-task not found");
+      }
+
+      const completedChanged = changes.completed !== undefined && changes.completed !== existing.completed;
+      const [savedSubtask] = await tx
+        .update(goalSubtasks)
+        .set({
+          ...(changes.title !== undefined && { title: changes.title }),
+          ...(completedChanged && {
+            completed: changes.completed,
+            completedAt: changes.completed ? new Date() : null,
+          }),
+        })
+        .where(eq(goalSubtasks.id, subtaskId))
+        .returning();
+
+      return { subtask: savedSubtask, userGoal: await this.syncSubtaskCompletion(tx, userGoal) };
+    });
+  }
+
+  async removeGoalSubtask(userGoalId: string, subtaskId: string, userId: string): Promise<UserGoal> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      const [removed] = await tx
+        .delete(goalSubtasks)
+        .where(and(eq(goalSubtasks.id, subtaskId), eq(goalSubtasks.userGoalId, userGoalId)))
+        .returning();
+
+      if (!removed) {
+        throw new NotFoundError("Sub-task not found");
+      }
+
+      return await this.syncSubtaskCompletion(tx, userGoal);
+    });
+  }
+
+  // Order doesn't affect completion, so this skips the week's achievement and XP sync
+  async reorderGoalSubtasks(userGoalId: string, userId: string, subtaskIds: string[]): Promise<GoalSubtask[]> {
+    await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await db.transaction(async (tx) => {
+      const existing = await tx
+        .select({ id: goalSubtasks.id })
+        .from(goalSubtasks)
+        .where(eq(goalSubtasks.userGoalId, userGoalId));
+
+      const existingIds = new Set(existing.map(subtask => subtask.id));
+      const listsEachOnce = subtaskIds.length === existingIds.size
+        && new Set(subtaskIds).size === subtaskIds.length
+        && subtaskIds.every(id => existingIds.has(id));
+      if (!listsEachOnce) {
+        throw new HttpError(400, "The new order must list each of the goal's sub-tasks exactly once");
+      }
+
+      for (let position = 0; position < subtaskIds.length; position++) {
+        await tx.update(goalSubtasks).set({ position }).where(eq(goalSubtasks.id, subtaskIds[position]));
+      }
+
+      return await tx
+        .select()
+        .from(goalSubtasks)
+        .where(eq(goalSubtasks.userGoalId, userGoalId))
+        .orderBy(asc(goalSubtasks.position));
+    });
+  }
+
+  async setSubtaskAutoComplete(userGoalId: string, userId: string, enabled: boolean): Promise<UserGoal> {
+    const userGoal = await this.getOwnedUserGoal(userGoalId, userId);
+
+    return await this.updateWeekGoals(userId, userGoal.weekStart, async (tx) => {
+      const [updatedGoal] = await tx
+        .update(userGoals)
+        .set({ autoCompleteFromSubtasks: enabled })
+        .where(eq(userGoals.id, userGoalId))
+        .returning();
+
+      return await this.syncSubtaskCompletion(tx, updatedGoal);
+    });
+  }
+
+  // A goal with a checklist completes once every sub-task is done, and reopens when
+  // one is unchecked or added. Goals with a numeric target or check-in frequency are
+  // left to their target, and users can switch the rule off per goal.
+  private async syncSubtaskCompletion(tx: Transaction, userGoal: UserGoal): Promise<UserGoal> {
+    if (!userGoal.autoCompleteFromSubtasks) {
+      return userGoal;
+    }
+
+    const [goal] = await tx.select().from(goals).where(eq(goals.id, userGoal.goalId));
+    if (!goal || isTrackedGoal(goal)) {
+      return userGoal;
+    }
+
+    const subtasks = await tx
+      .select({ completed: goalSubtasks.completed })
+      .from(goalSubtasks)
+      .where(eq(goalSubtasks.userGoalId, userGoal.id));
+    if (subtasks.length === 0) {
+      return userGoal;
+    }
+
+    const allDone = subtasks.every(subtask => subtask.completed);
+    if (allDone === !!userGoal.completed) {
+      return userGoal;
+    }
+
+    const [updatedGoal] = await tx
+      .update(userGoals)
+      .set({
+        completed: allDone,
+        completedAt: allDone ? new Date() : null,
+      })
+      .where(eq(userGoals.id, userGoal.id))
+      .returning();
+
+    return updatedGoal;
+  }
+
+  // Goals with a numeric target or check-in frequency complete themselves once the target is met
+  private async syncGoalCompletion(tx: Transaction, userGoal: UserGoal): Promise<UserGoal> {
+    const [goal] = await tx.select().from(goals).where(eq(goals.id, userGoal.goalId));
+    if (!goal || !isTrackedGoal(goal)) {
+      return userGoal;
+    }
+
+    const checkins = await tx.select().from(goalCheckins).where(eq(goalCheckins.userGoalId, userGoal.id));
+    const progressLogs = await tx.select().from(goalProgressLogs).where(eq(goalProgressLogs.userGoalId, userGoal.id));
+
+    const { targetMet } = calculateGoalProgress({ completed: userGoal.completed, goal, checkins, progressLogs });
+    if (targetMet === !!userGoal.completed) {
+      return userGoal;
+    }
+
+    const [updatedGoal] = await tx
+      .update(userGoals)
+      .set({
+        completed: targetMet,
+        completedAt: targetMet ? new Date() : null,
+      })
+      .where(eq(userGoals.id, userGoal.id))
+      .returning();
+
+    return updatedGoal;
+  }
+
+  // Apply a change to a week's goals and re-derive that week's achievement and XP in
+  // the same transaction, so neither ever disagrees with the goals behind them.
+  // Celebrations are sent after commit, and only when the level went up.
+  private async updateWeekGoals<T>(userId: string, weekStart: Date, change: (tx: Transaction) => Promise<T>): Promise<T> {
+    const { result, sync } = await db.transaction(async (tx) => {
+      await this.lockWeek(tx, userId, weekStart);
+      const result = await change(tx);
+      const sync = await this.syncWeek(tx, userId, weekStart);
+      return { result, sync };
+    });
+
+    await this.celebrateWeekSyncs(userId, [sync]);
+    return result;
+  }
+
+  // Changes to one user's week are serialized: the syncs read goals, achievement and
+  // ledger separately, and an interleaved change would otherwise see a mix of both.
+  // Take the locks of several weeks in week order, so two callers can't deadlock.
+  private async lockWeek(tx: Transaction, userId: string, weekStart: Date) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`${userId}:${toDateString(weekStart)}`}))`);
+  }
+
+  private async syncWeek(tx: Transaction, userId: string, weekStart: Date): Promise<WeekSync> {
+    const levelUp = await this.syncWeeklyAchievement(tx, userId, weekStart);
+    const xpGained = await this.syncWeekXp(tx, userId, weekStart);
+    return { levelUp, xpGained };
+  }
+
+  // The changes are committed by now; failing to celebrate them must not fail the request
+  private async celebrateWeekSyncs(userId: string, syncs: WeekSync[]) {
+    try {
+      for (const { levelUp } of syncs) {
+        if (levelUp) {
+          await this.createAchievementCelebration(userId, levelUp);
+        }
+      }
+      const xpGained = syncs.reduce((sum, sync) => sum + sync.xpGained, 0);
+      if (xpGained > 0) {
+        const totalXp = await this.getUserXp(userId);
+        const level = getLevel(totalXp);
+        if (level > getLevel(totalXp - xpGained)) {
+          await this.createLevelUpNotification(userId, level);
+        }
+      }
+      await this.evaluateBadges(userId, "goal_progress");
+    } catch (error) {
+      console.error("Error sending celebrations and badges:", error);
+    }
+  }
+
+  // Bring the week's XP ledger in line with its goals and achievement: award newly
+  // completed goals, reverse goals that were uncompleted or removed, and adjust the
+  // achievement bonus to the current level. Returns the net XP change.
+  private async syncWeekXp(tx: Transaction, userId: string, weekStart: Date): Promise<number> {
+    const weekGoals = await tx
+      .select({
+        id: userGoals.id,
+        completed: userGoals.completed,
+        categoryId: goals.categoryId,
+        targetDaysPerWeek: goals.targetDaysPerWeek,
+        difficulty: goals.difficulty,
+      })
+      .from(userGoals)
+      .innerJoin(goals, eq(userGoals.goalId, goals.id))
+      .where(and(eq(userGoals.userId, userId), eq(userGoals.weekStart, weekStart)));
+    const entries = await tx
+      .select({ source: xpLedger.source, sourceId: xpLedger.sourceId, amount: xpLedger.amount })
+      .from(xpLedger)
+      .where(and(eq(xpLedger.userId, userId), eq(xpLedger.weekStart, weekStart)));
+    const [achievement] = await tx
+      .select({ level: achievements.level })
+      .from(achievements)
+      .where(and(eq(achievements.userId, userId), eq(achievements.weekStart, weekStart)));
+    const pastAchievements = await tx
+      .select({ weekStart: achievements.weekStart })
+      .from(achievements)
+      .where(and(eq(achievements.userId, userId), lt(achievements.weekStart, weekStart)));
+
+    const netBySource = new Map<string, number>();
+    for (const entry of entries) {
+      const key = `${entry.source}:${entry.sourceId}`;
+      netBySource.set(key, (netBySource.get(key) || 0) + entry.amount);
+    }
+
+    const streakWeeks = calculateStreak(pastAchievements.map(past => toDateString(past.weekStart)), weekStart).current;
+    const categoriesWithCompletions = new Set(weekGoals.filter(goal => goal.completed).map(goal => goal.categoryId)).size;
+
+    const changes: (typeof xpLedger.$inferInsert)[] = [];
+    for (const goal of weekGoals) {
+      const net = netBySource.get(`goal:${goal.id}`) || 0;
+      if (goal.completed && net === 0) {
+        const award = calculateGoalXp({
+          // The user's own difficulty estimate only shapes recommendations, never the award
+          difficulty: resolveGoalEffort(goal).difficulty,
+          targetDaysPerWeek: goal.targetDaysPerWeek,
+          categoriesWithCompletions,
+          streakWeeks,
+        });
+        changes.push({
+          userId,
+          amount: award.amount,
+          reason: "goal_completed",
+          source: "goal",
+          sourceId: goal.id,
+          weekStart,
+          details: { difficulty: award.difficulty, balance: award.balance, streak: award.streak },
+        });
+      } else if (!goal.completed && net !== 0) {
+        changes.push({ userId, amount: -net, reason: "goal_uncompleted", source: "goal", sourceId: goal.id, weekStart });
+      }
+    }
+
+    const weekGoalIds = new Set(weekGoals.map(goal => goal.id));
+    for (const [key, net] of Array.from(netBySource.entries())) {
+      const [source, sourceId] = key.split(":");
+      if (source === "goal" && net !== 0 && !weekGoalIds.has(sourceId)) {
+        changes.push({ userId, amount: -net, reason: "goal_removed", source: "goal", sourceId, weekStart });
+      }
+    }
+
+    const weekKey = toDateString(weekStart);
+    const level = (achievement?.level ?? "none") as AchievementLevel;
+    const achievementXp = ACHIEVEMENT_XP[level] ?? 0;
+    const achievementNet = netBySource.get(`achievement:${weekKey}`) || 0;
+    if (achievementXp !== achievementNet) {
+      changes.push({
+        userId,
+        amount: achievementXp - achievementNet,
+        reason: "achievement_level",
+        source: "achievement",
+        sourceId: weekKey,
+        weekStart,
+        details: { level },
+      });
+    }
+
+    if (changes.length === 0) {
+      return 0;
+    }
+    await tx.insert(xpLedger).values(changes);
+    return changes.reduce((sum, change) => sum + change.amount, 0);
+  }
+
+  // Upgrade, downgrade or revoke the week's achievement to match its completed goals.
+  // Returns the achievement when it reached a higher level than before.
+  private async syncWeeklyAchievement(tx: Transaction, userId: string, weekStart: Date): Promise<Achievement | null> {
+    const weekGoals = await tx
+      .select({ categoryId: goals.categoryId, completed: userGoals.completed })
+      .from(userGoals)
+      .innerJoin(goals, eq(userGoals.goalId, goals.id))
+      .where(and(eq(userGoals.userId, userId), eq(userGoals.weekStart, weekStart)));
+    const [savedTemplate] = await tx
+      .select()
+      .from(userPlanTemplates)
+      .where(eq(userPlanTemplates.userId, userId));
+    const userCategories = await this.selectUserCategories(tx, userId);
+
+    const template = resolvePlanTemplate(savedTemplate);
+    const activeCategories = getActiveCategories(template, userCategories.filter(category => !category.archived));
+    const activeCategoryIds = new Set(activeCategories.map(category => category.id));
+    const completedByCategory = new Map<string, number>();
+    for (const { categoryId, completed } of weekGoals) {
+      if (completed) {
+        completedByCategory.set(categoryId, (completedByCategory.get(categoryId) || 0) + 1);
+      }
+    }
+    const categoriesCompleted = Array.from(completedByCategory.entries())
+      .filter(([categoryId, completed]) => activeCategoryIds.has(categoryId) && isCategoryCompleted(template, completed))
+      .length;
+    const level = calculateAchievementLevel(categoriesCompleted, activeCategories.length);
+
+    const [existing] = await tx
+      .select()
+      .from(achievements)
+      .where(and(eq(achievements.userId, userId), eq(achievements.weekStart, weekStart)));
+
+    if (level === "none") {
+      if (existing) {
+        await tx.delete(achievements).where(eq(achievements.id, existing.id));
+      }
+      return null;
+    }
+
+    if (!existing) {
+      const [created] = await tx
+        .insert(achievements)
+        .values({ userId, weekStart, categoriesCompleted, level })
+        .returning();
+      return created;
+    }
+
+    if (existing.level === level && existing.categoriesCompleted === categoriesCompleted) {
+      return null;
+    }
+
+    const [updated] = await tx
+      .update(achievements)
+      .set({ categoriesCompleted, level })
+      .where(eq(achievements.id, existing.id))
+      .returning();
+    return isHigherAchievementLevel(level, existing.level) ? updated : null;
   }
 
-  async getGoalsByCategoryAndUser(categoryId: string, userId: string): Promise<Goal[]> {
-    return await db
+  // Plan template operations
+  async getUserPlanTemplate(userId: string): Promise<UserPlanTemplate | undefined> {
+    const [template] = await db
       .select()
-      .from(goals)
-      .where(
-        and(
-          eq(goals.categoryId, categoryId),
-          or(
-            eq(goals.isCustom, false), // System goals
-            eq(goals.createdBy, userId) // User's custom goals
-          )
-        )
-      )
-      .orderBy(asc(goals.isCustom), asc(goals.description)); // System goals first, then custom
+      .from(userPlanTemplates)
+      .where(eq(userPlanTemplates.userId, userId));
+    return template;
   }
 
-  async createGoal(goal: InsertGoal): Promise<Goal> {
-    const [newGoal] = await db
-      .insert(goals)
-      .values(goal)
+  async upsertUserPlanTemplate(template: InsertUserPlanTemplate): Promise<UserPlanTemplate> {
+    const [result] = await db
+      .insert(userPlanTemplates)
+      .values(template)
+      .onConflictDoUpdate({
+        target: userPlanTemplates.userId,
+        set: {
+          ...template,
+          updatedAt: new Date(),
+        },
+      })
       .returning();
-    return newGoal;
+    return result;
   }
 
-  async createCustomGoal(goal: InsertGoal, userId: string): Promise<Goal> {
-    const customGoal = {
-      ...goal,
-      createdBy: userId,
-      isCustom: true,
-    };
-    const [newGoal] = await db
-      .insert(goals)
-      .values(customGoal)
-      .returning();
-    return newGoal;
+  // Reflection operations
+  async getWeeklyReflection(userId: string, weekStart: Date): Promise<WeeklyReflection | undefined> {
+    const [reflection] = await db
+      .select()
+      .from(weeklyReflections)
+      .where(and(eq(weeklyReflections.userId, userId), eq(weeklyReflections.weekStart, weekStart)));
+    return reflection;
   }
 
-  // User goal operations
-  async getUserGoalsForWeek(userId: string, weekStart: Date): Promise<(UserGoal & { goal: Goal & { category: Category } })[]> {
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-
-    const result = await db
-      .select({
-        id: userGoals.id,
-        userId: userGoals.userId,
-        goalId: userGoals.goalId,
-        weekStart: userGoals.weekStart,
-        completed: userGoals.completed,
-        completedAt: userGoals.completedAt,
-        createdAt: userGoals.createdAt,
-        goal: {
-          id: goals.id,
-          categoryId: goals.categoryId,
-          description: goals.description,
-          createdAt: goals.createdAt,
-          category: {
-            id: categories.id,
-            name: categories.name,
-            description: categories.description,
-            icon: categories.icon,
-            color: categories.color,
-            createdAt: categories.createdAt,
-          },
-        },
-      })
-      .from(userGoals)
-      .innerJoin(goals, eq(userGoals.goalId, goals.id))
-      .innerJoin(categories, eq(goals.categoryId, categories.id))
+  async getWeeklyReflections(userId: string, startDate: Date, endDate: Date): Promise<WeeklyReflection[]> {
+    return await db
+      .select()
+      .from(weeklyReflections)
       .where(
         and(
-          eq(userGoals.userId, userId),
-          gte(userGoals.weekStart, weekStart),
-          lte(userGoals.weekStart, weekEnd)
+          eq(weeklyReflections.userId, userId),
+          gte(weeklyReflections.weekStart, startDate),
+          lte(weeklyReflections.weekStart, endDate)
         )
       )
-      .orderBy(asc(categories.name), asc(goals.description));
-      
-    return result as (UserGoal & { goal: Goal & { category: Category } })[];
+      .orderBy(asc(weeklyReflections.weekStart));
   }
 
-  async selectUserGoals(userId: string, goalIds: string[], weekStart: Date): Promise<UserGoal[]> {
-    // First, delete existing goals for this week
-    await db
-      .delete(userGoals)
-      .where(
-        and(
-          eq(userGoals.userId, userId),
-          eq(userGoals.weekStart, weekStart)
-        )
-      );
-
-    // Then insert new goals
-    const userGoalData = goalIds.map(goalId => ({
-      userId,
-      goalId,
-      weekStart,
-      completed: false,
-    }));
-
-    return await db
-      .insert(userGoals)
-      .values(userGoalData)
+  // Fields left out of the update keep their saved values
+  async upsertWeeklyReflection(userId: string, weekStart: Date, reflection: UpsertWeeklyReflection): Promise<WeeklyReflection> {
+    const [result] = await db
+      .insert(weeklyReflections)
+      .values({ ...reflection, userId, weekStart })
+      .onConflictDoUpdate({
+        target: [weeklyReflections.userId, weeklyReflections.weekStart],
+        set: {
+          ...reflection,
+          updatedAt: new Date(),
+        },
+      })
       .returning();
+    return result;
   }
 
-  async toggleGoalCompletion(userGoalId: string): Promise<UserGoal> {
-    const [existingGoal] = await db
-      .select()
-      .from(userGoals)
-      .where(eq(userGoals.id, userGoalId));
-
-    if (!existingGoal) {
-      throw new Error("User goal not found");
-    }
-
-    const isCompleting = !existingGoal.completed;
+  async updateUserGoalNote(userGoalId: string, userId: string, note: string | null): Promise<UserGoal> {
+    await this.getOwnedUserGoal(userGoalId, userId);
     const [updatedGoal] = await db
       .update(userGoals)
-      .set({
-        completed: isCompleting,
-        completedAt: isCompleting ? new Date() : null,
-      })
+      .set({ note: note || null })
       .where(eq(userGoals.id, userGoalId))
       .returning();
-
     return updatedGoal;
   }
 
@@ -347,7 +1950,12 @@ export class DatabaseStorage implements IStorage {
     completedGoals: number;
     completionRate: number;
     categoriesCompleted: number;
+    mood: number | null;
+    energy: number | null;
   }[]> {
+    const reflections = await this.getWeeklyReflections(userId, startDate, endDate);
+    const reflectionByWeek = new Map(reflections.map(reflection => [toDateString(reflection.weekStart), reflection]));
+
     const result = await db
       .select({
         weekStart: userGoals.weekStart,
@@ -395,12 +2003,16 @@ export class DatabaseStorage implements IStorage {
       completedGoals: stats.completedGoals,
       completionRate: stats.totalGoals > 0 ? (stats.completedGoals / stats.totalGoals) * 100 : 0,
       categoriesCompleted: stats.categoriesWithCompletedGoals.size,
+      // Self-reported in the week's reflection, so mood can be compared with completion
+      mood: reflectionByWeek.get(week)?.mood ?? null,
+      energy: reflectionByWeek.get(week)?.energy ?? null,
     })).sort((a, b) => a.week.localeCompare(b.week));
   }
 
   async getCategoryPerformance(userId: string, startDate: Date, endDate: Date): Promise<{
     categoryId: string;
     categoryName: string;
+    categoryColor: string | null;
     totalGoals: number;
     completedGoals: number;
     completionRate: number;
@@ -409,6 +2021,7 @@ export class DatabaseStorage implements IStorage {
       .select({
         categoryId: categories.id,
         categoryName: categories.name,
+        categoryColor: categories.color,
         goalId: userGoals.goalId,
         completed: userGoals.completed,
       })
@@ -427,6 +2040,7 @@ export class DatabaseStorage implements IStorage {
     const categoryStats = new Map<string, {
       categoryId: string;
       categoryName: string;
+      categoryColor: string | null;
       totalGoals: number;
       completedGoals: number;
     }>();
@@ -437,6 +2051,7 @@ export class DatabaseStorage implements IStorage {
         categoryStats.set(key, {
           categoryId: row.categoryId,
           categoryName: row.categoryName,
+          categoryColor: row.categoryColor,
           totalGoals: 0,
           completedGoals: 0,
         });
@@ -451,6 +2066,7 @@ export class DatabaseStorage implements IStorage {
     return Array.from(categoryStats.values()).map(stats => ({
       categoryId: stats.categoryId,
       categoryName: stats.categoryName,
+      categoryColor: stats.categoryColor,
       totalGoals: stats.totalGoals,
       completedGoals: stats.completedGoals,
       completionRate: stats.totalGoals > 0 ? (stats.completedGoals / stats.totalGoals) * 100 : 0,
@@ -512,6 +2128,201 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Streak operations
+  async getUserStreaks(userId: string, currentWeekStart: Date): Promise<UserStreaks> {
+    const [history, userAchievements, savedTemplate, userCategories] = await Promise.all([
+      db
+        .select({
+          weekStart: userGoals.weekStart,
+          completed: userGoals.completed,
+          goalId: goals.id,
+          description: goals.description,
+          categoryId: categories.id,
+          categoryName: categories.name,
+        })
+        .from(userGoals)
+        .innerJoin(goals, eq(userGoals.goalId, goals.id))
+        .innerJoin(categories, eq(goals.categoryId, categories.id))
+        .where(eq(userGoals.userId, userId)),
+      this.getUserAchievements(userId),
+      this.getUserPlanTemplate(userId),
+      this.getCategoriesForUser(userId),
+    ]);
+    const template = resolvePlanTemplate(savedTemplate);
+    // Archived categories are never active, so they stop carrying streaks
+    const activeCategoryIds = new Set(getActiveCategories(template, userCategories).map(category => category.id));
+    const thisWeek = toDateString(currentWeekStart);
+
+    const goalHistory = new Map<string, { description: string; categoryId: string; plannedWeeks: Set<string>; completedWeeks: string[] }>();
+    const categoryHistory = new Map<string, { categoryName: string; completedByWeek: Map<string, number> }>();
+    for (const row of history) {
+      const week = toDateString(row.weekStart);
+
+      if (!goalHistory.has(row.goalId)) {
+        goalHistory.set(row.goalId, { description: row.description, categoryId: row.categoryId, plannedWeeks: new Set(), completedWeeks: [] });
+      }
+      const goalEntry = goalHistory.get(row.goalId)!;
+      goalEntry.plannedWeeks.add(week);
+      if (row.completed) {
+        goalEntry.completedWeeks.push(week);
+      }
+
+      if (!categoryHistory.has(row.categoryId)) {
+        categoryHistory.set(row.categoryId, { categoryName: row.categoryName, completedByWeek: new Map() });
+      }
+      if (row.completed) {
+        const { completedByWeek } = categoryHistory.get(row.categoryId)!;
+        completedByWeek.set(week, (completedByWeek.get(week) || 0) + 1);
+      }
+    }
+
+    // Only goals picked more than once, or planned this week, can carry a streak
+    const goalStreaks = Array.from(goalHistory.entries())
+      .filter(([, entry]) => entry.plannedWeeks.size > 1 || entry.plannedWeeks.has(thisWeek))
+      .map(([goalId, entry]) => ({
+        goalId,
+        description: entry.description,
+        categoryId: entry.categoryId,
+        ...calculateStreak(entry.completedWeeks, currentWeekStart),
+      }));
+
+    const categoryStreaks = Array.from(categoryHistory.entries())
+      .filter(([categoryId]) => activeCategoryIds.has(categoryId))
+      .map(([categoryId, entry]) => ({
+        categoryId,
+        categoryName: entry.categoryName,
+        ...calculateStreak(
+          Array.from(entry.completedByWeek.entries())
+            .filter(([, completed]) => isCategoryCompleted(template, completed))
+            .map(([week]) => week),
+          currentWeekStart,
+        ),
+      }));
+
+    return {
+      weekStart: thisWeek,
+      overall: calculateStreak(userAchievements.map(achievement => toDateString(achievement.weekStart)), currentWeekStart),
+      categories: categoryStreaks,
+      goals: goalStreaks,
+    };
+  }
+
+  // Badge operations
+  async getUserBadges(userId: string): Promise<UserBadge[]> {
+    return await db
+      .select()
+      .from(userBadges)
+      .where(eq(userBadges.userId, userId))
+      .orderBy(desc(userBadges.earnedAt));
+  }
+
+  // Check the badges an event can affect and award any the user has newly earned.
+  // Returns only the badges awarded by this call.
+  async evaluateBadges(userId: string, event: BadgeEvent): Promise<UserBadge[]> {
+    const earned = new Set((await this.getUserBadges(userId)).map(badge => badge.badgeId));
+    const candidates = getBadgesForEvent(event).filter(badge => !earned.has(badge.id));
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    const stats = await this.getBadgeStats(userId);
+    const newlyEarned = candidates.filter(badge => isBadgeEarned(badge.rule, stats));
+    if (newlyEarned.length === 0) {
+      return [];
+    }
+
+    // Concurrent evaluations may race to the same badge; the unique index keeps one
+    const awarded = await db
+      .insert(userBadges)
+      .values(newlyEarned.map(badge => ({ userId, badgeId: badge.id })))
+      .onConflictDoNothing()
+      .returning();
+
+    for (const userBadge of awarded) {
+      await this.createBadgeNotification(userId, userBadge);
+    }
+    return awarded;
+  }
+
+  private async getBadgeStats(userId: string): Promise<BadgeStats> {
+    const [
+      [customGoals],
+      [completedGoals],
+      [friends],
+      userAchievements,
+      availableGoals,
+      completedByCategory,
+    ] = await Promise.all([
+      db.select({ count: count() }).from(goals).where(eq(goals.createdBy, userId)),
+      db
+        .select({ count: count() })
+        .from(userGoals)
+        .where(and(eq(userGoals.userId, userId), eq(userGoals.completed, true))),
+      db
+        .select({ count: count() })
+        .from(friendships)
+        .where(
+          and(
+            eq(friendships.status, "accepted"),
+            or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId))
+          )
+        ),
+      db
+        .select({ weekStart: achievements.weekStart, level: achievements.level })
+        .from(achievements)
+        .where(eq(achievements.userId, userId)),
+      // System goals plus the user's own custom goals; archived goals can't be planned
+      // anymore, so mastering a category doesn't count them
+      db
+        .select({ categoryName: categories.name, count: countDistinct(goals.id) })
+        .from(goals)
+        .innerJoin(categories, eq(goals.categoryId, categories.id))
+        .where(and(or(isNull(goals.createdBy), eq(goals.createdBy, userId)), isNull(goals.archivedAt)))
+        .groupBy(categories.name),
+      db
+        .select({ categoryName: categories.name, count: countDistinct(userGoals.goalId) })
+        .from(userGoals)
+        .innerJoin(goals, eq(userGoals.goalId, goals.id))
+        .innerJoin(categories, eq(goals.categoryId, categories.id))
+        .where(and(eq(userGoals.userId, userId), eq(userGoals.completed, true), isNull(goals.archivedAt)))
+        .groupBy(categories.name),
+    ]);
+
+    const completedCounts = new Map(completedByCategory.map(row => [row.categoryName, row.count]));
+    return {
+      customGoalsCreated: customGoals?.count ?? 0,
+      goalsCompleted: completedGoals?.count ?? 0,
+      friendCount: friends?.count ?? 0,
+      achievements: userAchievements.map(achievement => ({
+        weekStart: toDateString(achievement.weekStart),
+        level: achievement.level,
+      })),
+      categories: availableGoals.map(row => ({
+        categoryName: row.categoryName,
+        totalGoals: row.count,
+        completedGoals: completedCounts.get(row.categoryName) ?? 0,
+      })),
+    };
+  }
+
+  // XP operations
+  async getUserXp(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sql<number>`coalesce(sum(${xpLedger.amount}), 0)`.mapWith(Number) })
+      .from(xpLedger)
+      .where(eq(xpLedger.userId, userId));
+    return result?.total ?? 0;
+  }
+
+  async getXpLedger(userId: string, limit = 20): Promise<XpLedgerEntry[]> {
+    return await db
+      .select()
+      .from(xpLedger)
+      .where(eq(xpLedger.userId, userId))
+      .orderBy(desc(xpLedger.createdAt))
+      .limit(limit);
+  }
+
   // Social operations
   async sendFriendRequest(requesterId: string, addresseeEmail: string): Promise<Friendship> {
     // First find the addressee by email
@@ -590,20 +2401,43 @@ export class DatabaseStorage implements IStorage {
     return result as (Friendship & { requester: User; addressee: User })[];
   }
 
-  async respondToFriendRequest(friendshipId: string, status: "accepted" | "declined"): Promise<Friendship> {
+  async respondToFriendRequest(friendshipId: string, userId: string, status: "accepted" | "declined"): Promise<Friendship> {
+    const [existing] = await db
+      .select()
+      .from(friendships)
+      .where(eq(friendships.id, friendshipId));
+
+    if (!existing) {
+      throw new NotFoundError("Friend request not found");
+    }
+
+    // Only the person who received the request may answer it
+    if (existing.addresseeId !== userId) {
+      throw new ForbiddenError("You can only respond to friend requests sent to you");
+    }
+
+    if (existing.status !== "pending") {
+      throw new HttpError(409, "Friend request has already been answered");
+    }
+
     const [friendship] = await db
       .update(friendships)
       .set({
         status,
         updatedAt: new Date(),
       })
-      .where(eq(friendships.id, friendshipId))
+      .where(and(eq(friendships.id, friendshipId), eq(friendships.addresseeId, userId)))
       .returning();
 
-    if (!friendship) {
-      throw new Error("Friend request not found");
+    if (status === "accepted") {
+      // The friendship is saved either way, so a badge failure is only logged
+      try {
+        await this.evaluateBadges(friendship.requesterId, "friendship_accepted");
+        await this.evaluateBadges(friendship.addresseeId, "friendship_accepted");
+      } catch (error) {
+        console.error("Error evaluating badges:", error);
+      }
     }
-
     return friendship;
   }
 
@@ -692,6 +2526,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   async shareAchievement(share: InsertSharedAchievement): Promise<SharedAchievement> {
+    const [achievement] = await db
+      .select()
+      .from(achievements)
+      .where(eq(achievements.id, share.achievementId));
+
+    if (!achievement) {
+      throw new NotFoundError("Achievement not found");
+    }
+
+    if (achievement.userId !== share.userId) {
+      throw new ForbiddenError("You can only share your own achievements");
+    }
+
     const [sharedAchievement] = await db
       .insert(sharedAchievements)
       .values(share)
@@ -751,13 +2598,15 @@ export class DatabaseStorage implements IStorage {
     goal: Goal & { category: Category };
     score: number;
     reason: string;
+    effort: GoalEffort;
   }[]> {
     // Build where conditions safely
     const whereConditions = [
       or(
         eq(goals.isCustom, false), // System goals
         eq(goals.createdBy, userId) // User's custom goals
-      )
+      ),
+      isNull(goals.archivedAt),
     ];
     
     if (categoryId) {
@@ -799,6 +2648,14 @@ export class DatabaseStorage implements IStorage {
       .from(userGoals)
       .groupBy(userGoals.goalId);
 
+    const [estimates, savedTemplate, userCategories] = await Promise.all([
+      this.getUserGoalEstimates(userId),
+      this.getUserPlanTemplate(userId),
+      this.getCategoriesForUser(userId),
+    ]);
+    const estimateByGoalId = new Map(estimates.map(estimate => [estimate.goalId, estimate]));
+    const effortByGoalId = new Map(allGoals.map(({ goal }) => [goal.id, resolveGoalEffort(goal, estimateByGoalId.get(goal.id))]));
+
     // Calculate recommendations with scoring
     const recommendations = allGoals.map(({ goal, category }) => {
       let score = 0;
@@ -888,13 +2745,40 @@ export class DatabaseStorage implements IStorage {
         goal: { ...goal, category } as Goal & { category: Category },
         score: Math.max(0, score), // Ensure non-negative score
         reason: reasons.length > 0 ? reasons.join(" • ") : "Recommended for you", // Join multiple reasons
+        effort: effortByGoalId.get(goal.id)!,
       };
     });
 
-    // Sort by score and return top recommendations
-    return recommendations
-      .sort((a, b) => b.score - a.score)
-      .slice(0, categoryId ? 6 : 12); // Return 6 per category or 12 total
+    // Within one category, offer the top alternatives
+    if (categoryId) {
+      return recommendations
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 6);
+    }
+
+    // Across categories, build a whole week that fits the user's usual load:
+    // every active category gets its goals, and hard goals are spread thin
+    const template = resolvePlanTemplate(savedTemplate);
+    const activeCategoryIds = new Set(getActiveCategories(template, userCategories).map(category => category.id));
+    const candidates = recommendations.filter(recommendation => activeCategoryIds.has(recommendation.goal.categoryId));
+    const activeCategoryCount = new Set(candidates.map(candidate => candidate.goal.categoryId)).size;
+    const slotsPerCategory = template.goalsPerCategory;
+
+    const completedMinutesByWeek = new Map<string, number>();
+    for (const entry of userHistory) {
+      const week = toDateString(entry.weekStart);
+      const effort = effortByGoalId.get(entry.goalId);
+      if (entry.completed && effort) {
+        completedMinutesByWeek.set(week, (completedMinutesByWeek.get(week) || 0) + effort.estimatedWeeklyMinutes);
+      }
+    }
+    const recentWeeks = Array.from(completedMinutesByWeek.keys()).sort().reverse().slice(0, 4);
+
+    return buildBalancedLoad(candidates, {
+      slotsPerCategory,
+      minutesBudget: getWeeklyMinutesBudget(recentWeeks.map(week => completedMinutesByWeek.get(week)!)),
+      maxHardGoals: Math.max(1, Math.floor((activeCategoryCount * slotsPerCategory) / 4)),
+    });
   }
 
   // Notification operations
@@ -951,6 +2835,17 @@ export class DatabaseStorage implements IStorage {
     return newNotification;
   }
 
+  // Send a notification unless one with the same dedupe key already went out.
+  // The unique index settles concurrent senders.
+  private async createNotificationOnce(notification: InsertNotification & { dedupeKey: string }): Promise<Notification | null> {
+    const [newNotification] = await db
+      .insert(notifications)
+      .values(notification)
+      .onConflictDoNothing({ target: [notifications.userId, notifications.dedupeKey] })
+      .returning();
+    return newNotification ?? null;
+  }
+
   async markNotificationAsRead(notificationId: string, userId: string): Promise<Notification | undefined> {
     const [updatedNotification] = await db
       .update(notifications)
@@ -979,10 +2874,26 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount > 0;
   }
 
+  // Streak-at-risk, weekly recap and overdue-goal reminders that are due now. Each is sent
+  // at most once, so this is safe to call whenever the user shows up.
+  async sendDueReminders(userId: string): Promise<Notification[]> {
+    const reminders: Notification[] = [];
+    const streakReminder = await this.sendStreakAtRiskReminder(userId);
+    if (streakReminder) {
+      reminders.push(streakReminder);
+    }
+    const weeklyRecap = await this.sendWeeklyRecap(userId);
+    if (weeklyRecap) {
+      reminders.push(weeklyRecap);
+    }
+    reminders.push(...await this.sendOverdueGoalReminders(userId));
+    return reminders;
+  }
+
   async scheduleGoalReminders(userId: string): Promise<Notification[]> {
     // Get current week's incomplete goals
-    const weekStart = new Date();
-    weekStart.setDate(weekStart.getDate() - weekStart.getDay() + 1); // Set to Monday
+    const user = await this.getUser(userId);
+    const weekStart = getWeekStart(resolveWeekSettings(user));
     
     const incompleteGoals = await db
       .select({
@@ -1021,6 +2932,145 @@ export class DatabaseStorage implements IStorage {
     return reminders;
   }
 
+  // Nudge the user once a week, in the last days of the week, when a streak
+  // carried over from last week hasn't been extended yet
+  async sendStreakAtRiskReminder(userId: string): Promise<Notification | null> {
+    const user = await this.getUser(userId);
+    const settings = resolveWeekSettings(user);
+    const weekStart = getWeekStart(settings);
+    if (getDaysLeftInWeek(weekStart, settings) > STREAK_AT_RISK_DAYS_LEFT) {
+      return null;
+    }
+
+    const preferences = await this.getUserNotificationPreferences(userId);
+    if (preferences?.goalReminders === false) {
+      return null;
+    }
+
+    const streaks = await this.getUserStreaks(userId, weekStart);
+    const categoriesAtRisk = streaks.categories.filter(streak => streak.atRisk);
+    if (!streaks.overall.atRisk && categoriesAtRisk.length === 0) {
+      return null;
+    }
+
+    const categoryNames = categoriesAtRisk.map(streak => streak.categoryName).join(", ");
+    return await this.createNotificationOnce({
+      userId,
+      type: "streak_at_risk",
+      dedupeKey: `streak_at_risk:${streaks.weekStart}`,
+      title: streaks.overall.atRisk
+        ? `Your ${streaks.overall.current}-week streak is at risk 🔥`
+        : "Keep your streaks alive 🔥",
+      message: streaks.overall.atRisk
+        ? "The week is almost over. Complete a few more goals to keep your achievement streak going!"
+        : `The week is almost over. Your ${categoryNames} ${categoriesAtRisk.length === 1 ? "streak needs" : "streaks need"} a win this week!`,
+      data: {
+        weekStart: streaks.weekStart,
+        overallStreak: streaks.overall.current,
+        categoryIds: categoriesAtRisk.map(streak => streak.categoryId),
+      },
+    });
+  }
+
+  // Remind the user about unfinished goals whose planned slot has passed. Each slot is
+  // reminded once, so rescheduling a goal earns it a fresh reminder later.
+  async sendOverdueGoalReminders(userId: string): Promise<Notification[]> {
+    const preferences = await this.getUserNotificationPreferences(userId);
+    if (preferences?.goalReminders === false) {
+      return [];
+    }
+
+    const user = await this.getUser(userId);
+    const settings = resolveWeekSettings(user);
+    const weekStart = getWeekStart(settings);
+    const weekKey = toDateString(weekStart);
+
+    const incompleteGoals = await db
+      .select({
+        userGoal: userGoals,
+        goal: goals,
+        category: categories,
+      })
+      .from(userGoals)
+      .innerJoin(goals, eq(userGoals.goalId, goals.id))
+      .innerJoin(categories, eq(goals.categoryId, categories.id))
+      .where(
+        and(
+          eq(userGoals.userId, userId),
+          eq(userGoals.weekStart, weekStart),
+          eq(userGoals.completed, false)
+        )
+      );
+    const overdueGoals = incompleteGoals.filter(({ userGoal }) => isScheduleOverdue(userGoal, settings.timezone));
+    if (overdueGoals.length === 0) {
+      return [];
+    }
+
+    const reminders: Notification[] = [];
+    for (const { userGoal, goal, category } of overdueGoals) {
+      const reminder = await this.createNotificationOnce({
+        userId,
+        type: "goal_overdue",
+        dedupeKey: `goal_overdue:${weekKey}:${userGoal.id}|${userGoal.scheduledDate}|${userGoal.scheduledTime ?? ""}`,
+        title: `Overdue: ${category.name} Goal`,
+        message: `You planned "${goal.description}" for ${userGoal.scheduledTime ? `${userGoal.scheduledTime} on ` : ""}${userGoal.scheduledDate}. Do it now or pick a new time.`,
+        data: {
+          weekStart: weekKey,
+          userGoalId: userGoal.id,
+          goalId: goal.id,
+          categoryId: category.id,
+          scheduledDate: userGoal.scheduledDate,
+          scheduledTime: userGoal.scheduledTime,
+        },
+      });
+      if (reminder) {
+        reminders.push(reminder);
+      }
+    }
+
+    return reminders;
+  }
+
+  // Summarize the week as it ends and point the user at the weekly review
+  async sendWeeklyRecap(userId: string): Promise<Notification | null> {
+    const user = await this.getUser(userId);
+    const settings = resolveWeekSettings(user);
+    const weekStart = getWeekStart(settings);
+    if (getDaysLeftInWeek(weekStart, settings) > WEEKLY_RECAP_DAYS_LEFT) {
+      return null;
+    }
+
+    const preferences = await this.getUserNotificationPreferences(userId);
+    if (preferences?.weeklyRecap === false) {
+      return null;
+    }
+
+    const weekKey = toDateString(weekStart);
+    const [weekGoals, achievement] = await Promise.all([
+      this.getUserGoalsForWeek(userId, weekStart),
+      this.getWeeklyAchievement(userId, weekStart),
+    ]);
+    if (weekGoals.length === 0) {
+      return null;
+    }
+
+    const completedGoals = weekGoals.filter(userGoal => userGoal.completed).length;
+    return await this.createNotificationOnce({
+      userId,
+      type: "weekly_recap",
+      dedupeKey: `weekly_recap:${weekKey}`,
+      title: "Your week in review 📋",
+      message: `You completed ${completedGoals} of ${weekGoals.length} goals this week. Take a few minutes to reflect and plan next week.`,
+      data: {
+        weekStart: weekKey,
+        completedGoals,
+        totalGoals: weekGoals.length,
+        level: achievement?.level ?? "none",
+        url: `/review?weekStart=${weekKey}`,
+      },
+    });
+  }
+
   async createAchievementCelebration(userId: string, achievement: Achievement): Promise<Notification> {
     const levelMessages = {
       track: "You're on track! 🎯 Keep up the momentum!",
@@ -1041,6 +3091,31 @@ export class DatabaseStorage implements IStorage {
       },
     });
   }
+
+  async createBadgeNotification(userId: string, userBadge: UserBadge): Promise<Notification> {
+    const badge = getBadge(userBadge.badgeId);
+
+    return await this.createNotification({
+      userId,
+      type: "badge_earned",
+      title: `Badge Earned: ${badge?.name ?? userBadge.badgeId}! 🏅`,
+      message: badge ? `${badge.description} — done!` : "You earned a new badge!",
+      data: {
+        badgeId: userBadge.badgeId,
+        earnedAt: userBadge.earnedAt,
+      },
+    });
+  }
+
+  async createLevelUpNotification(userId: string, level: number): Promise<Notification> {
+    return await this.createNotification({
+      userId,
+      type: "level_up",
+      title: `Level ${level} Reached! ⭐`,
+      message: `Your hard work is paying off. You're now level ${level}!`,
+      data: { level },
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
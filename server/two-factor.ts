@@ -0,0 +1,122 @@
+import QRCode from "qrcode";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { HttpError } from "./errors";
+import { generateTotpSecret, verifyTotpCode, buildOtpauthUri } from "./totp";
+import type { User } from "@shared/schema";
+
+const TOTP_ISSUER = "MakeProgress";
+const RECOVERY_CODE_COUNT = 10;
+// No 0/O or 1/I/L, so codes survive being written down
+const RECOVERY_CODE_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+
+// TOTP secrets must be readable to check codes, so they are encrypted rather than hashed
+const SECRET_KEY = createHash("sha256").update(`totp-secret:${process.env.SESSION_SECRET}`).digest();
+
+function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", SECRET_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64url")).join(".");
+}
+
+function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(".").map(part => Buffer.from(part, "base64url"));
+  const decipher = createDecipheriv("aes-256-gcm", SECRET_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// Formatted as "xxxxx-xxxxx"; the hash ignores case and separators
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const bytes = randomBytes(10);
+    const chars = Array.from(bytes, byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+async function issueRecoveryCodes(replace: (hashes: string[]) => Promise<void>): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await replace(codes.map(hashRecoveryCode));
+  return codes;
+}
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  return !!twoFactor?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: string) {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  const enabled = !!twoFactor?.enabledAt;
+  return {
+    enabled,
+    enabledAt: twoFactor?.enabledAt ?? null,
+    recoveryCodesRemaining: enabled ? await storage.countUnusedRecoveryCodes(userId) : 0,
+  };
+}
+
+// Step one of enrollment: a fresh secret to scan. Nothing changes for sign-in until
+// the user proves their app works by confirming a code.
+export async function beginTwoFactorSetup(user: User) {
+  const secret = generateTotpSecret();
+  await storage.startTwoFactorEnrollment(user.id, encryptSecret(secret));
+  const otpauthUri = buildOtpauthUri(secret, user.email, TOTP_ISSUER);
+  return {
+    secret,
+    otpauthUri,
+    qrCodeDataUrl: await QRCode.toDataURL(otpauthUri),
+  };
+}
+
+export async function confirmTwoFactorSetup(userId: string, code: string): Promise<string[]> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor || twoFactor.enabledAt) {
+    throw new HttpError(400, "Start two-factor setup before confirming it");
+  }
+  const step = verifyTotpCode(decryptSecret(twoFactor.secret), code);
+  if (step === null) {
+    throw new HttpError(400, "Invalid authentication code");
+  }
+  return await issueRecoveryCodes(hashes => storage.enableTwoFactor(userId, step, hashes));
+}
+
+// Accepts a code from the authenticator app or an unused recovery code. Either is
+// spent on success.
+export async function verifySecondFactor(userId: string, code: string): Promise<boolean> {
+  const twoFactor = await storage.getUserTwoFactor(userId);
+  if (!twoFactor?.enabledAt) {
+    return false;
+  }
+  const step = verifyTotpCode(decryptSecret(twoFactor.secret), code, twoFactor.lastUsedStep);
+  if (step !== null) {
+    return await storage.markTwoFactorStepUsed(userId, step);
+  }
+  if (normalizeRecoveryCode(code).length === 10) {
+    return await storage.consumeRecoveryCode(userId, hashRecoveryCode(code));
+  }
+  return false;
+}
+
+export async function regenerateRecoveryCodes(userId: string, code: string): Promise<string[]> {
+  if (!await verifySecondFactor(userId, code)) {
+    throw new HttpError(400, "Invalid authentication code");
+  }
+  return await issueRecoveryCodes(hashes => storage.replaceRecoveryCodes(userId, hashes));
+}
+
+export async function disableTwoFactor(userId: string, code: string): Promise<void> {
+  if (!await verifySecondFactor(userId, code)) {
+    throw new HttpError(400, "Invalid authentication code");
+  }
+  await storage.disableTwoFactor(userId);
+}
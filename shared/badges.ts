@@ -0,0 +1,89 @@
+// Badge catalog and rules shared by the server and client.
+// Badges are one-off awards on top of the weekly track/rock/slayed levels.
+// Each badge has a rule that is checked against a snapshot of the user's
+// history; the server re-checks the rules after the events that can affect them.
+
+import { ACHIEVEMENT_LEVELS, type AchievementLevel } from "./plan";
+import { getLongestStreak } from "./streaks";
+
+export type BadgeEvent = "goal_progress" | "custom_goal_created" | "friendship_accepted";
+
+export type BadgeRule =
+  | { type: "custom_goals_created"; count: number }
+  | { type: "goals_completed"; count: number }
+  | { type: "achievement_streak"; level: AchievementLevel; weeks: number } // Consecutive weeks at this level or higher
+  | { type: "category_mastery"; categoryName: string } // Every goal in the category completed at least once
+  | { type: "friends"; count: number };
+
+export interface BadgeDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string; // Font Awesome icon class
+  rule: BadgeRule;
+}
+
+export const BADGE_CATALOG: BadgeDefinition[] = [
+  { id: "first_goal", name: "First Step", description: "Complete your first goal", icon: "fa-shoe-prints", rule: { type: "goals_completed", count: 1 } },
+  { id: "goals_50", name: "Half Century", description: "Complete 50 goals", icon: "fa-medal", rule: { type: "goals_completed", count: 50 } },
+  { id: "first_custom_goal", name: "Trailblazer", description: "Create your first custom goal", icon: "fa-pencil-alt", rule: { type: "custom_goals_created", count: 1 } },
+  { id: "custom_goals_10", name: "Architect", description: "Create 10 custom goals", icon: "fa-drafting-compass", rule: { type: "custom_goals_created", count: 10 } },
+  { id: "track_streak_4", name: "Steady Climber", description: "Stay on track for 4 weeks in a row", icon: "fa-route", rule: { type: "achievement_streak", level: "track", weeks: 4 } },
+  { id: "rock_streak_4", name: "Rock Solid", description: "Rock it for 4 weeks in a row", icon: "fa-gem", rule: { type: "achievement_streak", level: "rock", weeks: 4 } },
+  { id: "slayed_streak_4", name: "Unstoppable", description: "Slay 4 weeks in a row", icon: "fa-dragon", rule: { type: "achievement_streak", level: "slayed", weeks: 4 } },
+  { id: "personal_mastery", name: "Self Starter", description: "Complete every Personal goal", icon: "fa-user-check", rule: { type: "category_mastery", categoryName: "Personal" } },
+  { id: "inner_peace_mastery", name: "Zen Master", description: "Complete every Inner Peace goal", icon: "fa-spa", rule: { type: "category_mastery", categoryName: "Inner Peace" } },
+  { id: "health_mastery", name: "Picture of Health", description: "Complete every Health goal", icon: "fa-heartbeat", rule: { type: "category_mastery", categoryName: "Health" } },
+  { id: "family_mastery", name: "Family First", description: "Complete every Family goal", icon: "fa-home", rule: { type: "category_mastery", categoryName: "Family" } },
+  { id: "career_mastery", name: "Career Builder", description: "Complete every Career goal", icon: "fa-briefcase", rule: { type: "category_mastery", categoryName: "Career" } },
+  { id: "fun_mastery", name: "Good Times", description: "Complete every Fun goal", icon: "fa-gamepad", rule: { type: "category_mastery", categoryName: "Fun" } },
+  { id: "first_friend", name: "Buddy System", description: "Make your first friend", icon: "fa-user-friends", rule: { type: "friends", count: 1 } },
+  { id: "friends_10", name: "Social Butterfly", description: "Have 10 friends", icon: "fa-users", rule: { type: "friends", count: 10 } },
+];
+
+// Which events can change the outcome of each rule type
+export const BADGE_RULE_EVENTS: Record<BadgeRule["type"], BadgeEvent[]> = {
+  custom_goals_created: ["custom_goal_created"],
+  goals_completed: ["goal_progress"],
+  achievement_streak: ["goal_progress"],
+  category_mastery: ["goal_progress", "custom_goal_created"],
+  friends: ["friendship_accepted"],
+};
+
+export interface BadgeStats {
+  customGoalsCreated: number;
+  goalsCompleted: number;
+  friendCount: number;
+  achievements: { weekStart: string; level: string }[]; // weekStart as YYYY-MM-DD
+  categories: { categoryName: string; totalGoals: number; completedGoals: number }[]; // Distinct goals available to the user
+}
+
+export function getBadge(badgeId: string): BadgeDefinition | undefined {
+  return BADGE_CATALOG.find(badge => badge.id === badgeId);
+}
+
+export function getBadgesForEvent(event: BadgeEvent): BadgeDefinition[] {
+  return BADGE_CATALOG.filter(badge => BADGE_RULE_EVENTS[badge.rule.type].includes(event));
+}
+
+export function isBadgeEarned(rule: BadgeRule, stats: BadgeStats): boolean {
+  switch (rule.type) {
+    case "custom_goals_created":
+      return stats.customGoalsCreated >= rule.count;
+    case "goals_completed":
+      return stats.goalsCompleted >= rule.count;
+    case "achievement_streak": {
+      const minimum = ACHIEVEMENT_LEVELS.indexOf(rule.level);
+      const weeks = stats.achievements
+        .filter(achievement => ACHIEVEMENT_LEVELS.indexOf(achievement.level as AchievementLevel) >= minimum)
+        .map(achievement => achievement.weekStart);
+      return getLongestStreak(weeks) >= rule.weeks;
+    }
+    case "category_mastery": {
+      const category = stats.categories.find(category => category.categoryName === rule.categoryName);
+      return !!category && category.totalGoals > 0 && category.completedGoals >= category.totalGoals;
+    }
+    case "friends":
+      return stats.friendCount >= rule.count;
+  }
+}
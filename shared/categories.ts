@@ -0,0 +1,57 @@
+// Category icons and colors shared by the server and client.
+// Default categories store an asset filename as their icon and a theme key as
+// their color (rendered with the matching `category-<key>` class). Categories
+// a user creates store a picked Font Awesome icon or an uploaded image as a
+// data URL, and a hex color.
+
+// Icons offered when creating a category
+export const CATEGORY_ICON_CHOICES = [
+  "fa-star",
+  "fa-heart",
+  "fa-book",
+  "fa-briefcase",
+  "fa-dumbbell",
+  "fa-leaf",
+  "fa-music",
+  "fa-paint-brush",
+  "fa-code",
+  "fa-coins",
+  "fa-home",
+  "fa-users",
+  "fa-utensils",
+  "fa-plane",
+  "fa-graduation-cap",
+  "fa-seedling",
+];
+
+export const DEFAULT_CUSTOM_CATEGORY_COLOR = "#6366f1";
+
+// Uploaded icons are stored inline, so keep them small
+export const MAX_CATEGORY_ICON_BYTES = 64 * 1024;
+
+const ICON_CLASS_PATTERN = /^fa-[a-z0-9-]+$/;
+const ICON_DATA_URL_PATTERN = /^data:image\/(png|jpeg|gif|webp|svg\+xml);base64,[A-Za-z0-9+/]+=*$/;
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+export function isIconClass(icon: string | null | undefined): icon is string {
+  return !!icon && ICON_CLASS_PATTERN.test(icon);
+}
+
+export function isIconDataUrl(icon: string | null | undefined): icon is string {
+  return !!icon && ICON_DATA_URL_PATTERN.test(icon);
+}
+
+export function isHexColor(color: string | null | undefined): color is string {
+  return !!color && HEX_COLOR_PATTERN.test(color);
+}
+
+// Decoded size of a base64 data URL, close enough to compare with MAX_CATEGORY_ICON_BYTES
+export function getDataUrlByteSize(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+export function isValidCustomCategoryIcon(icon: string): boolean {
+  return isIconClass(icon) || (isIconDataUrl(icon) && getDataUrlByteSize(icon) <= MAX_CATEGORY_ICON_BYTES);
+}
@@ -0,0 +1,121 @@
+// Goal difficulty and effort estimates shared by the server and client.
+// Every goal carries a difficulty and an optional estimate of the minutes it
+// takes per week; users can override both for themselves. Recommendations use
+// the resolved effort to build a weekly load that fits the user's usual pace.
+
+export type GoalDifficulty = "easy" | "medium" | "hard";
+
+// Easiest to hardest
+export const GOAL_DIFFICULTIES: GoalDifficulty[] = ["easy", "medium", "hard"];
+
+export const DEFAULT_GOAL_DIFFICULTY: GoalDifficulty = "medium";
+
+// Used when a goal has no estimate of its own
+export const DEFAULT_WEEKLY_MINUTES: Record<GoalDifficulty, number> = {
+  easy: 30,
+  medium: 60,
+  hard: 120,
+};
+
+// Weekly minutes budget for users without enough history to go by
+export const DEFAULT_WEEKLY_MINUTES_BUDGET = 600;
+const MIN_WEEKLY_MINUTES_BUDGET = 180;
+const BUDGET_STRETCH = 1.2; // Plan a little more than the user usually completes
+
+export interface GoalEffortFields {
+  difficulty?: string | null;
+  estimatedWeeklyMinutes?: number | null;
+}
+
+export interface GoalEffort {
+  difficulty: GoalDifficulty;
+  estimatedWeeklyMinutes: number;
+  isOverridden: boolean; // Whether the user's own estimate changed anything
+}
+
+export function isGoalDifficulty(value: unknown): value is GoalDifficulty {
+  return typeof value === "string" && (GOAL_DIFFICULTIES as string[]).includes(value);
+}
+
+// The user's override wins field by field over the goal's own values
+export function resolveGoalEffort(goal: GoalEffortFields, override?: GoalEffortFields | null): GoalEffort {
+  const overrideDifficulty = isGoalDifficulty(override?.difficulty) ? override.difficulty : null;
+  const overrideMinutes = override?.estimatedWeeklyMinutes ?? null;
+
+  const difficulty = overrideDifficulty ?? (isGoalDifficulty(goal.difficulty) ? goal.difficulty : DEFAULT_GOAL_DIFFICULTY);
+  const estimatedWeeklyMinutes = overrideMinutes ?? goal.estimatedWeeklyMinutes ?? DEFAULT_WEEKLY_MINUTES[difficulty];
+  return {
+    difficulty,
+    estimatedWeeklyMinutes,
+    isOverridden: overrideDifficulty !== null || overrideMinutes !== null,
+  };
+}
+
+// Size the weekly budget from the minutes the user actually completed in recent weeks
+export function getWeeklyMinutesBudget(completedMinutesByWeek: number[]): number {
+  if (completedMinutesByWeek.length === 0) {
+    return DEFAULT_WEEKLY_MINUTES_BUDGET;
+  }
+  const average = completedMinutesByWeek.reduce((sum, minutes) => sum + minutes, 0) / completedMinutesByWeek.length;
+  return Math.max(MIN_WEEKLY_MINUTES_BUDGET, Math.round(average * BUDGET_STRETCH));
+}
+
+export interface LoadCandidate {
+  goal: { categoryId: string };
+  score: number;
+  effort: GoalEffort;
+}
+
+export interface BalancedLoadOptions {
+  slotsPerCategory: number;
+  minutesBudget: number;
+  maxHardGoals: number;
+}
+
+// Fill each category's slots round by round, best score first, so no category is
+// left out. A pick may use up to twice its fair share of the remaining budget;
+// when nothing in a category fits, its lightest goal is taken instead.
+export function buildBalancedLoad<T extends LoadCandidate>(candidates: T[], options: BalancedLoadOptions): T[] {
+  const ranked = [...candidates].sort((a, b) => b.score - a.score);
+  const categoryIds = Array.from(new Set(ranked.map(candidate => candidate.goal.categoryId)));
+  const picked = new Set<T>();
+  let remainingSlots = categoryIds.length * options.slotsPerCategory;
+  let remainingMinutes = options.minutesBudget;
+  let hardGoals = 0;
+
+  for (let round = 0; round < options.slotsPerCategory; round++) {
+    for (const categoryId of categoryIds) {
+      const available = ranked.filter(candidate =>
+        candidate.goal.categoryId === categoryId &&
+        !picked.has(candidate) &&
+        (candidate.effort.difficulty !== "hard" || hardGoals < options.maxHardGoals)
+      );
+      if (available.length === 0) {
+        continue;
+      }
+
+      const allowance = (Math.max(0, remainingMinutes) / remainingSlots) * 2;
+      const choice = available.find(candidate => candidate.effort.estimatedWeeklyMinutes <= allowance)
+        ?? available.reduce((lightest, candidate) =>
+          candidate.effort.estimatedWeeklyMinutes < lightest.effort.estimatedWeeklyMinutes ? candidate : lightest
+        );
+
+      picked.add(choice);
+      remainingSlots--;
+      remainingMinutes -= choice.effort.estimatedWeeklyMinutes;
+      if (choice.effort.difficulty === "hard") {
+        hardGoals++;
+      }
+    }
+  }
+
+  return ranked.filter(candidate => picked.has(candidate));
+}
+
+// Compact label for a weekly time estimate, e.g. "45 min/wk" or "2.5 h/wk"
+export function formatWeeklyMinutes(minutes: number): string {
+  if (minutes < 60) {
+    return `${minutes} min/wk`;
+  }
+  return `${Math.round((minutes / 60) * 10) / 10} h/wk`;
+}
@@ -0,0 +1,152 @@
+// Weekly plan template rules shared by the server and client.
+// A template decides which categories are active, how many goals each one
+// takes, how many completions mark a category as done for the week, and
+// whether last week's goals carry over into a new week automatically.
+
+export interface PlanTemplate {
+  goalsPerCategory: number;
+  minGoalsPerCategory: number;
+  maxGoalsPerCategory: number;
+  activeCategoryIds: string[] | null;
+  autoRollover: boolean;
+  rolloverIncompleteOnly: boolean;
+}
+
+export const DEFAULT_PLAN_TEMPLATE: PlanTemplate = {
+  goalsPerCategory: 2,
+  minGoalsPerCategory: 2,
+  maxGoalsPerCategory: 2,
+  activeCategoryIds: null,
+  autoRollover: false,
+  rolloverIncompleteOnly: false,
+};
+
+export type AchievementLevel = "none" | "track" | "rock" | "slayed";
+
+// Lowest to highest
+export const ACHIEVEMENT_LEVELS: AchievementLevel[] = ["none", "track", "rock", "slayed"];
+
+export interface AchievementThresholds {
+  track: number;
+  rock: number;
+  slayed: number;
+}
+
+// Fill in defaults for users who never saved a template
+export function resolvePlanTemplate(template?: Partial<PlanTemplate> | null): PlanTemplate {
+  return {
+    goalsPerCategory: template?.goalsPerCategory ?? DEFAULT_PLAN_TEMPLATE.goalsPerCategory,
+    minGoalsPerCategory: template?.minGoalsPerCategory ?? DEFAULT_PLAN_TEMPLATE.minGoalsPerCategory,
+    maxGoalsPerCategory: template?.maxGoalsPerCategory ?? DEFAULT_PLAN_TEMPLATE.maxGoalsPerCategory,
+    activeCategoryIds: template?.activeCategoryIds ?? DEFAULT_PLAN_TEMPLATE.activeCategoryIds,
+    autoRollover: template?.autoRollover ?? DEFAULT_PLAN_TEMPLATE.autoRollover,
+    rolloverIncompleteOnly: template?.rolloverIncompleteOnly ?? DEFAULT_PLAN_TEMPLATE.rolloverIncompleteOnly,
+  };
+}
+
+export function isCategoryActive(template: PlanTemplate, categoryId: string): boolean {
+  return template.activeCategoryIds === null || template.activeCategoryIds.includes(categoryId);
+}
+
+export function getActiveCategories<T extends { id: string }>(template: PlanTemplate, categories: T[]): T[] {
+  return categories.filter(category => isCategoryActive(template, category.id));
+}
+
+export function isCategoryCompleted(template: PlanTemplate, completedGoals: number): boolean {
+  return completedGoals >= template.goalsPerCategory;
+}
+
+// Levels scale with the number of active categories: a third, two thirds, all of them.
+// With the default six categories this gives the original 2 / 4 / 6 thresholds.
+export function getAchievementThresholds(activeCategoryCount: number): AchievementThresholds {
+  const count = Math.max(1, activeCategoryCount);
+  return {
+    track: Math.max(1, Math.ceil(count / 3)),
+    rock: Math.max(1, Math.ceil((count * 2) / 3)),
+    slayed: count,
+  };
+}
+
+export function calculateAchievementLevel(categoriesCompleted: number, activeCategoryCount: number): AchievementLevel {
+  const thresholds = getAchievementThresholds(activeCategoryCount);
+  if (categoriesCompleted >= thresholds.slayed) return "slayed";
+  if (categoriesCompleted >= thresholds.rock) return "rock";
+  if (categoriesCompleted >= thresholds.track) return "track";
+  return "none";
+}
+
+export function isHigherAchievementLevel(level: string, than: string): boolean {
+  return ACHIEVEMENT_LEVELS.indexOf(level as AchievementLevel) > ACHIEVEMENT_LEVELS.indexOf(than as AchievementLevel);
+}
+
+export interface SelectableGoal {
+  id: string;
+  categoryId: string;
+  createdBy: string | null;
+  isCustom: boolean | null;
+}
+
+export interface GoalSelectionErrors {
+  errors: string[];
+  categoryErrors: Record<string, string[]>;
+}
+
+// Check a weekly selection against the plan: every goal must exist and be visible
+// to the user, come from an active (and not archived) category, and each active
+// category must fall within the template's min/max.
+export function validateGoalSelection(
+  template: PlanTemplate,
+  activeCategories: { id: string; name: string }[],
+  goalIds: string[],
+  resolvedGoals: SelectableGoal[],
+  userId: string,
+): GoalSelectionErrors | null {
+  const errors: string[] = [];
+  const categoryErrors: Record<string, string[]> = {};
+  const addCategoryError = (categoryId: string, message: string) => {
+    (categoryErrors[categoryId] ||= []).push(message);
+  };
+
+  if (new Set(goalIds).size !== goalIds.length) {
+    errors.push("Each goal can only be selected once");
+  }
+
+  // Custom goals owned by someone else are reported the same as missing ones
+  const goalsById = new Map(
+    resolvedGoals
+      .filter(goal => !goal.isCustom || goal.createdBy === userId)
+      .map(goal => [goal.id, goal]),
+  );
+  if (goalIds.some(id => !goalsById.has(id))) {
+    errors.push("Some selected goals are no longer available");
+  }
+
+  const countsByCategory = new Map<string, number>();
+  for (const id of Array.from(new Set(goalIds))) {
+    const goal = goalsById.get(id);
+    if (goal) {
+      countsByCategory.set(goal.categoryId, (countsByCategory.get(goal.categoryId) || 0) + 1);
+    }
+  }
+
+  const activeCategoryIds = new Set(activeCategories.map(category => category.id));
+  countsByCategory.forEach((_, categoryId) => {
+    if (!activeCategoryIds.has(categoryId)) {
+      addCategoryError(categoryId, "This category is not part of your weekly plan");
+    }
+  });
+
+  for (const category of activeCategories) {
+    const selected = countsByCategory.get(category.id) || 0;
+    if (selected < template.minGoalsPerCategory) {
+      addCategoryError(category.id, `Select at least ${template.minGoalsPerCategory} ${category.name} goals (${selected} selected)`);
+    } else if (selected > template.maxGoalsPerCategory) {
+      addCategoryError(category.id, `Select at most ${template.maxGoalsPerCategory} ${category.name} goals (${selected} selected)`);
+    }
+  }
+
+  if (errors.length === 0 && Object.keys(categoryErrors).length === 0) {
+    return null;
+  }
+  return { errors, categoryErrors };
+}
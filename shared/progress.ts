@@ -0,0 +1,75 @@
+// Per-goal progress shared by the server and client.
+// Goals are tracked one of three ways: a numeric target met by logged amounts,
+// a number of check-in days per week, or a plain completed flag.
+
+export const GOAL_AGGREGATIONS = ["sum", "max", "count"] as const;
+export type GoalAggregation = typeof GOAL_AGGREGATIONS[number];
+
+export type GoalProgressKind = "quantity" | "frequency" | "completion";
+
+export interface GoalProgressInput {
+  completed: boolean | null;
+  goal: {
+    targetValue: number | null;
+    unit: string | null;
+    aggregation: string | null;
+    targetDaysPerWeek: number | null;
+  };
+  checkins: { date: string }[];
+  progressLogs: { value: number }[];
+}
+
+export interface GoalProgress {
+  kind: GoalProgressKind;
+  currentValue: number;
+  targetValue: number;
+  unit: string | null;
+  percentage: number;
+  targetMet: boolean;
+}
+
+export function aggregateLogValues(values: number[], aggregation: string | null): number {
+  switch (aggregation) {
+    case "max":
+      return values.length > 0 ? Math.max(...values) : 0;
+    case "count":
+      return values.length;
+    default:
+      return values.reduce((total, value) => total + value, 0);
+  }
+}
+
+export function isTrackedGoal(goal: GoalProgressInput["goal"]): boolean {
+  return goal.targetValue != null || goal.targetDaysPerWeek != null;
+}
+
+export function calculateGoalProgress(userGoal: GoalProgressInput): GoalProgress {
+  const { goal } = userGoal;
+  let kind: GoalProgressKind;
+  let currentValue: number;
+  let targetValue: number;
+
+  if (goal.targetValue != null) {
+    kind = "quantity";
+    currentValue = aggregateLogValues(userGoal.progressLogs.map(log => log.value), goal.aggregation);
+    targetValue = goal.targetValue;
+  } else if (goal.targetDaysPerWeek != null) {
+    kind = "frequency";
+    currentValue = userGoal.checkins.length;
+    targetValue = goal.targetDaysPerWeek;
+  } else {
+    kind = "completion";
+    currentValue = userGoal.completed ? 1 : 0;
+    targetValue = 1;
+  }
+
+  const targetMet = targetValue > 0 ? currentValue >= targetValue : true;
+  return {
+    kind,
+    currentValue,
+    targetValue,
+    unit: kind === "quantity" ? goal.unit : kind === "frequency" ? "days" : null,
+    percentage: targetValue > 0 ? Math.min(100, Math.round((currentValue / targetValue) * 100)) : 100,
+    targetMet,
+  };
+}
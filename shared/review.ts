@@ -0,0 +1,33 @@
+// Weekly review rules shared by the server and client.
+// At the end of a week the user decides, goal by goal, what carries into the
+// next week: keep the same goal, drop it, or adjust it by swapping in another
+// goal from the same category. The decisions become next week's selection.
+
+export type ReviewAction = "keep" | "drop" | "adjust";
+
+export const REVIEW_ACTIONS: ReviewAction[] = ["keep", "drop", "adjust"];
+
+export interface ReviewDecision {
+  userGoalId: string;
+  action: ReviewAction;
+  replacementGoalId?: string; // Required when adjusting
+}
+
+// Goals with no decision are kept. Extra goals are added on top; duplicates collapse.
+export function buildNextWeekGoalIds(
+  weekGoals: { id: string; goalId: string }[],
+  decisions: ReviewDecision[],
+  addGoalIds: string[] = [],
+): string[] {
+  const decisionByUserGoalId = new Map(decisions.map(decision => [decision.userGoalId, decision]));
+  const goalIds: string[] = [];
+  for (const weekGoal of weekGoals) {
+    const decision = decisionByUserGoalId.get(weekGoal.id);
+    if (!decision || decision.action === "keep") {
+      goalIds.push(weekGoal.goalId);
+    } else if (decision.action === "adjust" && decision.replacementGoalId) {
+      goalIds.push(decision.replacementGoalId);
+    }
+  }
+  return Array.from(new Set([...goalIds, ...addGoalIds]));
+}
@@ -0,0 +1,43 @@
+// Planned day/time slots for goals, shared by the server and client.
+// A slot is a YYYY-MM-DD date inside the goal's week plus an optional HH:MM
+// time, both read in the user's timezone like every other calendar date.
+
+import { getZonedDateString } from "./week";
+
+export interface GoalSchedule {
+  scheduledDate: string | null;
+  scheduledTime: string | null;
+}
+
+export function isTimeString(time: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(time);
+}
+
+// Wall-clock time (HH:MM) of an instant as seen in the given timezone
+export function getZonedTimeString(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return `${part("hour")}:${part("minute")}`;
+}
+
+// An unfinished goal is overdue once its slot has passed: the end of the planned
+// day, or the planned time when there is one
+export function isScheduleOverdue(
+  userGoal: GoalSchedule & { completed: boolean | null },
+  timezone: string,
+  now: Date = new Date(),
+): boolean {
+  if (userGoal.completed || !userGoal.scheduledDate) {
+    return false;
+  }
+  const today = getZonedDateString(now, timezone);
+  if (userGoal.scheduledDate !== today) {
+    return userGoal.scheduledDate < today;
+  }
+  return userGoal.scheduledTime !== null && userGoal.scheduledTime <= getZonedTimeString(now, timezone);
+}
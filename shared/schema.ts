@@ -8,10 +8,16 @@ import {
   text,
   boolean,
   integer,
+  real,
+  date,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidTimezone } from "./week";
+import { isHexColor, isValidCustomCategoryIcon } from "./categories";
+import { isTimeString } from "./schedule";
 
 // Session storage table.
 // (IMPORTANT) This table is mandatory for Replit Auth, don't drop it.
@@ -34,47 +40,251 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   passwordHash: varchar("password_hash"), // For custom authentication
   emailVerified: boolean("email_verified").default(false),
+  timezone: varchar("timezone", { length: 64 }).notNull().default("UTC"), // IANA name, e.g. "Europe/Berlin"
+  weekStartDay: integer("week_start_day").notNull().default(1), // 0 = Sunday … 6 = Saturday
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const categories = pgTable("categories", {
+// One row per sign-in on a device. Access tokens name their session, so revoking it
+// shuts the device out on its next request.
+export const authSessions = pgTable(
+  "auth_sessions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    deviceName: varchar("device_name", { length: 100 }), // e.g. "Chrome on macOS", derived from the user agent
+    ipAddress: varchar("ip_address", { length: 64 }),
+    userAgent: text("user_agent"),
+    lastSeenAt: timestamp("last_seen_at").defaultNow(),
+    expiresAt: timestamp("expires_at").notNull(), // Pushed back each time the refresh token rotates
+    revokedAt: timestamp("revoked_at"), // Set on logout, remote sign-out or token reuse
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_auth_sessions_user").on(table.userId),
+    index("IDX_auth_sessions_expires").on(table.expiresAt),
+  ],
+);
+
+// Rotating refresh tokens, stored as SHA-256 hashes. Every token issued from one
+// sign-in shares a family, the session; reusing a rotated token revokes the session.
+export const refreshTokens = pgTable(
+  "refresh_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    familyId: varchar("family_id").notNull().references(() => authSessions.id, { onDelete: "cascade" }),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    rotatedAt: timestamp("rotated_at"), // Set once the token has been exchanged for a new one
+    revokedAt: timestamp("revoked_at"), // Set when its session is revoked
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_refresh_tokens_family").on(table.familyId),
+    index("IDX_refresh_tokens_expires").on(table.expiresAt),
+  ],
+);
+
+// Single-use email verification and password reset tokens. The link carries a signed
+// token naming this row; the row makes it single use and lets newer links retire older ones.
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    purpose: varchar("purpose", { length: 32 }).notNull(), // "email_verification" | "password_reset"
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"), // Set once the link has been followed, or a newer link was sent
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_auth_tokens_user_purpose").on(table.userId, table.purpose),
+    index("IDX_auth_tokens_expires").on(table.expiresAt),
+  ],
+);
+
+// TOTP two-factor authentication. The secret is stored encrypted; a row without
+// enabledAt is an enrollment that hasn't been confirmed with a code yet.
+export const userTwoFactor = pgTable("user_two_factor", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  name: varchar("name", { length: 255 }).notNull().unique(),
-  description: text("description"),
-  icon: varchar("icon", { length: 50 }),
-  color: varchar("color", { length: 50 }),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // Time step of the last accepted code, so codes can't be replayed
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Single-use codes for signing in without the authenticator app, stored as SHA-256 hashes
+export const twoFactorRecoveryCodes = pgTable(
+  "two_factor_recovery_codes",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    codeHash: varchar("code_hash", { length: 64 }).notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_two_factor_recovery_codes_user").on(table.userId)],
+);
+
+// Sliding-window rate limit log used by the Postgres rate limit store: one row per counted request
+export const rateLimitHits = pgTable(
+  "rate_limit_hits",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    key: varchar("key", { length: 320 }).notNull(), // "<rule>:<ip or email>"
+    hitAt: timestamp("hit_at").notNull(),
+  },
+  (table) => [index("IDX_rate_limit_hits_key_time").on(table.key, table.hitAt)],
+);
+
+// Audit trail of failed sign-ins, kept whichever rate limit store is in use
+export const failedLoginAttempts = pgTable(
+  "failed_login_attempts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    email: varchar("email").notNull(),
+    userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // null when no account matches
+    ipAddress: varchar("ip_address", { length: 64 }),
+    userAgent: text("user_agent"),
+    reason: varchar("reason", { length: 32 }).notNull(), // "invalid_credentials" | "invalid_two_factor" | "locked_out" | "rate_limited"
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    index("IDX_failed_login_attempts_email").on(table.email, table.createdAt),
+    index("IDX_failed_login_attempts_ip").on(table.ipAddress, table.createdAt),
+  ],
+);
+
+export const categories = pgTable(
+  "categories",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    name: varchar("name", { length: 255 }).notNull(),
+    description: text("description"),
+    icon: text("icon"), // Asset filename for default categories, "fa-…" class or image data URL for custom ones
+    color: varchar("color", { length: 50 }), // Theme key for default categories, "#rrggbb" for custom ones
+    createdBy: varchar("created_by").references(() => users.id), // null for default categories, user ID for custom categories
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  // Names are compared ignoring case, as assertCategoryNameAvailable does
+  (table) => [uniqueIndex("IDX_categories_owner_lower_name").on(table.createdBy, sql`lower(${table.name})`)],
+);
+
+// Categories a user has hidden from planning; their goals and history stay intact
+export const userArchivedCategories = pgTable(
+  "user_archived_categories",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    categoryId: varchar("category_id").notNull().references(() => categories.id, { onDelete: "cascade" }),
+    archivedAt: timestamp("archived_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_archived_categories_user_category").on(table.userId, table.categoryId)],
+);
+
 export const goals = pgTable("goals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   categoryId: varchar("category_id").notNull().references(() => categories.id),
   description: text("description").notNull(),
   createdBy: varchar("created_by").references(() => users.id), // null for system goals, user ID for custom goals
   isCustom: boolean("is_custom").default(false),
+  targetDaysPerWeek: integer("target_days_per_week"), // null for one-off goals, otherwise check-in days needed per week
+  targetValue: real("target_value"), // null for goals without a numeric target
+  unit: varchar("unit", { length: 50 }), // e.g. "glasses", "minutes"
+  aggregation: varchar("aggregation", { length: 10 }).default("sum"), // "sum", "max", "count" - how logged amounts combine over the week
+  difficulty: varchar("difficulty", { length: 10 }).notNull().default("medium"), // "easy", "medium", "hard"
+  estimatedWeeklyMinutes: integer("estimated_weekly_minutes"), // null falls back to a default for the difficulty
+  archivedAt: timestamp("archived_at"), // Set when a custom goal with history is deleted; hidden from new plans
   createdAt: timestamp("created_at").defaultNow(),
 });
 
-export const userGoals = pgTable("user_goals", {
-  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  goalId: varchar("goal_id").notNull().references(() => goals.id),
-  weekStart: timestamp("week_start").notNull(), // Monday of the week
-  completed: boolean("completed").default(false),
-  completedAt: timestamp("completed_at"),
-  createdAt: timestamp("created_at").defaultNow(),
-});
+export const userGoals = pgTable(
+  "user_goals",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    goalId: varchar("goal_id").notNull().references(() => goals.id),
+    weekStart: timestamp("week_start").notNull(), // First day of the week in the user's timezone, as midnight UTC
+    completed: boolean("completed").default(false),
+    completedAt: timestamp("completed_at"),
+    note: text("note"), // Why the goal went well or badly this week
+    autoCompleteFromSubtasks: boolean("auto_complete_from_subtasks").notNull().default(true), // Complete once every sub-task is done
+    scheduledDate: date("scheduled_date", { mode: "string" }), // Planned day within the week (YYYY-MM-DD), if any
+    scheduledTime: varchar("scheduled_time", { length: 5 }), // Planned time of day (HH:MM) on that date, if any
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_goals_user_goal_week").on(table.userId, table.goalId, table.weekStart)],
+);
 
-export const achievements = pgTable("achievements", {
+export const goalCheckins = pgTable(
+  "goal_checkins",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userGoalId: varchar("user_goal_id").notNull().references(() => userGoals.id, { onDelete: "cascade" }),
+    date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+    value: integer("value").notNull().default(1),
+    note: text("note"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_goal_checkins_user_goal_date").on(table.userGoalId, table.date)],
+);
+
+export const goalSubtasks = pgTable(
+  "goal_subtasks",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userGoalId: varchar("user_goal_id").notNull().references(() => userGoals.id, { onDelete: "cascade" }),
+    title: varchar("title", { length: 200 }).notNull(),
+    position: integer("position").notNull(), // Order within the checklist, starting at 0
+    completed: boolean("completed").notNull().default(false),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_goal_subtasks_user_goal").on(table.userGoalId)],
+);
+
+export const goalProgressLogs = pgTable("goal_progress_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  weekStart: timestamp("week_start").notNull(),
-  categoriesCompleted: integer("categories_completed").notNull(),
-  level: varchar("level", { length: 50 }).notNull(), // "track", "rock", "slayed"
-  createdAt: timestamp("created_at").defaultNow(),
+  userGoalId: varchar("user_goal_id").notNull().references(() => userGoals.id, { onDelete: "cascade" }),
+  value: real("value").notNull(),
+  note: text("note"),
+  loggedAt: timestamp("logged_at").defaultNow(),
 });
 
+// One achievement per user and week, re-derived from the week's goals
+export const achievements = pgTable(
+  "achievements",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    weekStart: timestamp("week_start").notNull(),
+    categoriesCompleted: integer("categories_completed").notNull(),
+    level: varchar("level", { length: 50 }).notNull(), // "track", "rock", "slayed"
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_achievements_user_week").on(table.userId, table.weekStart)],
+);
+
+// One journal entry per user and week
+export const weeklyReflections = pgTable(
+  "weekly_reflections",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    weekStart: timestamp("week_start").notNull(),
+    content: text("content"),
+    mood: integer("mood"), // 1 (low) … 5 (great)
+    energy: integer("energy"), // 1 (drained) … 5 (energized)
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_weekly_reflections_user_week").on(table.userId, table.weekStart)],
+);
+
 export const friendships = pgTable("friendships", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   requesterId: varchar("requester_id").notNull().references(() => users.id),
@@ -97,7 +307,7 @@ export const activityFeed = pgTable("activity_feed", {
 export const sharedAchievements = pgTable("shared_achievements", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
-  achievementId: varchar("achievement_id").notNull().references(() => achievements.id),
+  achievementId: varchar("achievement_id").notNull().references(() => achievements.id, { onDelete: "cascade" }), // Shares go away if the achievement is revoked
   sharedWith: varchar("shared_with"), // "friends", "public", or specific user ID
   message: text("message"), // Optional message when sharing
   createdAt: timestamp("created_at").defaultNow(),
@@ -115,22 +325,99 @@ export const userNotificationPreferences = pgTable("user_notification_preference
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-export const notifications = pgTable("notifications", {
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    type: varchar("type", { length: 50 }).notNull(), // "goal_reminder", "achievement_celebration", "friend_activity", "weekly_recap", "streak_at_risk", "badge_earned", "level_up", "goal_overdue"
+    title: varchar("title", { length: 255 }).notNull(),
+    message: text("message").notNull(),
+    data: jsonb("data"), // Additional notification data
+    dedupeKey: varchar("dedupe_key", { length: 255 }), // Set on reminders that go out at most once, e.g. "weekly_recap:2025-01-06"
+    read: boolean("read").default(false),
+    scheduledFor: timestamp("scheduled_for"), // For future notifications
+    sentAt: timestamp("sent_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_notifications_user_dedupe_key").on(table.userId, table.dedupeKey)],
+);
+
+export const userPlanTemplates = pgTable("user_plan_templates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  userId: varchar("user_id").notNull().references(() => users.id),
-  type: varchar("type", { length: 50 }).notNull(), // "goal_reminder", "achievement_celebration", "friend_activity", "weekly_recap"
-  title: varchar("title", { length: 255 }).notNull(),
-  message: text("message").notNull(),
-  data: jsonb("data"), // Additional notification data
-  read: boolean("read").default(false),
-  scheduledFor: timestamp("scheduled_for"), // For future notifications
-  sentAt: timestamp("sent_at"),
+  userId: varchar("user_id").notNull().references(() => users.id).unique(),
+  goalsPerCategory: integer("goals_per_category").notNull().default(2), // Completions needed for a category to count as completed
+  minGoalsPerCategory: integer("min_goals_per_category").notNull().default(2),
+  maxGoalsPerCategory: integer("max_goals_per_category").notNull().default(2),
+  activeCategoryIds: jsonb("active_category_ids").$type<string[]>(), // null means every category is active
+  autoRollover: boolean("auto_rollover").notNull().default(false), // Copy last week's goals into a new, empty week
+  rolloverIncompleteOnly: boolean("rollover_incomplete_only").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// A user's own difficulty and time estimates for a goal; null fields keep the goal's values
+export const userGoalEstimates = pgTable(
+  "user_goal_estimates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    goalId: varchar("goal_id").notNull().references(() => goals.id, { onDelete: "cascade" }),
+    difficulty: varchar("difficulty", { length: 10 }),
+    estimatedWeeklyMinutes: integer("estimated_weekly_minutes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_goal_estimates_user_goal").on(table.userId, table.goalId)],
+);
+
+export const userBadges = pgTable(
+  "user_badges",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    badgeId: varchar("badge_id", { length: 100 }).notNull(), // Key into the badge catalog in shared/badges.ts
+    earnedAt: timestamp("earned_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("IDX_user_badges_user_badge").on(table.userId, table.badgeId)],
+);
+
+// Append-only record of every XP award and reversal; a user's XP is the sum of their entries
+export const xpLedger = pgTable(
+  "xp_ledger",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    amount: integer("amount").notNull(), // Negative for reversals
+    reason: varchar("reason", { length: 50 }).notNull(), // "goal_completed", "goal_uncompleted", "goal_removed", "goal_edited", "achievement_level"
+    source: varchar("source", { length: 20 }).notNull(), // "goal" or "achievement"
+    sourceId: varchar("source_id").notNull(), // User goal ID, or the week's YYYY-MM-DD start for achievements
+    weekStart: timestamp("week_start").notNull(),
+    details: jsonb("details"), // Multipliers and levels behind the amount
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_xp_ledger_user_week").on(table.userId, table.weekStart)],
+);
+
 // Relations
-export const categoriesRelations = relations(categories, ({ many }) => ({
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
   goals: many(goals),
+  creator: one(users, {
+    fields: [categories.createdBy],
+    references: [users.id],
+  }),
+  archivedBy: many(userArchivedCategories),
+}));
+
+export const userArchivedCategoriesRelations = relations(userArchivedCategories, ({ one }) => ({
+  user: one(users, {
+    fields: [userArchivedCategories.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [userArchivedCategories.categoryId],
+    references: [categories.id],
+  }),
 }));
 
 export const goalsRelations = relations(goals, ({ one, many }) => ({
@@ -143,21 +430,89 @@ export const goalsRelations = relations(goals, ({ one, many }) => ({
     references: [users.id],
   }),
   userGoals: many(userGoals),
+  estimates: many(userGoalEstimates),
 }));
 
 export const usersRelations = relations(users, ({ one, many }) => ({
   userGoals: many(userGoals),
   achievements: many(achievements),
   customGoals: many(goals),
+  customCategories: many(categories),
+  archivedCategories: many(userArchivedCategories),
   requestedFriendships: many(friendships, { relationName: "requester" }),
   receivedFriendships: many(friendships, { relationName: "addressee" }),
   activities: many(activityFeed),
   sharedAchievements: many(sharedAchievements),
   notificationPreferences: one(userNotificationPreferences),
   notifications: many(notifications),
+  planTemplate: one(userPlanTemplates),
+  badges: many(userBadges),
+  xpEntries: many(xpLedger),
+  goalEstimates: many(userGoalEstimates),
+  reflections: many(weeklyReflections),
+  authSessions: many(authSessions),
+  refreshTokens: many(refreshTokens),
+  authTokens: many(authTokens),
+  failedLoginAttempts: many(failedLoginAttempts),
+  twoFactor: one(userTwoFactor),
+  recoveryCodes: many(twoFactorRecoveryCodes),
+}));
+
+export const authSessionsRelations = relations(authSessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [authSessions.userId],
+    references: [users.id],
+  }),
+  refreshTokens: many(refreshTokens),
 }));
 
-export const userGoalsRelations = relations(userGoals, ({ one }) => ({
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id],
+  }),
+  session: one(authSessions, {
+    fields: [refreshTokens.familyId],
+    references: [authSessions.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const failedLoginAttemptsRelations = relations(failedLoginAttempts, ({ one }) => ({
+  user: one(users, {
+    fields: [failedLoginAttempts.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userTwoFactorRelations = relations(userTwoFactor, ({ one }) => ({
+  user: one(users, {
+    fields: [userTwoFactor.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorRecoveryCodesRelations = relations(twoFactorRecoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorRecoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const weeklyReflectionsRelations = relations(weeklyReflections, ({ one }) => ({
+  user: one(users, {
+    fields: [weeklyReflections.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userGoalsRelations = relations(userGoals, ({ one, many }) => ({
   user: one(users, {
     fields: [userGoals.userId],
     references: [users.id],
@@ -166,6 +521,30 @@ export const userGoalsRelations = relations(userGoals, ({ one }) => ({
     fields: [userGoals.goalId],
     references: [goals.id],
   }),
+  checkins: many(goalCheckins),
+  progressLogs: many(goalProgressLogs),
+  subtasks: many(goalSubtasks),
+}));
+
+export const goalSubtasksRelations = relations(goalSubtasks, ({ one }) => ({
+  userGoal: one(userGoals, {
+    fields: [goalSubtasks.userGoalId],
+    references: [userGoals.id],
+  }),
+}));
+
+export const goalProgressLogsRelations = relations(goalProgressLogs, ({ one }) => ({
+  userGoal: one(userGoals, {
+    fields: [goalProgressLogs.userGoalId],
+    references: [userGoals.id],
+  }),
+}));
+
+export const goalCheckinsRelations = relations(goalCheckins, ({ one }) => ({
+  userGoal: one(userGoals, {
+    fields: [goalCheckins.userGoalId],
+    references: [userGoals.id],
+  }),
 }));
 
 export const achievementsRelations = relations(achievements, ({ one, many }) => ({
@@ -221,12 +600,64 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
+export const userPlanTemplatesRelations = relations(userPlanTemplates, ({ one }) => ({
+  user: one(users, {
+    fields: [userPlanTemplates.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userGoalEstimatesRelations = relations(userGoalEstimates, ({ one }) => ({
+  user: one(users, {
+    fields: [userGoalEstimates.userId],
+    references: [users.id],
+  }),
+  goal: one(goals, {
+    fields: [userGoalEstimates.goalId],
+    references: [goals.id],
+  }),
+}));
+
+export const userBadgesRelations = relations(userBadges, ({ one }) => ({
+  user: one(users, {
+    fields: [userBadges.userId],
+    references: [users.id],
+  }),
+}));
+
+export const xpLedgerRelations = relations(xpLedger, ({ one }) => ({
+  user: one(users, {
+    fields: [xpLedger.userId],
+    references: [users.id],
+  }),
+}));
+
 // Schemas
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertCustomCategorySchema = z.object({
+  name: z.string().trim().min(1, "Category name is required").max(50, "Category name must be 50 characters or less"),
+  description: z.string().trim().max(200, "Description must be 200 characters or less").nullable().optional(),
+  icon: z.string().refine(isValidCustomCategoryIcon, "Icon must be a listed icon or an image of at most 64 KB"),
+  color: z.string().refine(isHexColor, "Color must be a hex value like #6366f1"),
+});
+
+export const updateCustomCategorySchema = insertCustomCategorySchema.partial();
+
+// Fields the owner of a custom goal can change; the category stays fixed so history keeps its meaning
+export const updateCustomGoalSchema = z.object({
+  description: z.string().trim().min(1, "Goal description is required").max(200, "Goal description must be 200 characters or less"),
+  targetDaysPerWeek: z.number().int().min(1, "Target days per week must be between 1 and 7").max(7, "Target days per week must be between 1 and 7").nullable(),
+  targetValue: z.number().positive("Target amount must be a positive number").nullable(),
+  unit: z.string().trim().max(50, "Unit must be 50 characters or less").nullable(),
+  aggregation: z.enum(["sum", "max", "count"]),
+  difficulty: z.enum(["easy", "medium", "hard"]),
+  estimatedWeeklyMinutes: z.number().int().min(0).max(7 * 24 * 60).nullable(),
+}).partial();
+
 export const insertGoalSchema = createInsertSchema(goals).omit({
   id: true,
   createdAt: true,
@@ -237,6 +668,44 @@ export const insertUserGoalSchema = createInsertSchema(userGoals).omit({
   createdAt: true,
 });
 
+export const insertGoalCheckinSchema = createInsertSchema(goalCheckins, {
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  value: z.number().int().min(1).optional(),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGoalProgressLogSchema = createInsertSchema(goalProgressLogs, {
+  value: z.number().positive("Amount must be greater than zero"),
+  note: z.string().trim().max(500, "Note must be 500 characters or less").nullable().optional(),
+}).omit({
+  id: true,
+  loggedAt: true,
+});
+
+export const insertGoalSubtaskSchema = z.object({
+  title: z.string().trim().min(1, "Sub-task title is required").max(200, "Sub-task title must be 200 characters or less"),
+});
+
+export const updateGoalSubtaskSchema = insertGoalSubtaskSchema.partial().extend({
+  completed: z.boolean().optional(),
+});
+
+export const reorderGoalSubtasksSchema = z.object({
+  subtaskIds: z.array(z.string()).min(1, "At least one sub-task is required"),
+});
+
+export const updateSubtaskSettingsSchema = z.object({
+  autoCompleteFromSubtasks: z.boolean(),
+});
+
+export const scheduleUserGoalSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format").nullable(),
+  time: z.string().refine(isTimeString, "Time must be in HH:MM format").nullable().optional(),
+}).refine(slot => slot.date !== null || !slot.time, "Pick a day before picking a time");
+
 export const insertAchievementSchema = createInsertSchema(achievements).omit({
   id: true,
   createdAt: true,
@@ -269,23 +738,99 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
 });
 
+export const insertUserPlanTemplateSchema = createInsertSchema(userPlanTemplates, {
+  goalsPerCategory: z.number().int().min(1).max(10),
+  minGoalsPerCategory: z.number().int().min(0).max(10),
+  maxGoalsPerCategory: z.number().int().min(1).max(10),
+  activeCategoryIds: z.array(z.string()).min(1, "At least one category must be active").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).refine(
+  template => (template.minGoalsPerCategory ?? 2) <= (template.maxGoalsPerCategory ?? 2),
+  { message: "Minimum goals per category cannot exceed the maximum", path: ["minGoalsPerCategory"] },
+).refine(
+  template => (template.goalsPerCategory ?? 2) <= (template.maxGoalsPerCategory ?? 2),
+  { message: "Goals needed to complete a category cannot exceed the maximum goals per category", path: ["goalsPerCategory"] },
+);
+
 export const selectGoalSchema = createInsertSchema(userGoals).pick({
   goalId: true,
 });
 
+const ratingSchema = z.number().int().min(1, "Ratings go from 1 to 5").max(5, "Ratings go from 1 to 5");
+
+export const upsertWeeklyReflectionSchema = z.object({
+  content: z.string().trim().max(5000, "Reflection must be 5000 characters or less").nullable().optional(),
+  mood: ratingSchema.nullable().optional(),
+  energy: ratingSchema.nullable().optional(),
+});
+
+// Submitted at the end of the weekly review: an optional reflection plus what carries into next week
+export const weeklyReviewSchema = z.object({
+  reflection: upsertWeeklyReflectionSchema.optional(),
+  decisions: z.array(
+    z.object({
+      userGoalId: z.string().min(1),
+      action: z.enum(["keep", "drop", "adjust"]),
+      replacementGoalId: z.string().min(1).optional(),
+    }).refine(
+      decision => decision.action !== "adjust" || !!decision.replacementGoalId,
+      { message: "Pick a goal to adjust to", path: ["replacementGoalId"] },
+    ),
+  ),
+  addGoalIds: z.array(z.string().min(1)).default([]),
+});
+
+export const updateUserGoalNoteSchema = z.object({
+  note: z.string().trim().max(1000, "Note must be 1000 characters or less").nullable(),
+});
+
+// null clears that part of the override and falls back to the goal's own value
+export const updateGoalEstimateSchema = z.object({
+  difficulty: z.enum(["easy", "medium", "hard"]).nullable().optional(),
+  estimatedWeeklyMinutes: z.number().int().min(0).max(7 * 24 * 60).nullable().optional(),
+});
+
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type AuthSession = typeof authSessions.$inferSelect;
+export type InsertAuthSession = typeof authSessions.$inferInsert;
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = typeof refreshTokens.$inferInsert;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = typeof authTokens.$inferInsert;
+export type AuthTokenPurpose = "email_verification" | "password_reset";
+export type FailedLoginAttempt = typeof failedLoginAttempts.$inferSelect;
+export type InsertFailedLoginAttempt = typeof failedLoginAttempts.$inferInsert;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
 export type Category = typeof categories.$inferSelect;
+export type UserArchivedCategory = typeof userArchivedCategories.$inferSelect;
+export type WeeklyReflection = typeof weeklyReflections.$inferSelect;
 export type Goal = typeof goals.$inferSelect;
 export type UserGoal = typeof userGoals.$inferSelect;
+export type GoalCheckin = typeof goalCheckins.$inferSelect;
+export type GoalProgressLog = typeof goalProgressLogs.$inferSelect;
+export type GoalSubtask = typeof goalSubtasks.$inferSelect;
 export type Achievement = typeof achievements.$inferSelect;
 export type Friendship = typeof friendships.$inferSelect;
 export type ActivityFeed = typeof activityFeed.$inferSelect;
 export type SharedAchievement = typeof sharedAchievements.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type InsertCustomCategory = z.infer<typeof insertCustomCategorySchema>;
+export type UpdateCustomCategory = z.infer<typeof updateCustomCategorySchema>;
+export type UpdateCustomGoal = z.infer<typeof updateCustomGoalSchema>;
+export type UpsertWeeklyReflection = z.infer<typeof upsertWeeklyReflectionSchema>;
+export type WeeklyReview = z.infer<typeof weeklyReviewSchema>;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
 export type InsertUserGoal = z.infer<typeof insertUserGoalSchema>;
+export type InsertGoalCheckin = z.infer<typeof insertGoalCheckinSchema>;
+export type InsertGoalProgressLog = z.infer<typeof insertGoalProgressLogSchema>;
+export type InsertGoalSubtask = z.infer<typeof insertGoalSubtaskSchema>;
+export type UpdateGoalSubtask = z.infer<typeof updateGoalSubtaskSchema>;
+export type ScheduleUserGoal = z.infer<typeof scheduleUserGoalSchema>;
 export type InsertAchievement = z.infer<typeof insertAchievementSchema>;
 export type InsertFriendship = z.infer<typeof insertFriendshipSchema>;
 export type InsertActivityFeed = z.infer<typeof insertActivityFeedSchema>;
@@ -295,6 +840,11 @@ export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type UserNotificationPreferences = typeof userNotificationPreferences.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type SelectGoal = z.infer<typeof selectGoalSchema>;
+export type UserPlanTemplate = typeof userPlanTemplates.$inferSelect;
+export type InsertUserPlanTemplate = z.infer<typeof insertUserPlanTemplateSchema>;
+export type UserBadge = typeof userBadges.$inferSelect;
+export type UserGoalEstimate = typeof userGoalEstimates.$inferSelect;
+export type XpLedgerEntry = typeof xpLedger.$inferSelect;
 
 // Authentication schemas
 export const registerSchema = z.object({
@@ -302,6 +852,46 @@ export const registerSchema = z.object({
   password: z.string().min(8, "Password must be at least 8 characters long"),
   firstName: z.string().trim().optional(),
   lastName: z.string().trim().optional(),
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+});
+
+export const updateUserSettingsSchema = z.object({
+  timezone: z.string().refine(isValidTimezone, "Unknown timezone").optional(),
+  weekStartDay: z.number().int().min(0).max(6).optional(),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const revokeSessionsSchema = z.object({
+  exceptCurrent: z.boolean().optional(), // Keep the session making the request signed in
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address").toLowerCase().trim(),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(8, "Password must be at least 8 characters long"),
+});
+
+// A TOTP code from the authenticator app, or a recovery code
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(32, "Code is too long"),
+});
+
+export const verifyTwoFactorSchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
 });
 
 export const loginSchema = z.object({
@@ -311,3 +901,5 @@ export const loginSchema = z.object({
 
 export type RegisterRequest = z.infer<typeof registerSchema>;
 export type LoginRequest = z.infer<typeof loginSchema>;
+export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
+export type UpdateGoalEstimate = z.infer<typeof updateGoalEstimateSchema>;
@@ -0,0 +1,64 @@
+// Weekly streaks shared by the server and client.
+// A streak counts consecutive weeks that met some condition. The current week
+// only adds to a streak once it succeeds; until then a streak carried over from
+// last week is still alive, but at risk.
+
+import { addWeeks, toDateString } from "./week";
+
+export interface Streak {
+  current: number;
+  longest: number;
+  atRisk: boolean; // Alive from last week, but this week hasn't succeeded yet
+}
+
+export const EMPTY_STREAK: Streak = { current: 0, longest: 0, atRisk: false };
+
+// Longest run of consecutive YYYY-MM-DD week starts
+export function getLongestStreak(successWeeks: string[]): number {
+  const weeks = Array.from(new Set(successWeeks)).sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+  for (const week of weeks) {
+    run = previous !== null && toDateString(addWeeks(previous, 1)) === week ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = week;
+  }
+  return longest;
+}
+
+// successWeeks are YYYY-MM-DD week starts; currentWeekStart is the week in progress
+export function calculateStreak(successWeeks: string[], currentWeekStart: Date | string): Streak {
+  const successes = new Set(successWeeks);
+  const longest = getLongestStreak(successWeeks);
+
+  const thisWeek = toDateString(currentWeekStart);
+  const succeededThisWeek = successes.has(thisWeek);
+  let current = 0;
+  let week = succeededThisWeek ? thisWeek : toDateString(addWeeks(thisWeek, -1));
+  while (successes.has(week)) {
+    current++;
+    week = toDateString(addWeeks(week, -1));
+  }
+
+  return { current, longest, atRisk: current > 0 && !succeededThisWeek };
+}
+
+export interface GoalStreak extends Streak {
+  goalId: string;
+  description: string;
+  categoryId: string;
+}
+
+export interface CategoryStreak extends Streak {
+  categoryId: string;
+  categoryName: string;
+}
+
+export interface UserStreaks {
+  weekStart: string;
+  overall: Streak; // Weeks that earned any achievement level
+  categories: CategoryStreak[]; // Weeks where the category was completed under the plan
+  goals: GoalStreak[]; // Weeks the goal was selected and completed
+}
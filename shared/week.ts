@@ -0,0 +1,109 @@
+// Week boundaries shared by the server and client.
+// A week is identified by the calendar date it starts on in the user's
+// timezone, stored as midnight UTC of that date. This keeps week keys stable
+// no matter which timezone the server or browser runs in.
+
+export const DEFAULT_TIMEZONE = "UTC";
+export const DEFAULT_WEEK_START_DAY = 1; // Monday
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface WeekSettings {
+  timezone: string;
+  weekStartDay: number; // 0 = Sunday … 6 = Saturday
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function resolveWeekSettings(settings?: Partial<WeekSettings> | null): WeekSettings {
+  return {
+    timezone: settings?.timezone && isValidTimezone(settings.timezone) ? settings.timezone : DEFAULT_TIMEZONE,
+    weekStartDay: settings?.weekStartDay ?? DEFAULT_WEEK_START_DAY,
+  };
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar date (YYYY-MM-DD) of an instant as seen in the given timezone
+export function getZonedDateString(date: Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? "";
+  return `${part("year")}-${part("month")}-${part("day")}`;
+}
+
+// Midnight UTC of a YYYY-MM-DD date
+export function parseDateString(dateString: string): Date {
+  return new Date(`${dateString}T00:00:00.000Z`);
+}
+
+export function toDateString(date: Date | string): string {
+  return new Date(date).toISOString().slice(0, 10);
+}
+
+export function getTodayString(settings: WeekSettings, now: Date = new Date()): string {
+  return getZonedDateString(now, settings.timezone);
+}
+
+export function getWeekStart(settings: WeekSettings, now: Date = new Date()): Date {
+  const today = parseDateString(getTodayString(settings, now));
+  const daysSinceStart = (today.getUTCDay() - settings.weekStartDay + 7) % 7;
+  return new Date(today.getTime() - daysSinceStart * DAY_MS);
+}
+
+export function addWeeks(weekStart: Date | string, weeks: number): Date {
+  return new Date(new Date(weekStart).getTime() + weeks * 7 * DAY_MS);
+}
+
+// Whether a YYYY-MM-DD string is a real date that starts a week under these settings
+export function isWeekStartDate(dateString: string, settings: WeekSettings): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(dateString)) {
+    return false;
+  }
+  const date = parseDateString(dateString);
+  return !isNaN(date.getTime()) && toDateString(date) === dateString && date.getUTCDay() === settings.weekStartDay;
+}
+
+// Current and future weeks can always be edited; past weeks only until
+// graceDays after their last day
+export function isWeekEditable(weekStart: Date | string, settings: WeekSettings, graceDays: number, now: Date = new Date()): boolean {
+  if (new Date(weekStart).getTime() >= getWeekStart(settings, now).getTime()) {
+    return true;
+  }
+  const lastDay = parseDateString(getWeekDates(weekStart)[6]);
+  const deadline = toDateString(new Date(lastDay.getTime() + graceDays * DAY_MS));
+  return getTodayString(settings, now) <= deadline;
+}
+
+// The seven YYYY-MM-DD dates of the week
+export function getWeekDates(weekStart: Date | string): string[] {
+  const start = new Date(weekStart).getTime();
+  return Array.from({ length: 7 }, (_, i) => toDateString(new Date(start + i * DAY_MS)));
+}
+
+// Days remaining after today in the given week (0 on its last day)
+export function getDaysLeftInWeek(weekStart: Date | string, settings: WeekSettings, now: Date = new Date()): number {
+  const index = getWeekDates(weekStart).indexOf(getTodayString(settings, now));
+  return index === -1 ? 0 : 6 - index;
+}
+
+export function isDateInWeek(dateString: string, weekStart: Date | string): boolean {
+  return getWeekDates(weekStart).includes(dateString);
+}
+
+// A YYYY-MM-DD date as a local Date at midnight, for display with local formatters
+export function toCalendarDate(dateString: string): Date {
+  const [year, month, day] = dateString.split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
@@ -0,0 +1,97 @@
+// Experience points and lifetime levels shared by the server and client.
+// XP is earned per completed goal, weighted by how demanding the goal is, how
+// many categories the week touches and how long the achievement streak is.
+// Weekly achievement levels add a flat bonus on top. Every award and reversal
+// is written to the XP ledger, so a user's total is always the sum of entries.
+
+import type { AchievementLevel } from "./plan";
+import type { GoalDifficulty } from "./effort";
+
+export type XpSource = "goal" | "achievement";
+
+export const BASE_GOAL_XP = 10;
+
+// Flat bonus for the week's achievement level, from calculateAchievementLevel
+export const ACHIEVEMENT_XP: Record<AchievementLevel, number> = {
+  none: 0,
+  track: 25,
+  rock: 50,
+  slayed: 100,
+};
+
+const DIFFICULTY_XP_MULTIPLIER: Record<GoalDifficulty, number> = {
+  easy: 1,
+  medium: 1.5,
+  hard: 2,
+};
+
+const BALANCE_BONUS_PER_CATEGORY = 0.1; // Per extra category with a completion this week
+const STREAK_BONUS_PER_WEEK = 0.1; // Per week of the achievement streak leading into this week
+const MAX_STREAK_BONUS = 0.5;
+
+export interface GoalXpFactors {
+  difficulty: GoalDifficulty; // The goal's own difficulty; user overrides don't count
+  targetDaysPerWeek?: number | null;
+  categoriesWithCompletions: number; // Including the goal's own category
+  streakWeeks: number;
+}
+
+export interface GoalXpAward {
+  amount: number;
+  difficulty: number;
+  balance: number;
+  streak: number;
+}
+
+// Harder goals are worth more, and so are goals that need repeated effort through the week
+export function getGoalDifficultyMultiplier(goal: { difficulty: GoalDifficulty; targetDaysPerWeek?: number | null }): number {
+  const frequency = goal.targetDaysPerWeek ? 1 + goal.targetDaysPerWeek / 7 : 1;
+  return DIFFICULTY_XP_MULTIPLIER[goal.difficulty] * frequency;
+}
+
+export function calculateGoalXp(factors: GoalXpFactors): GoalXpAward {
+  const difficulty = getGoalDifficultyMultiplier(factors);
+  const balance = 1 + BALANCE_BONUS_PER_CATEGORY * Math.max(0, factors.categoriesWithCompletions - 1);
+  const streak = 1 + Math.min(MAX_STREAK_BONUS, STREAK_BONUS_PER_WEEK * factors.streakWeeks);
+  return {
+    amount: Math.round(BASE_GOAL_XP * difficulty * balance * streak),
+    difficulty,
+    balance,
+    streak,
+  };
+}
+
+export interface LevelProgress {
+  totalXp: number;
+  level: number;
+  currentLevelXp: number; // XP earned since reaching the current level
+  nextLevelXp: number; // XP needed to go from the current level to the next
+  percentage: number;
+}
+
+// Reaching level n + 1 from level n takes 100 * n XP, so level L starts at 50 * L * (L - 1)
+export function getLevelStartXp(level: number): number {
+  return 50 * level * (level - 1);
+}
+
+export function getLevel(totalXp: number): number {
+  let level = 1;
+  while (getLevelStartXp(level + 1) <= totalXp) {
+    level++;
+  }
+  return level;
+}
+
+export function getLevelProgress(totalXp: number): LevelProgress {
+  const xp = Math.max(0, totalXp);
+  const level = getLevel(xp);
+  const currentLevelXp = xp - getLevelStartXp(level);
+  const nextLevelXp = getLevelStartXp(level + 1) - getLevelStartXp(level);
+  return {
+    totalXp: xp,
+    level,
+    currentLevelXp,
+    nextLevelXp,
+    percentage: Math.round((currentLevelXp / nextLevelXp) * 100),
+  };
+}